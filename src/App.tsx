@@ -11,6 +11,13 @@ import Profile from "./pages/Profile";
 import Feed from "./pages/Feed";
 import Matches from "./pages/Matches";
 import Chat from "./pages/Chat";
+import Inbox from "./pages/Inbox";
+import Search from "./pages/Search";
+import Trending from "./pages/Trending";
+import Tag from "./pages/Tag";
+import UserProfile from "./pages/UserProfile";
+import Post from "./pages/Post";
+import Notifications from "./pages/Notifications";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -28,9 +35,16 @@ const App = () => (
               <Route path="/" element={<Index />} />
               <Route path="/auth" element={<Auth />} />
               <Route path="/profile" element={<Profile />} />
+              <Route path="/users/:userId" element={<UserProfile />} />
               <Route path="/feed" element={<Feed />} />
+              <Route path="/posts/:postId" element={<Post />} />
+              <Route path="/trending" element={<Trending />} />
+              <Route path="/tags/:tag" element={<Tag />} />
               <Route path="/matches" element={<Matches />} />
-              <Route path="/chat/:matchId" element={<Chat />} />
+              <Route path="/inbox" element={<Inbox />} />
+              <Route path="/search" element={<Search />} />
+              <Route path="/notifications" element={<Notifications />} />
+              <Route path="/chat/:conversationId" element={<Chat />} />
               <Route path="*" element={<NotFound />} />
             </Routes>
           </div>
@@ -0,0 +1,57 @@
+import { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { highlightCode, getCodeLanguageLabel, type TokenType } from '@/lib/code-highlight';
+import { Check, Copy } from 'lucide-react';
+
+const tokenClasses: Record<TokenType, string> = {
+  plain: '',
+  keyword: 'text-purple-400 font-semibold',
+  string: 'text-green-400',
+  comment: 'text-zinc-500 italic',
+  number: 'text-orange-300',
+  tag: 'text-sky-400',
+};
+
+interface CodeSnippetProps {
+  code: string;
+  language: string | null;
+}
+
+export default function CodeSnippet({ code, language }: CodeSnippetProps) {
+  const [copied, setCopied] = useState(false);
+  const tokens = useMemo(() => highlightCode(code, language), [code, language]);
+
+  const copyCode = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Error copying code:', error);
+    }
+  };
+
+  return (
+    <div className="rounded-md overflow-hidden bg-zinc-900 text-zinc-100 text-left">
+      <div className="flex items-center justify-between px-3 py-1 bg-zinc-800 text-xs text-zinc-300">
+        <span className="font-medium">{getCodeLanguageLabel(language)}</span>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={copyCode}
+          className="h-6 px-2 text-xs text-zinc-300 hover:text-white hover:bg-zinc-700"
+        >
+          {copied ? <Check className="w-3 h-3 mr-1" /> : <Copy className="w-3 h-3 mr-1" />}
+          {copied ? 'Copied' : 'Copy'}
+        </Button>
+      </div>
+      <pre className="p-3 overflow-x-auto text-xs leading-relaxed">
+        <code>
+          {tokens.map((token, index) => (
+            <span key={index} className={tokenClasses[token.type]}>{token.text}</span>
+          ))}
+        </code>
+      </pre>
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { codeLanguageOptions } from '@/lib/code-highlight';
+import { Code2 } from 'lucide-react';
+
+interface CodeSnippetDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSend: (code: string, language: string) => Promise<boolean>;
+}
+
+export default function CodeSnippetDialog({ open, onOpenChange, onSend }: CodeSnippetDialogProps) {
+  const [code, setCode] = useState('');
+  const [language, setLanguage] = useState('javascript');
+  const [sending, setSending] = useState(false);
+
+  const send = async () => {
+    if (!code.trim()) return;
+
+    setSending(true);
+    const sent = await onSend(code.replace(/\s+$/, ''), language);
+    setSending(false);
+
+    if (sent) {
+      setCode('');
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg rounded-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Code2 className="w-5 h-5" />
+            Share Code Snippet
+          </DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Language</Label>
+            <Select value={language} onValueChange={setLanguage}>
+              <SelectTrigger className="rounded-xl">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {codeLanguageOptions.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="code-snippet">Code</Label>
+            <Textarea
+              id="code-snippet"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="Paste your code here..."
+              rows={10}
+              spellCheck={false}
+              className="rounded-xl resize-none font-mono text-xs"
+            />
+          </div>
+          <div className="flex gap-2 pt-2">
+            <Button
+              variant="outline"
+              className="flex-1 rounded-xl"
+              onClick={() => onOpenChange(false)}
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={send}
+              disabled={sending || !code.trim()}
+              className="flex-1 rounded-xl"
+            >
+              {sending ? 'Sending...' : 'Send Snippet'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,37 +1,94 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
-import { Send } from 'lucide-react';
+import { useMentionComposer } from '@/hooks/use-mention-composer';
+import MentionSuggestions from '@/components/MentionSuggestions';
+import RichText from '@/components/RichText';
+import { decodeMentions, encodeMentions, toMentionName, type Mention } from '@/lib/mentions';
+import { Send, Reply, Pencil, Trash2, SmilePlus, CheckCircle2 } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 
 interface Comment {
   id: string;
   post_id: string;
   user_id: string;
+  parent_id: string | null;
+  depth: number;
   content: string;
   created_at: string;
+  edited_at: string | null;
   profiles: {
     name: string;
     avatar_url: string | null;
   } | null;
 }
 
+interface Reaction {
+  comment_id: string;
+  user_id: string;
+  emoji: string;
+}
+
 interface CommentSectionProps {
   postId: string;
   isOpen: boolean;
+  /** The post's author, who can delete any comment on it */
+  postAuthorId?: string;
+  /** Question posts let their author accept one comment as the answer */
+  isQuestion?: boolean;
+  acceptedCommentId?: string | null;
+  onAnswerAccepted?: (commentId: string | null) => void;
 }
 
-export function CommentSection({ postId, isOpen }: CommentSectionProps) {
+// Top-level comments are depth 0; replies to a depth 2 comment join its parent's thread
+const MAX_COMMENT_DEPTH = 2;
+
+// Must match the CHECK constraint on comment_reactions.emoji
+const COMMENT_REACTIONS = ['👍', '❤️', '😂', '🎉', '🤔', '🙏'];
+
+export function CommentSection({
+  postId,
+  isOpen,
+  postAuthorId,
+  isQuestion = false,
+  acceptedCommentId = null,
+  onAnswerAccepted,
+}: CommentSectionProps) {
   const { user } = useAuth();
   const { toast } = useToast();
   const [comments, setComments] = useState<Comment[]>([]);
+  const [reactions, setReactions] = useState<Reaction[]>([]);
+  // Read by the realtime callback to ignore reactions on other posts' comments
+  const commentIdsRef = useRef<Set<string>>(new Set());
   const [newComment, setNewComment] = useState('');
+  const composer = useMentionComposer<HTMLTextAreaElement>(newComment, setNewComment);
   const [loading, setLoading] = useState(false);
   const [submitting, setSubmitting] = useState(false);
+  const [replyingTo, setReplyingTo] = useState<Comment | null>(null);
+  const [replyContent, setReplyContent] = useState('');
+  const replyComposer = useMentionComposer<HTMLTextAreaElement>(replyContent, setReplyContent);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editContent, setEditContent] = useState('');
+  // Mentions in the comment being edited, so they survive as "@Name" in the textarea
+  const [editMentions, setEditMentions] = useState<Mention[]>([]);
+  const [savingEdit, setSavingEdit] = useState(false);
+  const [deleteTarget, setDeleteTarget] = useState<Comment | null>(null);
 
   useEffect(() => {
     if (isOpen) {
@@ -52,6 +109,20 @@ export function CommentSection({ postId, isOpen }: CommentSectionProps) {
             fetchComments();
           }
         )
+        .on(
+          'postgres_changes',
+          {
+            event: '*',
+            schema: 'public',
+            table: 'comment_reactions'
+          },
+          (payload) => {
+            const commentId = (payload.new as Partial<Reaction>).comment_id || (payload.old as Partial<Reaction>).comment_id;
+            if (commentId && commentIdsRef.current.has(commentId)) {
+              fetchReactions([...commentIdsRef.current]);
+            }
+          }
+        )
         .subscribe();
 
       return () => {
@@ -63,48 +134,26 @@ export function CommentSection({ postId, isOpen }: CommentSectionProps) {
   const fetchComments = async () => {
     setLoading(true);
     try {
-      // Get comments for this post
+      // Authors come embedded through comments_user_id_fkey
       const { data: commentsData, error: commentsError } = await supabase
         .from('comments')
-        .select('*')
+        .select('*, profiles(name, avatar_url)')
         .eq('post_id', postId)
         .order('created_at', { ascending: true });
 
       if (commentsError) throw commentsError;
 
       if (!commentsData || commentsData.length === 0) {
+        commentIdsRef.current = new Set();
         setComments([]);
+        setReactions([]);
         return;
       }
 
-      // Get unique user IDs
-      const userIds = [...new Set(commentsData.map(comment => comment.user_id))];
-      
-      // Fetch profiles for these users
-      const { data: profilesData, error: profilesError } = await supabase
-        .from('profiles')
-        .select('user_id, name, avatar_url')
-        .in('user_id', userIds);
-
-      if (profilesError) {
-        console.error('Error fetching profiles:', profilesError);
-      }
+      commentIdsRef.current = new Set(commentsData.map(comment => comment.id));
+      fetchReactions(commentsData.map(comment => comment.id));
 
-      // Create profiles map
-      const profilesMap = new Map();
-      if (profilesData) {
-        profilesData.forEach(profile => {
-          profilesMap.set(profile.user_id, profile);
-        });
-      }
-
-      // Combine comments with profiles
-      const commentsWithProfiles = commentsData.map(comment => ({
-        ...comment,
-        profiles: profilesMap.get(comment.user_id) || null
-      }));
-
-      setComments(commentsWithProfiles);
+      setComments(commentsData);
     } catch (error) {
       toast({
         title: "Error",
@@ -116,6 +165,72 @@ export function CommentSection({ postId, isOpen }: CommentSectionProps) {
     }
   };
 
+  const fetchReactions = async (commentIds: string[]) => {
+    const { data, error } = await supabase
+      .from('comment_reactions')
+      .select('comment_id, user_id, emoji')
+      .in('comment_id', commentIds);
+
+    if (error) {
+      console.error('Failed to fetch comment reactions:', error);
+      return;
+    }
+
+    setReactions(data || []);
+  };
+
+  const toggleReaction = async (commentId: string, emoji: string) => {
+    if (!user) return;
+
+    const hadReacted = reactions.some(r => r.comment_id === commentId && r.user_id === user.id && r.emoji === emoji);
+    const reaction = { comment_id: commentId, user_id: user.id, emoji };
+    const withoutReaction = (prev: Reaction[]) =>
+      prev.filter(r => !(r.comment_id === commentId && r.user_id === user.id && r.emoji === emoji));
+
+    // Optimistic update, reverted if the write fails
+    setReactions(prev => hadReacted ? withoutReaction(prev) : [...prev, reaction]);
+
+    const { error } = hadReacted
+      ? await supabase
+          .from('comment_reactions')
+          .delete()
+          .eq('comment_id', commentId)
+          .eq('user_id', user.id)
+          .eq('emoji', emoji)
+      : await supabase
+          .from('comment_reactions')
+          .insert(reaction);
+
+    if (error) {
+      setReactions(prev => hadReacted ? [...prev, reaction] : withoutReaction(prev));
+      toast({
+        title: "Error",
+        description: "Failed to update reaction",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const toggleAcceptedAnswer = async (commentId: string) => {
+    const nextAccepted = acceptedCommentId === commentId ? null : commentId;
+
+    const { error } = await supabase
+      .from('posts')
+      .update({ accepted_comment_id: nextAccepted })
+      .eq('id', postId);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to update accepted answer",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    onAnswerAccepted?.(nextAccepted);
+  };
+
   const submitComment = async () => {
     if (!user || !newComment.trim()) return;
     
@@ -126,12 +241,13 @@ export function CommentSection({ postId, isOpen }: CommentSectionProps) {
         .insert({
           post_id: postId,
           user_id: user.id,
-          content: newComment.trim(),
+          content: composer.encode(newComment.trim()),
         });
 
       if (error) throw error;
 
       setNewComment('');
+      composer.setMentioned([]);
       toast({
         title: "Success",
         description: "Comment added successfully",
@@ -147,8 +263,331 @@ export function CommentSection({ postId, isOpen }: CommentSectionProps) {
     }
   };
 
+  const startReply = (comment: Comment) => {
+    const mention = comment.user_id !== user?.id && comment.profiles
+      ? { user_id: comment.user_id, name: toMentionName(comment.profiles.name) }
+      : null;
+
+    setReplyingTo(comment);
+    setReplyContent(mention ? `@${mention.name} ` : '');
+    replyComposer.setMentioned(mention ? [mention] : []);
+    replyComposer.moveCaret(mention ? mention.name.length + 2 : 0);
+  };
+
+  const cancelReply = () => {
+    setReplyingTo(null);
+    setReplyContent('');
+    replyComposer.setMentioned([]);
+  };
+
+  const submitReply = async () => {
+    if (!user || !replyingTo || !replyContent.trim()) return;
+
+    setSubmitting(true);
+    try {
+      const { error } = await supabase
+        .from('comments')
+        .insert({
+          post_id: postId,
+          user_id: user.id,
+          parent_id: replyingTo.depth >= MAX_COMMENT_DEPTH ? replyingTo.parent_id : replyingTo.id,
+          content: replyComposer.encode(replyContent.trim()),
+        });
+
+      if (error) throw error;
+
+      cancelReply();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to add reply",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const startEditing = (comment: Comment) => {
+    const { text, mentioned } = decodeMentions(comment.content);
+    setEditingId(comment.id);
+    setEditContent(text);
+    setEditMentions(mentioned);
+  };
+
+  const saveEdit = async () => {
+    if (!editingId || !editContent.trim()) return;
+
+    setSavingEdit(true);
+    try {
+      // edited_at is set by the set_comment_thread trigger
+      const { error } = await supabase
+        .from('comments')
+        .update({ content: encodeMentions(editContent.trim(), editMentions) })
+        .eq('id', editingId);
+
+      if (error) throw error;
+
+      setEditingId(null);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to update comment",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingEdit(false);
+    }
+  };
+
+  const deleteComment = async () => {
+    if (!deleteTarget) return;
+
+    try {
+      // Replies are removed with it by the parent_id foreign key
+      const { error } = await supabase
+        .from('comments')
+        .delete()
+        .eq('id', deleteTarget.id);
+
+      if (error) throw error;
+
+      setComments(prev => prev.filter(comment => comment.id !== deleteTarget.id));
+      toast({
+        title: "Comment deleted",
+        description: "The comment has been removed",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to delete comment",
+        variant: "destructive",
+      });
+    } finally {
+      setDeleteTarget(null);
+    }
+  };
+
   if (!isOpen) return null;
 
+  const repliesByParent = new Map<string, Comment[]>();
+  comments.forEach(comment => {
+    if (!comment.parent_id) return;
+    repliesByParent.set(comment.parent_id, [...(repliesByParent.get(comment.parent_id) || []), comment]);
+  });
+  const reactionsByComment = new Map<string, Reaction[]>();
+  reactions.forEach(reaction => {
+    reactionsByComment.set(reaction.comment_id, [...(reactionsByComment.get(reaction.comment_id) || []), reaction]);
+  });
+
+  // The thread holding the accepted answer is pinned above the rest
+  const commentsById = new Map(comments.map(comment => [comment.id, comment]));
+  let pinnedThreadId = acceptedCommentId;
+  while (pinnedThreadId && commentsById.get(pinnedThreadId)?.parent_id) {
+    pinnedThreadId = commentsById.get(pinnedThreadId)!.parent_id;
+  }
+  const topLevelComments = comments
+    .filter(comment => !comment.parent_id)
+    .sort((a, b) => Number(b.id === pinnedThreadId) - Number(a.id === pinnedThreadId));
+  const canAcceptAnswers = isQuestion && !!user && postAuthorId === user.id;
+
+  const renderComment = (comment: Comment) => {
+    const isAuthor = comment.user_id === user?.id;
+    const canDelete = isAuthor || (!!user && postAuthorId === user.id);
+    const replies = repliesByParent.get(comment.id) || [];
+    const isAccepted = comment.id === acceptedCommentId;
+    const commentReactions = reactionsByComment.get(comment.id) || [];
+    const reactionCounts = COMMENT_REACTIONS
+      .map(emoji => ({
+        emoji,
+        count: commentReactions.filter(r => r.emoji === emoji).length,
+        reacted: commentReactions.some(r => r.emoji === emoji && r.user_id === user?.id),
+      }))
+      .filter(({ count }) => count > 0);
+
+    return (
+      <div key={comment.id} className="space-y-3">
+        <div className="flex gap-3">
+          <Avatar className="w-8 h-8 flex-shrink-0">
+            <AvatarImage src={comment.profiles?.avatar_url || ''} />
+            <AvatarFallback className="text-xs">
+              {comment.profiles?.name?.charAt(0).toUpperCase() || 'U'}
+            </AvatarFallback>
+          </Avatar>
+          <div className="flex-1 min-w-0 space-y-1">
+            {editingId === comment.id ? (
+              <div className="space-y-2">
+                <Textarea
+                  value={editContent}
+                  onChange={(e) => setEditContent(e.target.value)}
+                  autoFocus
+                  className="min-h-[60px] resize-none bg-muted/50 border-border/50 focus:border-primary/50 transition-colors"
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+                      e.preventDefault();
+                      saveEdit();
+                    } else if (e.key === 'Escape') {
+                      setEditingId(null);
+                    }
+                  }}
+                />
+                <div className="flex justify-end gap-2">
+                  <Button variant="ghost" size="sm" onClick={() => setEditingId(null)} disabled={savingEdit}>
+                    Cancel
+                  </Button>
+                  <Button size="sm" onClick={saveEdit} disabled={savingEdit || !editContent.trim()}>
+                    {savingEdit ? 'Saving...' : 'Save'}
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <div className={`rounded-2xl px-3 py-2 transition-colors ${
+                isAccepted
+                  ? 'bg-green-50 border border-green-200'
+                  : 'bg-muted/30 hover:bg-muted/50'
+              }`}>
+                <div className="flex flex-wrap items-center gap-2 mb-1">
+                  <span className="font-medium text-sm">
+                    {comment.profiles?.name || 'Unknown User'}
+                  </span>
+                  <span className="text-xs text-muted-foreground">
+                    {formatDistanceToNow(new Date(comment.created_at), { addSuffix: true })}
+                    {comment.edited_at && ' · edited'}
+                  </span>
+                  {isAccepted && (
+                    <Badge variant="secondary" className="rounded-full bg-green-100 text-green-800 text-xs">
+                      <CheckCircle2 className="w-3 h-3 mr-1" />
+                      Accepted answer
+                    </Badge>
+                  )}
+                </div>
+                <p className="text-sm whitespace-pre-wrap break-words">
+                  <RichText text={comment.content} />
+                </p>
+              </div>
+            )}
+            {editingId !== comment.id && user && (
+              <div className="flex flex-wrap items-center gap-3 px-3 text-xs text-muted-foreground">
+                {reactionCounts.map(({ emoji, count, reacted }) => (
+                  <button
+                    key={emoji}
+                    type="button"
+                    onClick={() => toggleReaction(comment.id, emoji)}
+                    aria-pressed={reacted}
+                    className={`flex items-center gap-1 rounded-full border px-2 py-0.5 transition-colors ${
+                      reacted ? 'border-primary/40 bg-primary/10 text-primary' : 'border-border/50 hover:bg-muted'
+                    }`}
+                  >
+                    <span>{emoji}</span>
+                    <span>{count}</span>
+                  </button>
+                ))}
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <button
+                      type="button"
+                      className="flex items-center gap-1 hover:text-primary transition-colors"
+                      aria-label="Add reaction"
+                    >
+                      <SmilePlus className="w-3 h-3" />
+                    </button>
+                  </PopoverTrigger>
+                  <PopoverContent align="start" className="w-auto p-1 flex gap-1 rounded-xl">
+                    {COMMENT_REACTIONS.map(emoji => (
+                      <button
+                        key={emoji}
+                        type="button"
+                        onClick={() => toggleReaction(comment.id, emoji)}
+                        className="w-8 h-8 rounded-lg text-lg hover:bg-muted transition-colors"
+                      >
+                        {emoji}
+                      </button>
+                    ))}
+                  </PopoverContent>
+                </Popover>
+                <button
+                  type="button"
+                  onClick={() => startReply(comment)}
+                  className="flex items-center gap-1 hover:text-primary transition-colors"
+                >
+                  <Reply className="w-3 h-3" />
+                  Reply
+                </button>
+                {canAcceptAnswers && (
+                  <button
+                    type="button"
+                    onClick={() => toggleAcceptedAnswer(comment.id)}
+                    className="flex items-center gap-1 hover:text-green-600 transition-colors"
+                  >
+                    <CheckCircle2 className="w-3 h-3" />
+                    {isAccepted ? 'Unaccept' : 'Accept answer'}
+                  </button>
+                )}
+                {isAuthor && (
+                  <button
+                    type="button"
+                    onClick={() => startEditing(comment)}
+                    className="flex items-center gap-1 hover:text-primary transition-colors"
+                  >
+                    <Pencil className="w-3 h-3" />
+                    Edit
+                  </button>
+                )}
+                {canDelete && (
+                  <button
+                    type="button"
+                    onClick={() => setDeleteTarget(comment)}
+                    className="flex items-center gap-1 hover:text-red-600 transition-colors"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                    Delete
+                  </button>
+                )}
+              </div>
+            )}
+            {replyingTo?.id === comment.id && (
+              <div className="space-y-2 pt-1">
+                <Textarea
+                  ref={replyComposer.inputRef}
+                  value={replyContent}
+                  onChange={(e) => {
+                    setReplyContent(e.target.value);
+                    replyComposer.trackCaret(e);
+                  }}
+                  onSelect={replyComposer.trackCaret}
+                  placeholder={`Reply to ${comment.profiles?.name || 'this comment'}...`}
+                  className="min-h-[60px] resize-none bg-muted/50 border-border/50 focus:border-primary/50 transition-colors"
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+                      e.preventDefault();
+                      submitReply();
+                    } else if (e.key === 'Escape') {
+                      cancelReply();
+                    }
+                  }}
+                />
+                <MentionSuggestions suggestions={replyComposer.suggestions} onSelect={replyComposer.insertMention} />
+                <div className="flex justify-end gap-2">
+                  <Button variant="ghost" size="sm" onClick={cancelReply} disabled={submitting}>
+                    Cancel
+                  </Button>
+                  <Button size="sm" onClick={submitReply} disabled={submitting || !replyContent.trim()}>
+                    {submitting ? 'Replying...' : 'Reply'}
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+        {replies.length > 0 && (
+          <div className="ml-11 pl-3 border-l border-border/50 space-y-3">
+            {replies.map(renderComment)}
+          </div>
+        )}
+      </div>
+    );
+  };
+
   return (
     <div className="border-t border-border/50 pt-4 mt-4">
       {/* Comment Input */}
@@ -161,9 +600,14 @@ export function CommentSection({ postId, isOpen }: CommentSectionProps) {
         </Avatar>
         <div className="flex-1 space-y-2">
           <Textarea
+            ref={composer.inputRef}
             value={newComment}
-            onChange={(e) => setNewComment(e.target.value)}
-            placeholder="Write a comment..."
+            onChange={(e) => {
+              setNewComment(e.target.value);
+              composer.trackCaret(e);
+            }}
+            onSelect={composer.trackCaret}
+            placeholder="Write a comment... Use @ to mention someone"
             className="min-h-[80px] resize-none bg-muted/50 border-border/50 focus:border-primary/50 transition-colors"
             onKeyDown={(e) => {
               if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
@@ -172,6 +616,7 @@ export function CommentSection({ postId, isOpen }: CommentSectionProps) {
               }
             }}
           />
+          <MentionSuggestions suggestions={composer.suggestions} onSelect={composer.insertMention} />
           <div className="flex justify-between items-center">
             <span className="text-xs text-muted-foreground">Press Cmd+Enter to post</span>
             <Button 
@@ -192,7 +637,8 @@ export function CommentSection({ postId, isOpen }: CommentSectionProps) {
 
       {/* Comments List */}
       <div className="space-y-3">
-        {loading ? (
+        {/* Realtime refreshes keep the list mounted so open reply and edit boxes survive */}
+        {loading && comments.length === 0 ? (
           <div className="flex items-center justify-center py-8">
             <div className="w-6 h-6 border-2 border-primary/30 border-t-primary rounded-full animate-spin" />
           </div>
@@ -201,31 +647,28 @@ export function CommentSection({ postId, isOpen }: CommentSectionProps) {
             No comments yet. Be the first to comment!
           </p>
         ) : (
-          comments.map((comment) => (
-            <div key={comment.id} className="flex gap-3">
-              <Avatar className="w-8 h-8 flex-shrink-0">
-                <AvatarImage src={comment.profiles?.avatar_url || ''} />
-                <AvatarFallback className="text-xs">
-                  {comment.profiles?.name?.charAt(0).toUpperCase() || 'U'}
-                </AvatarFallback>
-              </Avatar>
-              <div className="flex-1 space-y-1">
-                <div className="bg-muted/30 rounded-2xl px-3 py-2 transition-colors hover:bg-muted/50">
-                  <div className="flex items-center gap-2 mb-1">
-                    <span className="font-medium text-sm">
-                      {comment.profiles?.name || 'Unknown User'}
-                    </span>
-                    <span className="text-xs text-muted-foreground">
-                      {formatDistanceToNow(new Date(comment.created_at), { addSuffix: true })}
-                    </span>
-                  </div>
-                  <p className="text-sm whitespace-pre-wrap">{comment.content}</p>
-                </div>
-              </div>
-            </div>
-          ))
+          topLevelComments.map(renderComment)
         )}
       </div>
+
+      <AlertDialog open={!!deleteTarget} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <AlertDialogContent className="rounded-2xl">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete comment?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deleteTarget && repliesByParent.has(deleteTarget.id)
+                ? 'This comment and all of its replies will be permanently deleted.'
+                : 'This comment will be permanently deleted.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={deleteComment} className="bg-red-600 hover:bg-red-700">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
-}
\ No newline at end of file
+}
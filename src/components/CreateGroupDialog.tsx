@@ -0,0 +1,160 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { useToast } from '@/hooks/use-toast';
+import { useMatchedProfiles } from '@/hooks/use-matched-profiles';
+import { supabase } from '@/integrations/supabase/client';
+import { Check, Users } from 'lucide-react';
+
+// Mirrors the check on conversations.name
+const MAX_GROUP_NAME_LENGTH = 60;
+
+export default function CreateGroupDialog() {
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [creating, setCreating] = useState(false);
+  const { profiles, loading } = useMatchedProfiles(open);
+
+  const toggleMember = (userId: string) => {
+    setSelectedIds(prev =>
+      prev.includes(userId) ? prev.filter(id => id !== userId) : [...prev, userId]
+    );
+  };
+
+  const resetForm = () => {
+    setName('');
+    setSelectedIds([]);
+  };
+
+  const createGroup = async () => {
+    if (!name.trim() || selectedIds.length < 2) return;
+
+    setCreating(true);
+    try {
+      const { data, error } = await supabase.rpc('create_group_conversation', {
+        _name: name.trim(),
+        _member_ids: selectedIds,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Group created",
+        description: `${name.trim()} is ready to chat`,
+      });
+
+      setOpen(false);
+      resetForm();
+      navigate(`/chat/${data}`);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to create group",
+        variant: "destructive",
+      });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="rounded-xl">
+          <Users className="w-4 h-4 mr-2" />
+          New group
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md rounded-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Users className="w-5 h-5" />
+            New Group
+          </DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="group-name">Group name</Label>
+            <Input
+              id="group-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. DBMS Project Team"
+              maxLength={MAX_GROUP_NAME_LENGTH}
+              className="rounded-xl"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Members</Label>
+            <p className="text-xs text-muted-foreground">
+              Pick at least two of your matches
+            </p>
+            <div className="max-h-64 overflow-y-auto space-y-1">
+              {loading ? (
+                <p className="text-sm text-muted-foreground py-2">Loading matches...</p>
+              ) : profiles.length === 0 ? (
+                <p className="text-sm text-muted-foreground py-2">
+                  You need matches before you can start a group
+                </p>
+              ) : (
+                profiles.map((profile) => {
+                  const selected = selectedIds.includes(profile.user_id);
+
+                  return (
+                    <button
+                      key={profile.user_id}
+                      type="button"
+                      onClick={() => toggleMember(profile.user_id)}
+                      className={`w-full flex items-center gap-3 p-2 rounded-xl text-left transition-colors ${
+                        selected ? 'bg-primary/10' : 'hover:bg-muted'
+                      }`}
+                    >
+                      <Avatar className="w-8 h-8">
+                        <AvatarImage src={profile.avatar_url || ''} />
+                        <AvatarFallback className="text-xs">
+                          {profile.name.charAt(0).toUpperCase()}
+                        </AvatarFallback>
+                      </Avatar>
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium truncate">{profile.name}</p>
+                        {profile.course && (
+                          <p className="text-xs text-muted-foreground truncate">{profile.course}</p>
+                        )}
+                      </div>
+                      {selected && <Check className="w-4 h-4 text-primary" />}
+                    </button>
+                  );
+                })
+              )}
+            </div>
+          </div>
+
+          <div className="flex gap-2 pt-2">
+            <Button
+              variant="outline"
+              className="flex-1 rounded-xl"
+              onClick={() => setOpen(false)}
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={createGroup}
+              disabled={creating || !name.trim() || selectedIds.length < 2}
+              className="flex-1 rounded-xl"
+            >
+              {creating ? 'Creating...' : 'Create Group'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -3,13 +3,16 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { BarChart3, Plus, X } from 'lucide-react';
 
+const MAX_OPTIONS = 10;
+
 interface CreatePollModalProps {
-  onPollCreated: () => void;
+  onPollCreated: (pollId: string) => void;
 }
 
 export default function CreatePollModal({ onPollCreated }: CreatePollModalProps) {
@@ -19,9 +22,22 @@ export default function CreatePollModal({ onPollCreated }: CreatePollModalProps)
   const [loading, setLoading] = useState(false);
   const [question, setQuestion] = useState('');
   const [options, setOptions] = useState(['', '']);
+  const [closesAt, setClosesAt] = useState('');
+  const [allowMultiple, setAllowMultiple] = useState(false);
+  const [maxSelections, setMaxSelections] = useState(2);
+  const [hideResults, setHideResults] = useState(false);
+
+  const resetForm = () => {
+    setQuestion('');
+    setOptions(['', '']);
+    setClosesAt('');
+    setAllowMultiple(false);
+    setMaxSelections(2);
+    setHideResults(false);
+  };
 
   const addOption = () => {
-    if (options.length < 4) {
+    if (options.length < MAX_OPTIONS) {
       setOptions([...options, '']);
     }
   };
@@ -51,16 +67,41 @@ export default function CreatePollModal({ onPollCreated }: CreatePollModalProps)
       return;
     }
 
+    const closesAtDate = closesAt ? new Date(closesAt) : null;
+    if (closesAtDate && closesAtDate.getTime() <= Date.now()) {
+      toast({
+        title: "Error",
+        description: "The poll deadline must be in the future",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (allowMultiple && (maxSelections < 2 || maxSelections > validOptions.length)) {
+      toast({
+        title: "Error",
+        description: `Max selections must be between 2 and ${validOptions.length}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
     setLoading(true);
     try {
-      const { error } = await supabase
+      const { data, error } = await supabase
         .from('polls')
         .insert({
           user_id: user.id,
           question: question.trim(),
           options: validOptions,
-          votes: validOptions.reduce((acc, option) => ({ ...acc, [option]: 0 }), {})
-        });
+          votes: validOptions.reduce((acc, option) => ({ ...acc, [option]: 0 }), {}),
+          closes_at: closesAtDate ? closesAtDate.toISOString() : null,
+          allow_multiple: allowMultiple,
+          max_selections: allowMultiple ? maxSelections : 1,
+          hide_results: hideResults,
+        })
+        .select('id')
+        .single();
 
       if (error) throw error;
 
@@ -69,11 +110,9 @@ export default function CreatePollModal({ onPollCreated }: CreatePollModalProps)
         description: "Your poll has been shared with the community",
       });
 
-      // Reset form
-      setQuestion('');
-      setOptions(['', '']);
+      resetForm();
       setOpen(false);
-      onPollCreated();
+      onPollCreated(data.id);
     } catch (error) {
       toast({
         title: "Error",
@@ -93,7 +132,7 @@ export default function CreatePollModal({ onPollCreated }: CreatePollModalProps)
           Create Poll
         </Button>
       </DialogTrigger>
-      <DialogContent className="sm:max-w-md rounded-2xl">
+      <DialogContent className="sm:max-w-md rounded-2xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <BarChart3 className="w-5 h-5" />
@@ -135,7 +174,7 @@ export default function CreatePollModal({ onPollCreated }: CreatePollModalProps)
               </div>
             ))}
             
-            {options.length < 4 && (
+            {options.length < MAX_OPTIONS && (
               <Button
                 variant="outline"
                 onClick={addOption}
@@ -147,6 +186,52 @@ export default function CreatePollModal({ onPollCreated }: CreatePollModalProps)
             )}
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="closes-at">Deadline (optional)</Label>
+            <Input
+              id="closes-at"
+              type="datetime-local"
+              value={closesAt}
+              onChange={(e) => setClosesAt(e.target.value)}
+              className="rounded-xl"
+            />
+          </div>
+
+          <div className="space-y-3 rounded-xl border border-border/50 p-3">
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="allow-multiple" className="text-sm">Allow multiple choices</Label>
+              <Switch
+                id="allow-multiple"
+                checked={allowMultiple}
+                onCheckedChange={setAllowMultiple}
+              />
+            </div>
+
+            {allowMultiple && (
+              <div className="flex items-center justify-between gap-4">
+                <Label htmlFor="max-selections" className="text-sm">Max selections</Label>
+                <Input
+                  id="max-selections"
+                  type="number"
+                  min={2}
+                  max={MAX_OPTIONS}
+                  value={maxSelections}
+                  onChange={(e) => setMaxSelections(parseInt(e.target.value, 10) || 2)}
+                  className="w-20 rounded-xl"
+                />
+              </div>
+            )}
+
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="hide-results" className="text-sm">Hide results until closed</Label>
+              <Switch
+                id="hide-results"
+                checked={hideResults}
+                onCheckedChange={setHideResults}
+              />
+            </div>
+          </div>
+
           <div className="flex gap-2 pt-4">
             <Button
               variant="outline"
@@ -0,0 +1,281 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { useMatchedProfiles } from '@/hooks/use-matched-profiles';
+import { supabase } from '@/integrations/supabase/client';
+import { Crown, LogOut, MoreVertical, Shield, UserMinus, UserPlus, Users } from 'lucide-react';
+
+export interface ConversationMember {
+  user_id: string;
+  role: string;
+  joined_at: string;
+  name: string;
+  avatar_url: string | null;
+}
+
+interface GroupMembersDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  conversationId: string;
+  groupName: string;
+  members: ConversationMember[];
+  onChanged: () => void;
+  /** Called after the current user left the group */
+  onLeft: () => void;
+}
+
+export default function GroupMembersDialog({
+  open,
+  onOpenChange,
+  conversationId,
+  groupName,
+  members,
+  onChanged,
+  onLeft,
+}: GroupMembersDialogProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [confirmLeave, setConfirmLeave] = useState(false);
+  const [working, setWorking] = useState(false);
+
+  const myRole = members.find(member => member.user_id === user?.id)?.role;
+  const canInvite = myRole === 'owner' || myRole === 'admin';
+  const { profiles: matchedProfiles } = useMatchedProfiles(open && canInvite);
+  const invitable = matchedProfiles.filter(profile => !members.some(member => member.user_id === profile.user_id));
+
+  const runAction = async (action: () => PromiseLike<{ error: unknown }>, success: string, failure: string) => {
+    setWorking(true);
+    try {
+      const { error } = await action();
+
+      if (error) throw error;
+
+      toast({
+        title: success,
+      });
+      onChanged();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: failure,
+        variant: "destructive",
+      });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const inviteMember = (userId: string, name: string) =>
+    runAction(
+      () => supabase.rpc('invite_to_conversation', { _conversation_id: conversationId, _user_id: userId }),
+      `${name} was added to the group`,
+      "Failed to invite member"
+    );
+
+  const setRole = (userId: string, role: 'admin' | 'member') =>
+    runAction(
+      () => supabase.rpc('set_participant_role', { _conversation_id: conversationId, _user_id: userId, _role: role }),
+      role === 'admin' ? "Member promoted to admin" : "Admin rights removed",
+      "Failed to change role"
+    );
+
+  const removeMember = (userId: string, name: string) =>
+    runAction(
+      () => supabase.rpc('remove_participant', { _conversation_id: conversationId, _user_id: userId }),
+      `${name} was removed from the group`,
+      "Failed to remove member"
+    );
+
+  const leaveGroup = async () => {
+    setWorking(true);
+    try {
+      const { error } = await supabase.rpc('leave_conversation', { _conversation_id: conversationId });
+
+      if (error) throw error;
+
+      toast({
+        title: "Left group",
+        description: `You are no longer a member of ${groupName}`,
+      });
+      onLeft();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to leave group",
+        variant: "destructive",
+      });
+    } finally {
+      setWorking(false);
+      setConfirmLeave(false);
+    }
+  };
+
+  const canManage = (member: ConversationMember) =>
+    member.user_id !== user?.id &&
+    member.role !== 'owner' &&
+    (myRole === 'owner' || (myRole === 'admin' && member.role === 'member'));
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-md rounded-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Users className="w-5 h-5" />
+              {groupName}
+            </DialogTitle>
+          </DialogHeader>
+          <div className="space-y-6">
+            <div className="space-y-2">
+              <p className="text-sm font-semibold">{members.length} members</p>
+              {members.map((member) => (
+                <div key={member.user_id} className="flex items-center gap-3 p-2 rounded-xl">
+                  <Avatar className="w-9 h-9">
+                    <AvatarImage src={member.avatar_url || ''} />
+                    <AvatarFallback className="text-xs">
+                      {member.name.charAt(0).toUpperCase()}
+                    </AvatarFallback>
+                  </Avatar>
+                  <p className="flex-1 text-sm font-medium truncate">
+                    {member.name}
+                    {member.user_id === user?.id && <span className="text-muted-foreground font-normal"> (you)</span>}
+                  </p>
+                  {member.role === 'owner' && (
+                    <Badge variant="secondary" className="rounded-full">
+                      <Crown className="w-3 h-3 mr-1" />
+                      Owner
+                    </Badge>
+                  )}
+                  {member.role === 'admin' && (
+                    <Badge variant="secondary" className="rounded-full">
+                      <Shield className="w-3 h-3 mr-1" />
+                      Admin
+                    </Badge>
+                  )}
+                  {canManage(member) && (
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="icon" className="h-8 w-8 rounded-full" disabled={working}>
+                          <MoreVertical className="w-4 h-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        {myRole === 'owner' && (
+                          member.role === 'admin' ? (
+                            <DropdownMenuItem onSelect={() => setRole(member.user_id, 'member')}>
+                              <Shield className="w-4 h-4 mr-2" />
+                              Remove admin
+                            </DropdownMenuItem>
+                          ) : (
+                            <DropdownMenuItem onSelect={() => setRole(member.user_id, 'admin')}>
+                              <Shield className="w-4 h-4 mr-2" />
+                              Make admin
+                            </DropdownMenuItem>
+                          )
+                        )}
+                        <DropdownMenuItem
+                          onSelect={() => removeMember(member.user_id, member.name)}
+                          className="text-red-600 focus:text-red-700"
+                        >
+                          <UserMinus className="w-4 h-4 mr-2" />
+                          Remove from group
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {canInvite && (
+              <div className="space-y-2">
+                <p className="text-sm font-semibold">Invite your matches</p>
+                {invitable.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">All of your matches are already here</p>
+                ) : (
+                  invitable.map((profile) => (
+                    <div key={profile.user_id} className="flex items-center gap-3 p-2 rounded-xl">
+                      <Avatar className="w-9 h-9">
+                        <AvatarImage src={profile.avatar_url || ''} />
+                        <AvatarFallback className="text-xs">
+                          {profile.name.charAt(0).toUpperCase()}
+                        </AvatarFallback>
+                      </Avatar>
+                      <p className="flex-1 text-sm font-medium truncate">{profile.name}</p>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="rounded-xl"
+                        onClick={() => inviteMember(profile.user_id, profile.name)}
+                        disabled={working}
+                      >
+                        <UserPlus className="w-4 h-4 mr-1" />
+                        Invite
+                      </Button>
+                    </div>
+                  ))
+                )}
+              </div>
+            )}
+
+            <Button
+              variant="outline"
+              className="w-full rounded-xl text-red-600 hover:text-red-700"
+              onClick={() => setConfirmLeave(true)}
+              disabled={working}
+            >
+              <LogOut className="w-4 h-4 mr-2" />
+              Leave group
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={confirmLeave} onOpenChange={setConfirmLeave}>
+        <AlertDialogContent className="rounded-2xl">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Leave {groupName}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {myRole === 'owner'
+                ? 'Ownership passes to the longest-standing admin, or member if there are no admins.'
+                : 'You will need an invite from an owner or admin to rejoin.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={working}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                leaveGroup();
+              }}
+              disabled={working}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              Leave
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
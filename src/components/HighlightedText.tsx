@@ -0,0 +1,28 @@
+import { stripMentions } from '@/lib/mentions';
+
+interface HighlightedTextProps {
+  /** Text from search_everything, with matches wrapped in <mark></mark> */
+  text: string;
+  className?: string;
+}
+
+const MARK_PATTERN = /<mark>(.*?)<\/mark>/g;
+
+export default function HighlightedText({ text, className }: HighlightedTextProps) {
+  // Split into plain and matched runs instead of injecting the markup as HTML
+  const parts = stripMentions(text).split(MARK_PATTERN);
+
+  return (
+    <span className={className}>
+      {parts.map((part, index) =>
+        index % 2 === 1 ? (
+          <mark key={index} className="bg-primary/15 text-foreground rounded px-0.5">
+            {part}
+          </mark>
+        ) : (
+          part
+        )
+      )}
+    </span>
+  );
+}
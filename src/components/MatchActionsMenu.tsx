@@ -0,0 +1,256 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { MoreVertical, UserMinus, Ban, Flag } from 'lucide-react';
+
+// Values must match the reports.reason check constraint
+const reportReasons = [
+  { value: 'spam', label: 'Spam' },
+  { value: 'harassment', label: 'Harassment' },
+  { value: 'inappropriate_content', label: 'Inappropriate content' },
+  { value: 'fake_profile', label: 'Fake profile' },
+  { value: 'other', label: 'Something else' },
+];
+
+interface MatchActionsMenuProps {
+  matchId: string;
+  otherUserId: string;
+  otherUserName: string;
+  /** Called after the match was removed by unmatching or blocking */
+  onRemoved: () => void;
+  triggerClassName?: string;
+}
+
+export default function MatchActionsMenu({
+  matchId,
+  otherUserId,
+  otherUserName,
+  onRemoved,
+  triggerClassName,
+}: MatchActionsMenuProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [confirmAction, setConfirmAction] = useState<'unmatch' | 'block' | null>(null);
+  const [reportOpen, setReportOpen] = useState(false);
+  const [reportReason, setReportReason] = useState('');
+  const [reportDetails, setReportDetails] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const unmatch = async () => {
+    setSubmitting(true);
+    try {
+      const { error } = await supabase.rpc('unmatch', { _match_id: matchId });
+
+      if (error) throw error;
+
+      toast({
+        title: "Unmatched",
+        description: `You and ${otherUserName} are no longer connected`,
+      });
+      onRemoved();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to unmatch",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+      setConfirmAction(null);
+    }
+  };
+
+  const block = async () => {
+    setSubmitting(true);
+    try {
+      const { error } = await supabase.rpc('block_user', { _user_id: otherUserId });
+
+      if (error) throw error;
+
+      toast({
+        title: "User blocked",
+        description: `You won't see ${otherUserName} anywhere on SRM Collab`,
+      });
+      onRemoved();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to block user",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+      setConfirmAction(null);
+    }
+  };
+
+  const submitReport = async () => {
+    if (!user || !reportReason) return;
+
+    setSubmitting(true);
+    try {
+      const { error } = await supabase
+        .from('reports')
+        .insert({
+          reporter_id: user.id,
+          reported_user_id: otherUserId,
+          match_id: matchId,
+          reason: reportReason,
+          details: reportDetails.trim() || null,
+        });
+
+      if (error) throw error;
+
+      toast({
+        title: "Report submitted",
+        description: "Thanks for letting us know. Our moderators will review it.",
+      });
+      setReportOpen(false);
+      setReportReason('');
+      setReportDetails('');
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to submit report",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon" className={triggerClassName} aria-label="Match options">
+            <MoreVertical className="w-4 h-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onSelect={() => setConfirmAction('unmatch')}>
+            <UserMinus className="w-4 h-4 mr-2" />
+            Unmatch
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => setConfirmAction('block')} className="text-red-600 focus:text-red-700">
+            <Ban className="w-4 h-4 mr-2" />
+            Block
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => setReportOpen(true)}>
+            <Flag className="w-4 h-4 mr-2" />
+            Report
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <AlertDialog open={confirmAction !== null} onOpenChange={(open) => !open && setConfirmAction(null)}>
+        <AlertDialogContent className="rounded-2xl">
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {confirmAction === 'block' ? `Block ${otherUserName}?` : `Unmatch ${otherUserName}?`}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {confirmAction === 'block'
+                ? "Your match and chat will be removed, and you won't see each other's profiles, posts, comments or messages."
+                : 'Your match and chat history will be removed. This cannot be undone.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={submitting}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                if (confirmAction === 'block') {
+                  block();
+                } else {
+                  unmatch();
+                }
+              }}
+              disabled={submitting}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              {confirmAction === 'block' ? 'Block' : 'Unmatch'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <Dialog open={reportOpen} onOpenChange={setReportOpen}>
+        <DialogContent className="sm:max-w-md rounded-2xl">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Flag className="w-5 h-5" />
+              Report {otherUserName}
+            </DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Reason</Label>
+              <Select value={reportReason} onValueChange={setReportReason}>
+                <SelectTrigger className="rounded-xl">
+                  <SelectValue placeholder="Select a reason" />
+                </SelectTrigger>
+                <SelectContent>
+                  {reportReasons.map(reason => (
+                    <SelectItem key={reason.value} value={reason.value}>{reason.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="report-details">Details (optional)</Label>
+              <Textarea
+                id="report-details"
+                value={reportDetails}
+                onChange={(e) => setReportDetails(e.target.value)}
+                placeholder="Tell us what happened..."
+                rows={4}
+                className="rounded-xl resize-none"
+              />
+            </div>
+            <div className="flex gap-2 pt-2">
+              <Button
+                variant="outline"
+                className="flex-1 rounded-xl"
+                onClick={() => setReportOpen(false)}
+              >
+                Cancel
+              </Button>
+              <Button
+                onClick={submitReport}
+                disabled={submitting || !reportReason}
+                className="flex-1 rounded-xl"
+              >
+                {submitting ? 'Submitting...' : 'Submit Report'}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
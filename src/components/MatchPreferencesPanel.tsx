@@ -0,0 +1,217 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { skillOptions, interestOptions, lookingForOptions } from '@/lib/profile-options';
+import { SlidersHorizontal, X } from 'lucide-react';
+
+interface Preferences {
+  courses: string[];
+  required_skills: string[];
+  interests: string[];
+  looking_for: string[];
+}
+
+const emptyPreferences: Preferences = {
+  courses: [],
+  required_skills: [],
+  interests: [],
+  looking_for: [],
+};
+
+interface MatchPreferencesPanelProps {
+  onSaved: () => void;
+}
+
+export default function MatchPreferencesPanel({ onSaved }: MatchPreferencesPanelProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [preferences, setPreferences] = useState<Preferences>(emptyPreferences);
+  const [availableCourses, setAvailableCourses] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (user) {
+      fetchPreferences();
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (open) {
+      fetchCourses();
+    }
+  }, [open]);
+
+  const fetchPreferences = async () => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from('match_preferences')
+      .select('courses, required_skills, interests, looking_for')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Failed to fetch match preferences:', error);
+      return;
+    }
+
+    setPreferences(data || emptyPreferences);
+  };
+
+  const fetchCourses = async () => {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('course');
+
+    if (error) {
+      console.error('Failed to fetch courses:', error);
+      return;
+    }
+
+    const courses = new Set<string>();
+    data?.forEach(profile => {
+      if (profile.course) courses.add(profile.course);
+    });
+    setAvailableCourses(Array.from(courses).sort());
+  };
+
+  const toggle = (key: keyof Preferences, value: string) => {
+    setPreferences(prev => ({
+      ...prev,
+      [key]: prev[key].includes(value)
+        ? prev[key].filter(v => v !== value)
+        : [...prev[key], value]
+    }));
+  };
+
+  const savePreferences = async () => {
+    if (!user) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('match_preferences')
+        .upsert({
+          user_id: user.id,
+          ...preferences,
+        }, {
+          onConflict: 'user_id'
+        });
+
+      if (error) throw error;
+
+      toast({
+        title: "Preferences saved",
+        description: "Your discovery deck has been updated",
+      });
+
+      setOpen(false);
+      onSaved();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to save preferences",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const activeCount = Object.values(preferences).reduce((sum, values) => sum + values.length, 0);
+
+  const renderOptions = (key: keyof Preferences, options: { value: string; label: string }[]) => (
+    <div className="flex flex-wrap gap-2">
+      {options.map((option) => (
+        <Badge
+          key={option.value}
+          variant={preferences[key].includes(option.value) ? "default" : "outline"}
+          className="cursor-pointer rounded-full px-3 py-1 transition-all duration-200 hover:scale-105"
+          onClick={() => toggle(key, option.value)}
+        >
+          {option.label}
+          {preferences[key].includes(option.value) && (
+            <X className="w-3 h-3 ml-1" />
+          )}
+        </Badge>
+      ))}
+    </div>
+  );
+
+  const toOptions = (values: string[]) => values.map(value => ({ value, label: value }));
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="rounded-xl">
+          <SlidersHorizontal className="w-4 h-4 mr-2" />
+          Preferences
+          {activeCount > 0 && (
+            <Badge variant="secondary" className="ml-2 rounded-full">
+              {activeCount}
+            </Badge>
+          )}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg rounded-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <SlidersHorizontal className="w-5 h-5" />
+            Discovery Preferences
+          </DialogTitle>
+        </DialogHeader>
+        <div className="space-y-6">
+          <div className="space-y-3">
+            <Label className="text-sm font-semibold">Looking for</Label>
+            {renderOptions('looking_for', lookingForOptions)}
+          </div>
+
+          <div className="space-y-3">
+            <Label className="text-sm font-semibold">Course</Label>
+            {availableCourses.length > 0 ? (
+              renderOptions('courses', toOptions(availableCourses))
+            ) : (
+              <p className="text-xs text-muted-foreground">No courses to pick from yet</p>
+            )}
+          </div>
+
+          <div className="space-y-3">
+            <Label className="text-sm font-semibold">Required skills</Label>
+            {renderOptions('required_skills', toOptions(skillOptions))}
+            <p className="text-xs text-muted-foreground">Profiles must have all selected skills</p>
+          </div>
+
+          <div className="space-y-3">
+            <Label className="text-sm font-semibold">Interests</Label>
+            {renderOptions('interests', toOptions(interestOptions))}
+            <p className="text-xs text-muted-foreground">Profiles must share at least one selected interest</p>
+          </div>
+
+          <div className="flex gap-2 pt-2">
+            <Button
+              variant="outline"
+              className="flex-1 rounded-xl"
+              onClick={() => setPreferences(emptyPreferences)}
+              disabled={activeCount === 0}
+            >
+              Clear all
+            </Button>
+            <Button
+              onClick={savePreferences}
+              disabled={saving}
+              className="flex-1 rounded-xl bg-gradient-to-r from-primary to-primary/80"
+            >
+              {saving ? 'Saving...' : 'Save Preferences'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
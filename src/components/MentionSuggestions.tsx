@@ -0,0 +1,36 @@
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import type { MentionCandidate } from '@/lib/mentions';
+
+interface MentionSuggestionsProps {
+  suggestions: MentionCandidate[];
+  onSelect: (candidate: MentionCandidate) => void;
+  className?: string;
+}
+
+/** People to pick from while typing an @mention */
+export default function MentionSuggestions({ suggestions, onSelect, className = '' }: MentionSuggestionsProps) {
+  if (suggestions.length === 0) return null;
+
+  return (
+    <div className={`rounded-xl border border-border/50 bg-card shadow-md overflow-hidden ${className}`}>
+      {suggestions.map((suggestion) => (
+        <button
+          key={suggestion.user_id}
+          type="button"
+          // Keep focus in the input so the caret position survives the click
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => onSelect(suggestion)}
+          className="w-full flex items-center gap-2 px-3 py-2 text-sm hover:bg-muted text-left"
+        >
+          <Avatar className="w-6 h-6">
+            <AvatarImage src={suggestion.avatar_url || ''} />
+            <AvatarFallback className="text-xs">
+              {suggestion.name?.charAt(0).toUpperCase() || 'U'}
+            </AvatarFallback>
+          </Avatar>
+          <span className="font-medium truncate">{suggestion.name}</span>
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { supabase } from '@/integrations/supabase/client';
+import { Download, FileText } from 'lucide-react';
+
+// Signed URLs stay valid for an hour; the chat refetches them on remount
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+const formatFileSize = (bytes: number | null) => {
+  if (!bytes) return '';
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+interface MessageAttachmentProps {
+  type: 'image' | 'file';
+  path: string;
+  name: string | null;
+  size: number | null;
+  isOwn: boolean;
+}
+
+export default function MessageAttachment({ type, path, name, size, isOwn }: MessageAttachmentProps) {
+  const [url, setUrl] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    // The bucket is private, so every view goes through a short-lived signed URL
+    const fetchSignedUrl = async () => {
+      const { data, error } = await supabase.storage
+        .from('chat-attachments')
+        .createSignedUrl(path, SIGNED_URL_TTL_SECONDS);
+
+      if (error) {
+        console.error('Error fetching attachment URL:', error);
+        setFailed(true);
+        return;
+      }
+
+      setUrl(data.signedUrl);
+    };
+
+    fetchSignedUrl();
+  }, [path]);
+
+  const download = async () => {
+    const { data, error } = await supabase.storage
+      .from('chat-attachments')
+      .createSignedUrl(path, SIGNED_URL_TTL_SECONDS, { download: name || true });
+
+    if (error) {
+      console.error('Error downloading attachment:', error);
+      return;
+    }
+
+    window.open(data.signedUrl, '_blank', 'noopener');
+  };
+
+  if (type === 'image' && !failed) {
+    return url ? (
+      <a href={url} target="_blank" rel="noopener noreferrer" className="block">
+        <img
+          src={url}
+          alt={name || 'Image attachment'}
+          className="rounded-md max-h-64 w-auto object-cover"
+          onError={() => setFailed(true)}
+        />
+      </a>
+    ) : (
+      <div className="w-48 h-32 rounded-md bg-black/10 animate-pulse" />
+    );
+  }
+
+  return (
+    <div className={`flex items-center gap-3 rounded-md p-2 ${isOwn ? 'bg-primary-foreground/10' : 'bg-background/60'}`}>
+      <div className={`w-9 h-9 rounded-md flex items-center justify-center ${isOwn ? 'bg-primary-foreground/20' : 'bg-muted'}`}>
+        <FileText className="w-5 h-5" />
+      </div>
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium truncate">{name || 'Attachment'}</p>
+        <p className={`text-xs ${isOwn ? 'text-primary-foreground/70' : 'text-muted-foreground'}`}>
+          {formatFileSize(size)}
+        </p>
+      </div>
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={download}
+        className="h-8 w-8 rounded-full"
+        aria-label={`Download ${name || 'attachment'}`}
+      >
+        <Download className="w-4 h-4" />
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,235 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import CodeSnippet from '@/components/CodeSnippet';
+import MessageAttachment from '@/components/MessageAttachment';
+import RichText from '@/components/RichText';
+import { decodeMentions, encodeMentions, type Mention } from '@/lib/mentions';
+import { Ban, Check, CheckCheck, MoreHorizontal, Pencil, Trash2 } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+
+// Mirrors the window enforced by the edit_message function
+const MESSAGE_EDIT_WINDOW_MS = 15 * 60 * 1000;
+
+export interface Message {
+  id: string;
+  conversation_id: string;
+  sender_id: string;
+  content: string;
+  created_at: string;
+  edited_at: string | null;
+  deleted_at: string | null;
+  message_type: string;
+  attachment_path: string | null;
+  attachment_name: string | null;
+  attachment_size: number | null;
+  attachment_mime_type: string | null;
+  code_language: string | null;
+}
+
+export type ReceiptStatus = 'sent' | 'delivered' | 'read';
+
+const receiptLabels: Record<ReceiptStatus, string> = {
+  sent: 'Sent',
+  delivered: 'Delivered',
+  read: 'Read',
+};
+
+interface MessageBubbleProps {
+  message: Message;
+  isOwn: boolean;
+  /** Shown above other people's messages in group conversations */
+  senderName?: string;
+  receipt?: ReceiptStatus;
+  onEdit: (content: string) => Promise<boolean>;
+  onDelete: () => void;
+}
+
+export default function MessageBubble({ message, isOwn, senderName, receipt, onEdit, onDelete }: MessageBubbleProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [editContent, setEditContent] = useState(message.content);
+  // Mentions in the message being edited, so they survive as "@Name" in the input
+  const [editMentions, setEditMentions] = useState<Mention[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const isDeleted = !!message.deleted_at;
+  const isAttachment = (message.message_type === 'image' || message.message_type === 'file') && !!message.attachment_path;
+  const canEdit = isOwn && !isDeleted && message.message_type === 'text' && Date.now() - new Date(message.created_at).getTime() < MESSAGE_EDIT_WINDOW_MS;
+
+  const startEditing = () => {
+    const { text, mentioned } = decodeMentions(message.content);
+    setEditContent(text);
+    setEditMentions(mentioned);
+    setIsEditing(true);
+  };
+
+  const saveEdit = async () => {
+    if (!editContent.trim()) return;
+
+    setSaving(true);
+    const saved = await onEdit(encodeMentions(editContent.trim(), editMentions));
+    setSaving(false);
+    if (saved) {
+      setIsEditing(false);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      saveEdit();
+    } else if (e.key === 'Escape') {
+      setIsEditing(false);
+    }
+  };
+
+  const mutedText = isOwn ? 'text-primary-foreground/70' : 'text-muted-foreground';
+  const ReceiptIcon = receipt === 'sent' ? Check : CheckCheck;
+
+  return (
+    <div className={`group flex items-center gap-1 ${isOwn ? 'justify-end' : 'justify-start'}`}>
+      {isOwn && !isDeleted && !isEditing && (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7 rounded-full opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+              aria-label="Message options"
+            >
+              <MoreHorizontal className="w-4 h-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            {canEdit && (
+              <DropdownMenuItem onSelect={startEditing}>
+                <Pencil className="w-4 h-4 mr-2" />
+                Edit
+              </DropdownMenuItem>
+            )}
+            <DropdownMenuItem onSelect={() => setConfirmDelete(true)} className="text-red-600 focus:text-red-700">
+              <Trash2 className="w-4 h-4 mr-2" />
+              Delete for everyone
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+
+      <div
+        className={`${message.message_type === 'code' && !isDeleted ? 'max-w-md w-full' : 'max-w-xs'} px-4 py-2 rounded-lg ${
+          isDeleted
+            ? 'border border-dashed border-border bg-transparent text-muted-foreground'
+            : isOwn
+              ? 'bg-primary text-primary-foreground'
+              : 'bg-muted'
+        }`}
+      >
+        {senderName && !isOwn && (
+          <p className="text-xs font-semibold text-primary mb-1">{senderName}</p>
+        )}
+        {isDeleted ? (
+          <p className="italic flex items-center gap-1.5">
+            <Ban className="w-3.5 h-3.5" />
+            Message deleted
+          </p>
+        ) : isEditing ? (
+          <div className="space-y-2">
+            <Input
+              value={editContent}
+              onChange={(e) => setEditContent(e.target.value)}
+              onKeyDown={handleKeyDown}
+              autoFocus
+              className="bg-background text-foreground"
+            />
+            <div className="flex justify-end gap-2">
+              <Button
+                variant="secondary"
+                size="sm"
+                className="h-7"
+                onClick={() => setIsEditing(false)}
+                disabled={saving}
+              >
+                Cancel
+              </Button>
+              <Button
+                variant="secondary"
+                size="sm"
+                className="h-7"
+                onClick={saveEdit}
+                disabled={saving || !editContent.trim()}
+              >
+                {saving ? 'Saving...' : 'Save'}
+              </Button>
+            </div>
+          </div>
+        ) : message.message_type === 'code' ? (
+          <CodeSnippet code={message.content} language={message.code_language} />
+        ) : (
+          <div className="space-y-2">
+            {isAttachment && (
+              <MessageAttachment
+                type={message.message_type as 'image' | 'file'}
+                path={message.attachment_path!}
+                name={message.attachment_name}
+                size={message.attachment_size}
+                isOwn={isOwn}
+              />
+            )}
+            {message.content && (
+              <p className="whitespace-pre-wrap">
+                <RichText
+                  text={message.content}
+                  linkClassName={isOwn ? 'text-primary-foreground underline' : 'text-primary'}
+                />
+              </p>
+            )}
+          </div>
+        )}
+        <p className={`text-xs mt-1 ${isDeleted ? 'text-muted-foreground' : mutedText}`}>
+          {formatDistanceToNow(new Date(message.created_at), { addSuffix: true })}
+          {message.edited_at && !isDeleted && ' · edited'}
+        </p>
+        {isOwn && receipt && !isDeleted && (
+          <p className={`text-xs ${mutedText} flex items-center justify-end gap-1`}>
+            <ReceiptIcon className="w-3 h-3" />
+            {receiptLabels[receipt]}
+          </p>
+        )}
+      </div>
+
+      <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialogContent className="rounded-2xl">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete message?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The message will be removed for both of you. A "Message deleted" placeholder stays in the chat.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={onDelete} className="bg-red-600 hover:bg-red-700">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -1,17 +1,39 @@
-import { Link, useLocation } from 'react-router-dom';
+import { useState, useEffect } from 'react';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { useAuth } from '@/contexts/AuthContext';
-import { Home, Users, User, MessageCircle, LogOut, GraduationCap } from 'lucide-react';
+import { Home, Users, User, MessageCircle, LogOut, GraduationCap, Search, Bell } from 'lucide-react';
+import { useUnreadMessages } from '@/hooks/use-unread-messages';
+import { useUnreadNotifications } from '@/hooks/use-unread-notifications';
 import StreakTracker from './StreakTracker';
 
 export const Navbar = () => {
   const { user, signOut } = useAuth();
   const location = useLocation();
+  const navigate = useNavigate();
+  const unreadCount = useUnreadMessages();
+  const notificationCount = useUnreadNotifications();
+  const [searchQuery, setSearchQuery] = useState('');
+
+  // Keep the box in sync with the results page, and clear it elsewhere
+  useEffect(() => {
+    setSearchQuery(location.pathname === '/search'
+      ? new URLSearchParams(location.search).get('q') || ''
+      : '');
+  }, [location.pathname, location.search]);
 
   if (!user) return null;
 
   const isActive = (path: string) => location.pathname === path;
 
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!searchQuery.trim()) return;
+
+    navigate(`/search?q=${encodeURIComponent(searchQuery.trim())}`);
+  };
+
   return (
     <>
       {/* Desktop Navbar */}
@@ -23,11 +45,45 @@ export const Navbar = () => {
                 <div className="w-8 h-8 bg-white/10 rounded-lg flex items-center justify-center">
                   <GraduationCap className="w-5 h-5 text-white" />
                 </div>
-                <Link to="/" className="text-xl font-bold text-white">
+                <Link to="/" className="hidden md:inline text-xl font-bold text-white">
                   SRM Collab
                 </Link>
               </div>
             </div>
+
+            <form onSubmit={handleSearch} className="flex-1 flex items-center max-w-sm mx-3 sm:mx-6">
+              <div className="relative w-full">
+                <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-white/60" />
+                <Input
+                  type="search"
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  placeholder="Search posts, polls, people..."
+                  aria-label="Search"
+                  className="h-9 pl-9 rounded-xl bg-white/10 border-white/20 text-white placeholder:text-white/60 focus-visible:ring-white/40"
+                />
+              </div>
+            </form>
+
+            {/* Shown on every screen size; the mobile bottom bar has no room for it */}
+            <div className="flex items-center sm:mr-6">
+              <Link
+                to="/notifications"
+                aria-label="Notifications"
+                className={`relative inline-flex items-center justify-center w-9 h-9 rounded-lg transition-all duration-200 ${
+                  isActive('/notifications')
+                    ? 'text-white bg-white/20 shadow-lg backdrop-blur-sm'
+                    : 'text-white/80 hover:text-white hover:bg-white/10'
+                }`}
+              >
+                <Bell className="w-5 h-5" />
+                {notificationCount > 0 && (
+                  <span className="absolute -top-1 -right-1 min-w-5 h-5 px-1 rounded-full bg-white text-primary text-xs font-bold flex items-center justify-center">
+                    {notificationCount > 99 ? '99+' : notificationCount}
+                  </span>
+                )}
+              </Link>
+            </div>
           
             <div className="hidden sm:flex items-center space-x-6">
               <Link
@@ -52,6 +108,22 @@ export const Navbar = () => {
                 <Users className="w-4 h-4 mr-2" />
                 Matches
               </Link>
+              <Link
+                to="/inbox"
+                className={`inline-flex items-center px-3 py-2 rounded-lg text-sm font-medium transition-all duration-200 ${
+                  isActive('/inbox')
+                    ? 'text-white bg-white/20 shadow-lg backdrop-blur-sm'
+                    : 'text-white/80 hover:text-white hover:bg-white/10'
+                }`}
+              >
+                <MessageCircle className="w-4 h-4 mr-2" />
+                Inbox
+                {unreadCount > 0 && (
+                  <span className="ml-2 min-w-5 h-5 px-1.5 rounded-full bg-white text-primary text-xs font-bold flex items-center justify-center">
+                    {unreadCount > 99 ? '99+' : unreadCount}
+                  </span>
+                )}
+              </Link>
               <Link
                 to="/profile"
                 className={`inline-flex items-center px-3 py-2 rounded-lg text-sm font-medium transition-all duration-200 ${
@@ -82,7 +154,7 @@ export const Navbar = () => {
 
       {/* Mobile Bottom Navigation */}
       <div className="sm:hidden fixed bottom-0 left-0 right-0 bg-card border-t border-border/50 z-50 shadow-2xl">
-        <div className="grid grid-cols-4 h-16">
+        <div className="grid grid-cols-5 h-16">
           <Link 
             to="/feed" 
             className={`flex flex-col items-center justify-center gap-1 transition-all duration-200 ${
@@ -105,6 +177,22 @@ export const Navbar = () => {
             <Users className="w-5 h-5" />
             <span className="text-xs font-medium">Matches</span>
           </Link>
+          <Link 
+            to="/inbox" 
+            className={`relative flex flex-col items-center justify-center gap-1 transition-all duration-200 ${
+              isActive('/inbox') 
+                ? 'text-primary bg-primary/5' 
+                : 'text-muted-foreground hover:text-foreground hover:bg-muted/50'
+            }`}
+          >
+            <MessageCircle className="w-5 h-5" />
+            {unreadCount > 0 && (
+              <span className="absolute top-2 right-1/2 translate-x-4 min-w-4 h-4 px-1 rounded-full bg-primary text-primary-foreground text-[10px] font-bold flex items-center justify-center">
+                {unreadCount > 99 ? '99+' : unreadCount}
+              </span>
+            )}
+            <span className="text-xs font-medium">Inbox</span>
+          </Link>
           <Link 
             to="/profile" 
             className={`flex flex-col items-center justify-center gap-1 transition-all duration-200 ${
@@ -0,0 +1,172 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Settings } from 'lucide-react';
+
+interface Preferences {
+  likes: string;
+  comments: string;
+  poll_votes: string;
+  matches: string;
+  messages: string;
+  mentions: string;
+}
+
+const defaultPreferences: Preferences = {
+  likes: 'in_app',
+  comments: 'in_app',
+  poll_votes: 'in_app',
+  matches: 'in_app',
+  messages: 'in_app',
+  mentions: 'in_app',
+};
+
+const categories: { key: keyof Preferences; label: string; description: string }[] = [
+  { key: 'mentions', label: 'Mentions', description: 'Someone @mentions you in a post, comment or chat' },
+  { key: 'messages', label: 'Messages', description: 'New messages in your conversations' },
+  { key: 'matches', label: 'Matches', description: 'You match with someone' },
+  { key: 'comments', label: 'Comments', description: 'Someone comments on your post' },
+  { key: 'likes', label: 'Likes', description: 'Someone likes your post' },
+  { key: 'poll_votes', label: 'Poll votes', description: 'Someone votes on your poll' },
+];
+
+const deliveryOptions = [
+  { value: 'off', label: 'Off' },
+  { value: 'in_app', label: 'In-app only' },
+  { value: 'daily', label: 'In-app + daily email' },
+  { value: 'weekly', label: 'In-app + weekly email' },
+];
+
+export default function NotificationPreferencesPanel() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [preferences, setPreferences] = useState<Preferences>(defaultPreferences);
+
+  useEffect(() => {
+    if (user && open) {
+      fetchPreferences();
+    }
+  }, [user, open]);
+
+  const fetchPreferences = async () => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from('notification_preferences')
+      .select('likes, comments, poll_votes, matches, messages, mentions')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Failed to fetch notification preferences:', error);
+      return;
+    }
+
+    setPreferences(data || defaultPreferences);
+  };
+
+  const savePreferences = async () => {
+    if (!user) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('notification_preferences')
+        .upsert({
+          user_id: user.id,
+          ...preferences,
+        }, {
+          onConflict: 'user_id'
+        });
+
+      if (error) throw error;
+
+      toast({
+        title: "Settings saved",
+        description: "Your notification settings have been updated",
+      });
+
+      setOpen(false);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to save notification settings",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="rounded-xl">
+          <Settings className="w-4 h-4 mr-2" />
+          Settings
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg rounded-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Settings className="w-5 h-5" />
+            Notification Settings
+          </DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          {categories.map(({ key, label, description }) => (
+            <div key={key} className="flex items-center justify-between gap-4">
+              <div className="min-w-0">
+                <Label className="text-sm font-semibold">{label}</Label>
+                <p className="text-xs text-muted-foreground">{description}</p>
+              </div>
+              <Select
+                value={preferences[key]}
+                onValueChange={(value) => setPreferences(prev => ({ ...prev, [key]: value }))}
+              >
+                <SelectTrigger className="w-48 rounded-xl flex-shrink-0">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {deliveryOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+
+          <p className="text-xs text-muted-foreground">
+            Email digests only include notifications you haven't seen in the app yet.
+          </p>
+
+          <div className="flex gap-2 pt-2">
+            <Button
+              variant="outline"
+              className="flex-1 rounded-xl"
+              onClick={() => setPreferences(defaultPreferences)}
+            >
+              Reset
+            </Button>
+            <Button
+              onClick={savePreferences}
+              disabled={saving}
+              className="flex-1 rounded-xl bg-gradient-to-r from-primary to-primary/80"
+            >
+              {saving ? 'Saving...' : 'Save Settings'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
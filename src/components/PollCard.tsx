@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -6,7 +6,9 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
-import { BarChart3 } from 'lucide-react';
+import RichText from '@/components/RichText';
+import { BarChart3, Check, Clock, EyeOff, Lock, Undo2 } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
 
 interface Poll {
   id: string;
@@ -15,6 +17,11 @@ interface Poll {
   options: string[];
   votes: Record<string, number>;
   created_at: string;
+  closes_at: string | null;
+  closed_at: string | null;
+  allow_multiple: boolean;
+  max_selections: number;
+  hide_results: boolean;
   profiles?: {
     name: string;
     avatar_url: string | null;
@@ -30,52 +37,230 @@ export default function PollCard({ poll, onUpdate }: PollCardProps) {
   const { user } = useAuth();
   const { toast } = useToast();
   const [isVoting, setIsVoting] = useState(false);
-  const [hasVoted, setHasVoted] = useState(false);
+  const [isClosing, setIsClosing] = useState(false);
+  const [myVotes, setMyVotes] = useState<string[]>([]);
+  const [selection, setSelection] = useState<string[]>([]);
+  const [votes, setVotes] = useState<Record<string, number>>(poll.votes || {});
+  // Multiple-choice tallies count selections, so voters are counted separately
+  const [voterCount, setVoterCount] = useState<number | null>(null);
+  const [now, setNow] = useState(() => Date.now());
 
-  const totalVotes = Object.values(poll.votes || {}).reduce((sum, count) => sum + count, 0);
+  const isClosed = !!poll.closed_at || (!!poll.closes_at && new Date(poll.closes_at).getTime() <= now);
+  const hasVoted = myVotes.length > 0;
+  const resultsHidden = poll.hide_results && !isClosed;
+  const showResults = (hasVoted || isClosed) && !resultsHidden;
+  const isAuthor = user?.id === poll.user_id;
+  const totalSelections = Object.values(votes).reduce((sum, count) => sum + count, 0);
+  const totalVoters = poll.allow_multiple ? voterCount ?? 0 : totalSelections;
 
-  const handleVote = async (option: string) => {
-    if (!user || hasVoted || isVoting) return;
+  useEffect(() => {
+    if (!poll.hide_results) {
+      setVotes(poll.votes || {});
+    }
+  }, [poll.votes, poll.hide_results]);
+
+  useEffect(() => {
+    if (user) {
+      fetchMyVotes();
+    } else {
+      setMyVotes([]);
+      setSelection([]);
+    }
+  }, [user, poll.id]);
+
+  // Hidden tallies are only released by the server once the poll has closed
+  useEffect(() => {
+    if (poll.hide_results && isClosed) {
+      fetchResults();
+    }
+  }, [poll.id, poll.hide_results, isClosed]);
+
+  useEffect(() => {
+    if (poll.allow_multiple && !resultsHidden) {
+      fetchVoterCount();
+    }
+  }, [poll.id, poll.allow_multiple, resultsHidden, votes]);
+
+  // Tick the countdown while the poll is open
+  useEffect(() => {
+    if (!poll.closes_at || poll.closed_at) return;
+
+    const interval = setInterval(() => setNow(Date.now()), 30 * 1000);
+    return () => clearInterval(interval);
+  }, [poll.closes_at, poll.closed_at]);
+
+  const fetchMyVotes = async () => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from('poll_votes')
+      .select('option')
+      .eq('poll_id', poll.id)
+      .eq('user_id', user.id);
+
+    if (error) {
+      console.error('Failed to fetch poll votes:', error);
+      return;
+    }
+
+    const options = data?.map(vote => vote.option) || [];
+    setMyVotes(options);
+    setSelection(options);
+  };
+
+  const fetchResults = async () => {
+    const { data, error } = await supabase.rpc('get_poll_results', {
+      _poll_id: poll.id,
+    });
+
+    if (error) {
+      console.error('Failed to fetch poll results:', error);
+      return;
+    }
+
+    setVotes((data as Record<string, number>) || {});
+  };
+
+  const fetchVoterCount = async () => {
+    const { data, error } = await supabase.rpc('get_poll_voter_count', {
+      _poll_id: poll.id,
+    });
+
+    if (error) {
+      console.error('Failed to fetch poll voter count:', error);
+      return;
+    }
+
+    setVoterCount(data ?? 0);
+  };
+
+  const submitVote = async (options: string[]) => {
+    if (!user || isVoting || isClosed || options.length === 0) return;
+
+    setIsVoting(true);
+    try {
+      // Tallying happens server-side so concurrent votes are never lost
+      const { data, error } = await supabase.rpc('cast_poll_vote', {
+        _poll_id: poll.id,
+        _options: options,
+      });
+
+      if (error) throw error;
+
+      const changed = hasVoted;
+      setMyVotes(options);
+      setSelection(options);
+      setVotes((data as Record<string, number>) || {});
+      onUpdate();
+
+      toast({
+        title: changed ? "Vote changed!" : "Vote recorded!",
+        description: `You voted for ${options.map(option => `"${option}"`).join(', ')}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to record vote",
+        variant: "destructive",
+      });
+    } finally {
+      setIsVoting(false);
+    }
+  };
+
+  const handleOptionClick = (option: string) => {
+    if (!poll.allow_multiple) {
+      if (myVotes.length === 1 && myVotes[0] === option) return;
+      submitVote([option]);
+      return;
+    }
+
+    if (selection.includes(option)) {
+      setSelection(selection.filter(selected => selected !== option));
+      return;
+    }
+
+    if (selection.length >= poll.max_selections) {
+      toast({
+        title: "Selection limit reached",
+        description: `You can pick up to ${poll.max_selections} options`,
+      });
+      return;
+    }
+
+    setSelection([...selection, option]);
+  };
+
+  const withdrawVote = async () => {
+    if (!user || !hasVoted || isVoting || isClosed) return;
 
     setIsVoting(true);
     try {
-      // Get current votes
-      const currentVotes = poll.votes || {};
-      const newVotes = {
-        ...currentVotes,
-        [option]: (currentVotes[option] || 0) + 1
-      };
+      const { data, error } = await supabase.rpc('withdraw_poll_vote', {
+        _poll_id: poll.id,
+      });
+
+      if (error) throw error;
+
+      setMyVotes([]);
+      setSelection([]);
+      setVotes((data as Record<string, number>) || {});
+      onUpdate();
 
+      toast({
+        title: "Vote withdrawn",
+        description: "Your vote has been removed",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to withdraw vote",
+        variant: "destructive",
+      });
+    } finally {
+      setIsVoting(false);
+    }
+  };
+
+  const closePoll = async () => {
+    if (!isAuthor || isClosed) return;
+
+    setIsClosing(true);
+    try {
       const { error } = await supabase
         .from('polls')
-        .update({ votes: newVotes })
-        .eq('id', poll.id);
+        .update({ closed_at: new Date().toISOString() })
+        .eq('id', poll.id)
+        .eq('user_id', user?.id);
 
       if (error) throw error;
 
-      setHasVoted(true);
       onUpdate();
-      
+
       toast({
-        title: "Vote recorded!",
-        description: `You voted for "${option}"`,
+        title: "Poll closed",
+        description: "Final results are now visible to everyone",
       });
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to record vote",
+        description: "Failed to close poll",
         variant: "destructive",
       });
     } finally {
-      setIsVoting(false);
+      setIsClosing(false);
     }
   };
 
+  // Share of voters who picked the option; on multiple-choice polls these add up to more than 100%
   const getPercentage = (option: string) => {
-    if (totalVotes === 0) return 0;
-    return Math.round(((poll.votes?.[option] || 0) / totalVotes) * 100);
+    if (totalVoters === 0) return 0;
+    return Math.min(Math.round(((votes[option] || 0) / totalVoters) * 100), 100);
   };
 
+  const selectionChanged =
+    selection.length !== myVotes.length || selection.some(option => !myVotes.includes(option));
+
   return (
     <Card className="shadow-lg hover:shadow-xl transition-shadow duration-300 border-border/50 bg-gradient-to-br from-card to-card/80 backdrop-blur-sm rounded-2xl overflow-hidden">
       <CardContent className="p-6 space-y-4">
@@ -93,39 +278,76 @@ export default function PollCard({ poll, onUpdate }: PollCardProps) {
               {new Date(poll.created_at).toLocaleDateString()}
             </p>
           </div>
-          <Badge variant="secondary" className="bg-blue-100 text-blue-800 border-blue-200">
-            <BarChart3 className="w-3 h-3 mr-1" />
-            Poll
-          </Badge>
+          {isClosed ? (
+            <Badge variant="secondary" className="bg-gray-100 text-gray-700 border-gray-200">
+              <Lock className="w-3 h-3 mr-1" />
+              Closed
+            </Badge>
+          ) : (
+            <Badge variant="secondary" className="bg-blue-100 text-blue-800 border-blue-200">
+              <BarChart3 className="w-3 h-3 mr-1" />
+              Poll
+            </Badge>
+          )}
         </div>
 
         {/* Question */}
         <div className="space-y-4">
-          <h3 className="font-semibold text-lg text-foreground">{poll.question}</h3>
-          
+          <div className="space-y-1">
+            <h3 className="font-semibold text-lg text-foreground">
+              <RichText text={poll.question} />
+            </h3>
+            <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-muted-foreground">
+              {poll.closes_at && !isClosed && (
+                <span className="flex items-center gap-1">
+                  <Clock className="w-3 h-3" />
+                  Closes in {formatDistanceToNow(new Date(poll.closes_at))}
+                </span>
+              )}
+              {isClosed && (
+                <span>Final results</span>
+              )}
+              {poll.allow_multiple && (
+                <span>Pick up to {poll.max_selections}</span>
+              )}
+              {resultsHidden && (
+                <span className="flex items-center gap-1">
+                  <EyeOff className="w-3 h-3" />
+                  Results hidden until closed
+                </span>
+              )}
+            </div>
+          </div>
+
           {/* Options */}
           <div className="space-y-3">
             {poll.options.map((option, index) => {
               const percentage = getPercentage(option);
-              const voteCount = poll.votes?.[option] || 0;
-              
+              const voteCount = votes[option] || 0;
+              const isSelected = poll.allow_multiple ? selection.includes(option) : myVotes.includes(option);
+
               return (
                 <div key={index} className="space-y-1">
                   <Button
-                    variant={hasVoted ? "outline" : "ghost"}
-                    className="w-full justify-between p-4 h-auto rounded-xl hover:scale-105 transition-transform"
-                    onClick={() => handleVote(option)}
-                    disabled={hasVoted || isVoting}
+                    variant={hasVoted || isClosed ? "outline" : "ghost"}
+                    className={`w-full justify-between p-4 h-auto rounded-xl hover:scale-105 transition-transform ${
+                      isSelected ? 'border-primary bg-primary/5' : ''
+                    }`}
+                    onClick={() => handleOptionClick(option)}
+                    disabled={!user || isVoting || isClosed}
                   >
-                    <span className="font-medium">{option}</span>
-                    {hasVoted && (
+                    <span className="font-medium flex items-center gap-2">
+                      {isSelected && <Check className="w-4 h-4 text-primary" />}
+                      {option}
+                    </span>
+                    {showResults && (
                       <span className="text-sm text-muted-foreground">
                         {voteCount} votes ({percentage}%)
                       </span>
                     )}
                   </Button>
-                  
-                  {hasVoted && (
+
+                  {showResults && (
                     <div className="w-full bg-muted rounded-full h-2">
                       <div
                         className="bg-primary rounded-full h-2 transition-all duration-500"
@@ -138,12 +360,57 @@ export default function PollCard({ poll, onUpdate }: PollCardProps) {
             })}
           </div>
 
+          {poll.allow_multiple && !isClosed && (
+            <Button
+              onClick={() => submitVote(selection)}
+              disabled={!user || isVoting || selection.length === 0 || !selectionChanged}
+              className="w-full rounded-xl bg-gradient-to-r from-primary to-primary/80"
+            >
+              {hasVoted ? 'Update votes' : 'Submit votes'}
+            </Button>
+          )}
+
           {/* Total votes */}
-          <p className="text-sm text-muted-foreground text-center">
-            {totalVotes} total vote{totalVotes !== 1 ? 's' : ''}
-          </p>
+          {!resultsHidden && (
+            <p className="text-sm text-muted-foreground text-center">
+              {poll.allow_multiple
+                ? `${totalVoters} voter${totalVoters !== 1 ? 's' : ''} · ${totalSelections} selection${totalSelections !== 1 ? 's' : ''}`
+                : `${totalVoters} total vote${totalVoters !== 1 ? 's' : ''}`}
+            </p>
+          )}
+
+          {hasVoted && !isClosed && (
+            <div className="flex items-center justify-center gap-2 text-xs text-muted-foreground">
+              <span>
+                {poll.allow_multiple ? 'Change your picks and update' : 'Tap another option to change your vote'}
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={withdrawVote}
+                disabled={isVoting}
+                className="h-auto px-2 py-1 rounded-lg text-xs"
+              >
+                <Undo2 className="w-3 h-3 mr-1" />
+                Withdraw
+              </Button>
+            </div>
+          )}
+
+          {isAuthor && !isClosed && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={closePoll}
+              disabled={isClosing}
+              className="w-full rounded-xl"
+            >
+              <Lock className="w-3 h-3 mr-2" />
+              {isClosing ? 'Closing...' : 'Close poll'}
+            </Button>
+          )}
         </div>
       </CardContent>
     </Card>
   );
-}
\ No newline at end of file
+}
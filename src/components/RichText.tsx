@@ -0,0 +1,44 @@
+import { Link } from 'react-router-dom';
+import { splitHashtags } from '@/lib/hashtags';
+import { splitMentions } from '@/lib/mentions';
+
+interface RichTextProps {
+  text: string;
+  className?: string;
+  linkClassName?: string;
+}
+
+/** Renders user text with @mentions linking to profiles and #hashtags to their topic pages */
+export default function RichText({ text, className, linkClassName = 'text-primary' }: RichTextProps) {
+  return (
+    <span className={className}>
+      {splitMentions(text).map((mention, mentionIndex) =>
+        mention.type === 'mention' ? (
+          <Link
+            key={mentionIndex}
+            to={`/users/${mention.userId}`}
+            onClick={(e) => e.stopPropagation()}
+            className={`${linkClassName} font-medium hover:underline`}
+          >
+            {mention.text}
+          </Link>
+        ) : (
+          splitHashtags(mention.text).map((segment, index) =>
+            segment.type === 'hashtag' ? (
+              <Link
+                key={`${mentionIndex}-${index}`}
+                to={`/tags/${segment.tag}`}
+                onClick={(e) => e.stopPropagation()}
+                className={`${linkClassName} font-medium hover:underline`}
+              >
+                {segment.text}
+              </Link>
+            ) : (
+              segment.text
+            )
+          )
+        )
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,63 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface MatchedProfile {
+  user_id: string;
+  name: string;
+  avatar_url: string | null;
+  course: string | null;
+}
+
+/** Profiles of everyone the current user is matched with, loaded while `enabled` */
+export function useMatchedProfiles(enabled: boolean) {
+  const { user } = useAuth();
+  const [profiles, setProfiles] = useState<MatchedProfile[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!user || !enabled) return;
+
+    const fetchMatchedProfiles = async () => {
+      setLoading(true);
+
+      const { data: matches, error } = await supabase
+        .from('matches')
+        .select('user_id, matched_user_id')
+        .or(`user_id.eq.${user.id},matched_user_id.eq.${user.id}`);
+
+      if (error) {
+        console.error('Error fetching matches:', error);
+        setLoading(false);
+        return;
+      }
+
+      const userIds = (matches || []).map(match =>
+        match.user_id === user.id ? match.matched_user_id : match.user_id
+      );
+
+      if (userIds.length === 0) {
+        setProfiles([]);
+        setLoading(false);
+        return;
+      }
+
+      const { data: profilesData, error: profilesError } = await supabase
+        .from('profiles')
+        .select('user_id, name, avatar_url, course')
+        .in('user_id', userIds)
+        .order('name');
+
+      if (profilesError) {
+        console.error('Error fetching matched profiles:', profilesError);
+      }
+
+      setProfiles(profilesData || []);
+      setLoading(false);
+    };
+
+    fetchMatchedProfiles();
+  }, [user, enabled]);
+
+  return { profiles, loading };
+}
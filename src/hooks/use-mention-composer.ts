@@ -0,0 +1,57 @@
+import { useState, useRef } from 'react';
+import { getActiveToken } from '@/lib/hashtags';
+import { encodeMentions, toMentionName, type Mention, type MentionCandidate } from '@/lib/mentions';
+import { useMentionSuggestions } from '@/hooks/use-mention-suggestions';
+
+/**
+ * @mention autocomplete for a text input. Tracks the caret to find the "@name" being
+ * typed, inserts picked people as "@Name" and remembers who they are so `encode` can
+ * turn the text into stored mention markup on submit.
+ */
+export function useMentionComposer<T extends HTMLInputElement | HTMLTextAreaElement>(
+  text: string,
+  setText: (text: string) => void,
+  candidates?: MentionCandidate[]
+) {
+  const inputRef = useRef<T>(null);
+  const [caret, setCaret] = useState(0);
+  const [mentioned, setMentioned] = useState<Mention[]>([]);
+
+  const activeMention = getActiveToken(text, caret, '@');
+  const suggestions = useMentionSuggestions(activeMention ? activeMention.query : null, candidates);
+
+  // Put the caret at `position` once React has applied the new value
+  const moveCaret = (position: number) => {
+    setCaret(position);
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(position, position);
+    });
+  };
+
+  const insertMention = (candidate: MentionCandidate) => {
+    if (!activeMention) return;
+
+    const name = toMentionName(candidate.name);
+    const inserted = `@${name} `;
+
+    setText(text.slice(0, activeMention.start) + inserted + text.slice(activeMention.end));
+    setMentioned(prev => [...prev.filter(m => m.user_id !== candidate.user_id), { user_id: candidate.user_id, name }]);
+    moveCaret(activeMention.start + inserted.length);
+  };
+
+  const trackCaret = (e: React.SyntheticEvent<T>) => {
+    setCaret(e.currentTarget.selectionStart ?? 0);
+  };
+
+  return {
+    inputRef,
+    caret,
+    moveCaret,
+    trackCaret,
+    suggestions: activeMention ? suggestions : [],
+    insertMention,
+    encode: (value: string) => encodeMentions(value, mentioned),
+    setMentioned,
+  };
+}
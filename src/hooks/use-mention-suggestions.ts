@@ -0,0 +1,60 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { MentionCandidate } from '@/lib/mentions';
+
+// Wait for a pause in typing before asking the server
+const SUGGESTION_DEBOUNCE_MS = 200;
+const MAX_SUGGESTIONS = 6;
+
+const matchesName = (name: string, query: string) => {
+  const lowerQuery = query.toLowerCase();
+  return name.toLowerCase().split(/\s+/).some(word => word.startsWith(lowerQuery));
+};
+
+/**
+ * People matching `query` for @mention suggestions; pass null when no mention is being
+ * typed. With `candidates` (e.g. the members of a chat) only those people are suggested,
+ * otherwise profiles are searched on the server.
+ */
+export function useMentionSuggestions(query: string | null, candidates?: MentionCandidate[]) {
+  const [results, setResults] = useState<MentionCandidate[]>([]);
+  const searchServer = !candidates && !!query;
+
+  useEffect(() => {
+    if (!searchServer) {
+      setResults([]);
+      return;
+    }
+
+    let cancelled = false;
+
+    const timeout = setTimeout(async () => {
+      const { data, error } = await supabase.rpc('search_mentionable_profiles', {
+        _query: query,
+        _limit: MAX_SUGGESTIONS,
+      });
+
+      if (cancelled) return;
+
+      if (error) {
+        console.error('Error fetching mention suggestions:', error);
+        return;
+      }
+
+      setResults(data || []);
+    }, SUGGESTION_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [query, searchServer]);
+
+  if (query === null) return [];
+
+  if (candidates) {
+    return candidates.filter(candidate => matchesName(candidate.name, query)).slice(0, MAX_SUGGESTIONS);
+  }
+
+  return results;
+}
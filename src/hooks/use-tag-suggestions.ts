@@ -0,0 +1,44 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface TagSuggestion {
+  tag: string;
+  use_count: number;
+}
+
+// Wait for a pause in typing before asking the server
+const SUGGESTION_DEBOUNCE_MS = 200;
+
+/** Existing hashtags starting with `prefix`; pass null when no hashtag is being typed */
+export function useTagSuggestions(prefix: string | null) {
+  const [suggestions, setSuggestions] = useState<TagSuggestion[]>([]);
+
+  useEffect(() => {
+    if (!prefix) {
+      setSuggestions([]);
+      return;
+    }
+
+    let cancelled = false;
+
+    const timeout = setTimeout(async () => {
+      const { data, error } = await supabase.rpc('search_tags', { _prefix: prefix });
+
+      if (cancelled) return;
+
+      if (error) {
+        console.error('Error fetching tag suggestions:', error);
+        return;
+      }
+
+      setSuggestions(data || []);
+    }, SUGGESTION_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [prefix]);
+
+  return suggestions;
+}
@@ -0,0 +1,82 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+
+export function useUnreadMessages() {
+  const { user } = useAuth();
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  useEffect(() => {
+    if (!user) {
+      setUnreadCount(0);
+      return;
+    }
+
+    const fetchUnreadCount = async () => {
+      const { data, error } = await supabase.rpc('get_unread_message_count');
+
+      if (error) {
+        console.error('Error fetching unread message count:', error);
+        return;
+      }
+
+      setUnreadCount(data || 0);
+    };
+
+    // Anything that reached this client counts as delivered for the sender's receipts
+    const markDelivered = async () => {
+      const { error } = await supabase.rpc('mark_messages_delivered');
+
+      if (error) {
+        console.error('Error marking messages as delivered:', error);
+      }
+    };
+
+    fetchUnreadCount();
+    markDelivered();
+
+    // RLS limits message events to conversations this user takes part in
+    const channel = supabase
+      .channel(`unread-messages-${user.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'messages'
+        },
+        (payload) => {
+          if (payload.new.sender_id === user.id) return;
+
+          fetchUnreadCount();
+          markDelivered();
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'messages'
+        },
+        () => fetchUnreadCount()
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'conversation_reads',
+          filter: `user_id=eq.${user.id}`
+        },
+        () => fetchUnreadCount()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user]);
+
+  return unreadCount;
+}
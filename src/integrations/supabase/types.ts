@@ -14,33 +14,258 @@ export type Database = {
   }
   public: {
     Tables: {
+      blocks: {
+        Row: {
+          blocked_id: string
+          blocker_id: string
+          created_at: string
+          id: string
+        }
+        Insert: {
+          blocked_id: string
+          blocker_id: string
+          created_at?: string
+          id?: string
+        }
+        Update: {
+          blocked_id?: string
+          blocker_id?: string
+          created_at?: string
+          id?: string
+        }
+        Relationships: []
+      }
+      comment_reactions: {
+        Row: {
+          comment_id: string
+          created_at: string
+          emoji: string
+          id: string
+          user_id: string
+        }
+        Insert: {
+          comment_id: string
+          created_at?: string
+          emoji: string
+          id?: string
+          user_id: string
+        }
+        Update: {
+          comment_id?: string
+          created_at?: string
+          emoji?: string
+          id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "comment_reactions_comment_id_fkey"
+            columns: ["comment_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       comments: {
         Row: {
           content: string
           created_at: string
+          depth: number
+          edited_at: string | null
           id: string
+          parent_id: string | null
           post_id: string
+          search_vector: unknown | null
           updated_at: string
           user_id: string
         }
         Insert: {
           content: string
           created_at?: string
+          depth?: number
+          edited_at?: string | null
           id?: string
+          parent_id?: string | null
           post_id: string
+          search_vector?: never
           updated_at?: string
           user_id: string
         }
         Update: {
           content?: string
           created_at?: string
+          depth?: number
+          edited_at?: string | null
           id?: string
+          parent_id?: string | null
           post_id?: string
+          search_vector?: never
           updated_at?: string
           user_id?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "comments_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "comments_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "comments_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      connection_requests: {
+        Row: {
+          created_at: string
+          id: string
+          recipient_id: string
+          responded_at: string | null
+          sender_id: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          recipient_id: string
+          responded_at?: string | null
+          sender_id: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          recipient_id?: string
+          responded_at?: string | null
+          sender_id?: string
+          status?: string
+          updated_at?: string
+        }
         Relationships: []
       }
+      conversation_participants: {
+        Row: {
+          conversation_id: string
+          id: string
+          joined_at: string
+          role: string
+          user_id: string
+        }
+        Insert: {
+          conversation_id: string
+          id?: string
+          joined_at?: string
+          role?: string
+          user_id: string
+        }
+        Update: {
+          conversation_id?: string
+          id?: string
+          joined_at?: string
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversation_participants_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      conversation_reads: {
+        Row: {
+          conversation_id: string
+          created_at: string
+          id: string
+          last_delivered_at: string | null
+          last_read_at: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          conversation_id: string
+          created_at?: string
+          id?: string
+          last_delivered_at?: string | null
+          last_read_at?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          conversation_id?: string
+          created_at?: string
+          id?: string
+          last_delivered_at?: string | null
+          last_read_at?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversation_reads_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      conversations: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          match_id: string | null
+          name: string | null
+          type: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          match_id?: string | null
+          name?: string | null
+          type?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          match_id?: string | null
+          name?: string | null
+          type?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversations_match_id_fkey"
+            columns: ["match_id"]
+            isOneToOne: true
+            referencedRelation: "matches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       login_streaks: {
         Row: {
           created_at: string
@@ -71,6 +296,39 @@ export type Database = {
         }
         Relationships: []
       }
+      match_preferences: {
+        Row: {
+          courses: string[]
+          created_at: string
+          id: string
+          interests: string[]
+          looking_for: string[]
+          required_skills: string[]
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          courses?: string[]
+          created_at?: string
+          id?: string
+          interests?: string[]
+          looking_for?: string[]
+          required_skills?: string[]
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          courses?: string[]
+          created_at?: string
+          id?: string
+          interests?: string[]
+          looking_for?: string[]
+          required_skills?: string[]
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       matches: {
         Row: {
           created_at: string
@@ -92,100 +350,452 @@ export type Database = {
         }
         Relationships: []
       }
+      mentions: {
+        Row: {
+          author_id: string
+          comment_id: string | null
+          created_at: string
+          id: string
+          message_id: string | null
+          post_id: string | null
+          user_id: string
+        }
+        Insert: {
+          author_id: string
+          comment_id?: string | null
+          created_at?: string
+          id?: string
+          message_id?: string | null
+          post_id?: string | null
+          user_id: string
+        }
+        Update: {
+          author_id?: string
+          comment_id?: string | null
+          created_at?: string
+          id?: string
+          message_id?: string | null
+          post_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "mentions_comment_id_fkey"
+            columns: ["comment_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mentions_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mentions_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       messages: {
         Row: {
+          attachment_mime_type: string | null
+          attachment_name: string | null
+          attachment_path: string | null
+          attachment_size: number | null
+          code_language: string | null
           content: string
+          conversation_id: string
           created_at: string
+          deleted_at: string | null
+          edited_at: string | null
           id: string
-          match_id: string
-          receiver_id: string
+          message_type: string
           sender_id: string
+          updated_at: string
         }
         Insert: {
+          attachment_mime_type?: string | null
+          attachment_name?: string | null
+          attachment_path?: string | null
+          attachment_size?: number | null
+          code_language?: string | null
           content: string
+          conversation_id: string
           created_at?: string
+          deleted_at?: string | null
+          edited_at?: string | null
           id?: string
-          match_id: string
-          receiver_id: string
+          message_type?: string
           sender_id: string
+          updated_at?: string
         }
         Update: {
+          attachment_mime_type?: string | null
+          attachment_name?: string | null
+          attachment_path?: string | null
+          attachment_size?: number | null
+          code_language?: string | null
           content?: string
+          conversation_id?: string
           created_at?: string
+          deleted_at?: string | null
+          edited_at?: string | null
           id?: string
-          match_id?: string
-          receiver_id?: string
+          message_type?: string
           sender_id?: string
+          updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "messages_match_id_fkey"
+            foreignKeyName: "messages_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_preferences: {
+        Row: {
+          comments: string
+          created_at: string
+          id: string
+          likes: string
+          matches: string
+          mentions: string
+          messages: string
+          poll_votes: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          comments?: string
+          created_at?: string
+          id?: string
+          likes?: string
+          matches?: string
+          mentions?: string
+          messages?: string
+          poll_votes?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          comments?: string
+          created_at?: string
+          id?: string
+          likes?: string
+          matches?: string
+          mentions?: string
+          messages?: string
+          poll_votes?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      notifications: {
+        Row: {
+          actor_id: string | null
+          comment_id: string | null
+          conversation_id: string | null
+          created_at: string
+          emailed_at: string | null
+          id: string
+          match_id: string | null
+          message_id: string | null
+          poll_id: string | null
+          post_id: string | null
+          read_at: string | null
+          type: string
+          user_id: string
+        }
+        Insert: {
+          actor_id?: string | null
+          comment_id?: string | null
+          conversation_id?: string | null
+          created_at?: string
+          emailed_at?: string | null
+          id?: string
+          match_id?: string | null
+          message_id?: string | null
+          poll_id?: string | null
+          post_id?: string | null
+          read_at?: string | null
+          type: string
+          user_id: string
+        }
+        Update: {
+          actor_id?: string | null
+          comment_id?: string | null
+          conversation_id?: string | null
+          created_at?: string
+          emailed_at?: string | null
+          id?: string
+          match_id?: string | null
+          message_id?: string | null
+          poll_id?: string | null
+          post_id?: string | null
+          read_at?: string | null
+          type?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_comment_id_fkey"
+            columns: ["comment_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_match_id_fkey"
             columns: ["match_id"]
             isOneToOne: false
             referencedRelation: "matches"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "notifications_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_poll_id_fkey"
+            columns: ["poll_id"]
+            isOneToOne: false
+            referencedRelation: "polls"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      poll_votes: {
+        Row: {
+          created_at: string
+          id: string
+          option: string
+          poll_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          option: string
+          poll_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          option?: string
+          poll_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "poll_votes_poll_id_fkey"
+            columns: ["poll_id"]
+            isOneToOne: false
+            referencedRelation: "polls"
+            referencedColumns: ["id"]
+          },
         ]
       }
       polls: {
         Row: {
+          allow_multiple: boolean
+          closed_at: string | null
+          closes_at: string | null
           created_at: string
+          hide_results: boolean
           id: string
+          max_selections: number
           options: string[]
           question: string
+          search_vector: unknown | null
           updated_at: string
           user_id: string
           votes: Json | null
         }
         Insert: {
+          allow_multiple?: boolean
+          closed_at?: string | null
+          closes_at?: string | null
           created_at?: string
+          hide_results?: boolean
           id?: string
+          max_selections?: number
           options: string[]
           question: string
+          search_vector?: never
           updated_at?: string
           user_id: string
           votes?: Json | null
         }
         Update: {
+          allow_multiple?: boolean
+          closed_at?: string | null
+          closes_at?: string | null
           created_at?: string
+          hide_results?: boolean
           id?: string
+          max_selections?: number
           options?: string[]
           question?: string
+          search_vector?: never
           updated_at?: string
           user_id?: string
           votes?: Json | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "polls_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      post_likes: {
+        Row: {
+          created_at: string
+          id: string
+          post_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          post_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          post_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "post_likes_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      post_tags: {
+        Row: {
+          created_at: string
+          id: string
+          poll_id: string | null
+          post_id: string | null
+          tag: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          poll_id?: string | null
+          post_id?: string | null
+          tag: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          poll_id?: string | null
+          post_id?: string | null
+          tag?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "post_tags_poll_id_fkey"
+            columns: ["poll_id"]
+            isOneToOne: false
+            referencedRelation: "polls"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "post_tags_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       posts: {
         Row: {
+          accepted_comment_id: string | null
           content: string
           created_at: string
           id: string
           image_url: string | null
+          is_question: boolean
           likes: number
+          search_vector: unknown | null
           updated_at: string
           user_id: string
         }
         Insert: {
+          accepted_comment_id?: string | null
           content: string
           created_at?: string
           id?: string
           image_url?: string | null
+          is_question?: boolean
           likes?: number
+          search_vector?: never
           updated_at?: string
           user_id: string
         }
         Update: {
+          accepted_comment_id?: string | null
           content?: string
           created_at?: string
           id?: string
           image_url?: string | null
+          is_question?: boolean
           likes?: number
+          search_vector?: never
           updated_at?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "posts_accepted_comment_id_fkey"
+            columns: ["accepted_comment_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       profiles: {
         Row: {
@@ -194,7 +804,9 @@ export type Database = {
           created_at: string
           id: string
           interests: string[] | null
+          looking_for: string[]
           name: string
+          search_vector: unknown | null
           skills: string[] | null
           updated_at: string
           user_id: string
@@ -205,7 +817,9 @@ export type Database = {
           created_at?: string
           id?: string
           interests?: string[] | null
+          looking_for?: string[]
           name: string
+          search_vector?: never
           skills?: string[] | null
           updated_at?: string
           user_id: string
@@ -216,19 +830,409 @@ export type Database = {
           created_at?: string
           id?: string
           interests?: string[] | null
+          looking_for?: string[]
           name?: string
+          search_vector?: never
           skills?: string[] | null
           updated_at?: string
           user_id?: string
         }
         Relationships: []
       }
+      reports: {
+        Row: {
+          created_at: string
+          details: string | null
+          id: string
+          match_id: string | null
+          reason: string
+          reported_user_id: string
+          reporter_id: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          details?: string | null
+          id?: string
+          match_id?: string | null
+          reason: string
+          reported_user_id: string
+          reporter_id: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          details?: string | null
+          id?: string
+          match_id?: string | null
+          reason?: string
+          reported_user_id?: string
+          reporter_id?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reports_match_id_fkey"
+            columns: ["match_id"]
+            isOneToOne: false
+            referencedRelation: "matches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      swipes: {
+        Row: {
+          created_at: string
+          direction: string
+          id: string
+          swiped_id: string
+          swiper_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          direction: string
+          id?: string
+          swiped_id: string
+          swiper_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          direction?: string
+          id?: string
+          swiped_id?: string
+          swiper_id?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
-      [_ in never]: never
+      post_engagement: {
+        Row: {
+          comment_count: number | null
+          post_id: string | null
+          unique_engagers: number | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
-      [_ in never]: never
+      are_matched: {
+        Args: { _user_a: string; _user_b: string }
+        Returns: boolean
+      }
+      block_user: {
+        Args: { _user_id: string }
+        Returns: undefined
+      }
+      cast_poll_vote: {
+        Args: { _options: string[]; _poll_id: string }
+        Returns: Json
+      }
+      create_group_conversation: {
+        Args: { _member_ids: string[]; _name: string }
+        Returns: string
+      }
+      create_mutual_match: {
+        Args: { _recipient_id: string; _sender_id: string }
+        Returns: string
+      }
+      create_notification: {
+        Args: {
+          _actor_id: string
+          _comment_id?: string
+          _conversation_id?: string
+          _match_id?: string
+          _message_id?: string
+          _poll_id?: string
+          _post_id?: string
+          _type: string
+          _user_id: string
+        }
+        Returns: undefined
+      }
+      delete_message: {
+        Args: { _message_id: string }
+        Returns: undefined
+      }
+      edit_message: {
+        Args: { _content: string; _message_id: string }
+        Returns: undefined
+      }
+      extract_hashtags: {
+        Args: { _text: string }
+        Returns: string[]
+      }
+      extract_mentions: {
+        Args: { _text: string }
+        Returns: string[]
+      }
+      get_comment_counts: {
+        Args: { _post_ids: string[] }
+        Returns: {
+          comment_count: number
+          post_id: string
+        }[]
+      }
+      get_discovery_deck: {
+        Args: {
+          _cursor_score?: number
+          _cursor_user_id?: string
+          _limit?: number
+          _pass_cooldown_days?: number
+        }
+        Returns: {
+          avatar_url: string
+          complementary_skills: string[]
+          course: string
+          id: string
+          interests: string[]
+          looking_for: string[]
+          name: string
+          same_course: boolean
+          score: number
+          shared_interests: string[]
+          shared_skills: string[]
+          skills: string[]
+          user_id: string
+        }[]
+      }
+      get_feed: {
+        Args: {
+          _courses?: string[]
+          _cursor_created_at?: string
+          _cursor_id?: string
+          _interests?: string[]
+          _item_id?: string
+          _limit?: number
+          _match_all?: boolean
+          _skills?: string[]
+          _tag?: string
+          _unanswered_only?: boolean
+        }
+        Returns: {
+          accepted_comment_id: string
+          allow_multiple: boolean
+          author_avatar_url: string
+          author_name: string
+          closed_at: string
+          closes_at: string
+          content: string
+          created_at: string
+          hide_results: boolean
+          id: string
+          image_url: string
+          is_question: boolean
+          item_type: string
+          likes: number
+          max_selections: number
+          options: string[]
+          question: string
+          user_id: string
+          votes: Json
+        }[]
+      }
+      get_inbox: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          avatar_url: string
+          conversation_id: string
+          conversation_type: string
+          joined_at: string
+          last_message: string
+          last_message_at: string
+          last_message_attachment_name: string
+          last_message_deleted: boolean
+          last_message_sender_id: string
+          last_message_sender_name: string
+          last_message_type: string
+          member_count: number
+          other_user_id: string
+          title: string
+          unread_count: number
+        }[]
+      }
+      get_notification_delivery: {
+        Args: { _type: string; _user_id: string }
+        Returns: string
+      }
+      get_notification_digest: {
+        Args: { _frequency: string }
+        Returns: {
+          actor_name: string
+          comment_id: string
+          context: string
+          conversation_id: string
+          created_at: string
+          email: string
+          match_id: string
+          message_id: string
+          notification_id: string
+          poll_id: string
+          post_id: string
+          recipient_name: string
+          type: string
+          user_id: string
+        }[]
+      }
+      get_poll_results: {
+        Args: { _poll_id: string }
+        Returns: Json
+      }
+      get_poll_voter_count: {
+        Args: { _poll_id: string }
+        Returns: number
+      }
+      get_popular_tags: {
+        Args: { _days?: number; _limit?: number }
+        Returns: {
+          tag: string
+          use_count: number
+        }[]
+      }
+      get_trending_posts: {
+        Args: { _limit?: number; _offset?: number; _window?: string }
+        Returns: {
+          author_avatar_url: string
+          author_name: string
+          comment_count: number
+          content: string
+          created_at: string
+          id: string
+          image_url: string
+          likes: number
+          score: number
+          unique_engagers: number
+          user_id: string
+        }[]
+      }
+      get_unread_message_count: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      invite_to_conversation: {
+        Args: { _conversation_id: string; _user_id: string }
+        Returns: undefined
+      }
+      is_blocked_between: {
+        Args: { _user_a: string; _user_b: string }
+        Returns: boolean
+      }
+      is_conversation_participant: {
+        Args: { _conversation_id: string }
+        Returns: boolean
+      }
+      is_match_participant: {
+        Args: { _match_id: string }
+        Returns: boolean
+      }
+      is_poll_open: {
+        Args: { _poll_id: string }
+        Returns: boolean
+      }
+      leave_conversation: {
+        Args: { _conversation_id: string }
+        Returns: undefined
+      }
+      mark_conversation_read: {
+        Args: { _conversation_id: string }
+        Returns: undefined
+      }
+      mark_messages_delivered: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      mark_notifications_emailed: {
+        Args: { _ids: string[] }
+        Returns: undefined
+      }
+      mark_notifications_read: {
+        Args: { _ids?: string[] }
+        Returns: undefined
+      }
+      matches_feed_filters: {
+        Args: {
+          _courses: string[]
+          _interests: string[]
+          _match_all: boolean
+          _profile_course: string
+          _profile_interests: string[]
+          _profile_skills: string[]
+          _skills: string[]
+        }
+        Returns: boolean
+      }
+      remove_participant: {
+        Args: { _conversation_id: string; _user_id: string }
+        Returns: undefined
+      }
+      respond_to_connection_request: {
+        Args: { _accept: boolean; _request_id: string }
+        Returns: Json
+      }
+      search_everything: {
+        Args: { _limit?: number; _query: string }
+        Returns: {
+          author_avatar_url: string
+          author_name: string
+          context: string
+          created_at: string
+          headline: string
+          id: string
+          post_id: string
+          rank: number
+          result_type: string
+          user_id: string
+        }[]
+      }
+      search_mentionable_profiles: {
+        Args: { _limit?: number; _query: string }
+        Returns: {
+          avatar_url: string
+          name: string
+          user_id: string
+        }[]
+      }
+      search_tags: {
+        Args: { _limit?: number; _prefix: string }
+        Returns: {
+          tag: string
+          use_count: number
+        }[]
+      }
+      send_connection_request: {
+        Args: { _recipient_id: string }
+        Returns: Json
+      }
+      set_participant_role: {
+        Args: { _conversation_id: string; _role: string; _user_id: string }
+        Returns: undefined
+      }
+      text_array_to_string: {
+        Args: { _values: string[] }
+        Returns: string
+      }
+      to_prefix_tsquery: {
+        Args: { _query: string }
+        Returns: unknown
+      }
+      undo_last_swipe: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      unmatch: {
+        Args: { _match_id: string }
+        Returns: undefined
+      }
+      withdraw_poll_vote: {
+        Args: { _poll_id: string }
+        Returns: Json
+      }
     }
     Enums: {
       [_ in never]: never
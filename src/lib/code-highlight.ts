@@ -0,0 +1,196 @@
+export const codeLanguageOptions = [
+  { value: 'plaintext', label: 'Plain text' },
+  { value: 'javascript', label: 'JavaScript' },
+  { value: 'typescript', label: 'TypeScript' },
+  { value: 'python', label: 'Python' },
+  { value: 'java', label: 'Java' },
+  { value: 'c', label: 'C' },
+  { value: 'cpp', label: 'C++' },
+  { value: 'sql', label: 'SQL' },
+  { value: 'html', label: 'HTML' },
+  { value: 'css', label: 'CSS' },
+  { value: 'json', label: 'JSON' },
+  { value: 'bash', label: 'Bash' },
+];
+
+export const getCodeLanguageLabel = (value: string | null) =>
+  codeLanguageOptions.find(option => option.value === value)?.label || 'Code';
+
+export type TokenType = 'plain' | 'keyword' | 'string' | 'comment' | 'number' | 'tag';
+
+export interface Token {
+  type: TokenType;
+  text: string;
+}
+
+interface LanguageRules {
+  keywords: string[];
+  lineComment?: string;
+  blockComment?: [string, string];
+  caseInsensitive?: boolean;
+}
+
+const cLikeKeywords = [
+  'if', 'else', 'for', 'while', 'do', 'switch', 'case', 'break', 'continue', 'return',
+  'true', 'false', 'null', 'new', 'try', 'catch', 'finally', 'throw', 'class', 'public',
+  'private', 'protected', 'static', 'void', 'const',
+];
+
+const languageRules: Record<string, LanguageRules> = {
+  javascript: {
+    keywords: [...cLikeKeywords, 'let', 'var', 'function', 'async', 'await', 'import', 'export',
+      'from', 'default', 'typeof', 'instanceof', 'undefined', 'this', 'extends', 'of', 'in'],
+    lineComment: '//',
+    blockComment: ['/*', '*/'],
+  },
+  typescript: {
+    keywords: [...cLikeKeywords, 'let', 'var', 'function', 'async', 'await', 'import', 'export',
+      'from', 'default', 'typeof', 'instanceof', 'undefined', 'this', 'extends', 'of', 'in',
+      'interface', 'type', 'enum', 'implements', 'readonly', 'as', 'string', 'number', 'boolean'],
+    lineComment: '//',
+    blockComment: ['/*', '*/'],
+  },
+  python: {
+    keywords: ['def', 'class', 'if', 'elif', 'else', 'for', 'while', 'return', 'import', 'from',
+      'as', 'with', 'try', 'except', 'finally', 'raise', 'lambda', 'yield', 'pass', 'break',
+      'continue', 'in', 'is', 'not', 'and', 'or', 'None', 'True', 'False', 'self', 'async', 'await'],
+    lineComment: '#',
+  },
+  java: {
+    keywords: [...cLikeKeywords, 'int', 'long', 'double', 'float', 'boolean', 'char', 'String',
+      'final', 'extends', 'implements', 'interface', 'import', 'package', 'this', 'super'],
+    lineComment: '//',
+    blockComment: ['/*', '*/'],
+  },
+  c: {
+    keywords: [...cLikeKeywords, 'int', 'long', 'double', 'float', 'char', 'struct', 'typedef',
+      'sizeof', 'unsigned', 'include', 'define'],
+    lineComment: '//',
+    blockComment: ['/*', '*/'],
+  },
+  cpp: {
+    keywords: [...cLikeKeywords, 'int', 'long', 'double', 'float', 'char', 'bool', 'struct',
+      'typedef', 'sizeof', 'unsigned', 'include', 'define', 'namespace', 'using', 'std',
+      'template', 'typename', 'auto', 'nullptr', 'virtual', 'this'],
+    lineComment: '//',
+    blockComment: ['/*', '*/'],
+  },
+  sql: {
+    keywords: ['select', 'from', 'where', 'insert', 'into', 'values', 'update', 'set', 'delete',
+      'create', 'table', 'alter', 'drop', 'join', 'left', 'right', 'inner', 'outer', 'on', 'and',
+      'or', 'not', 'null', 'as', 'order', 'by', 'group', 'having', 'limit', 'distinct', 'count'],
+    lineComment: '--',
+    blockComment: ['/*', '*/'],
+    caseInsensitive: true,
+  },
+  css: {
+    keywords: ['important', 'px', 'em', 'rem', 'vh', 'vw', 'auto', 'none', 'flex', 'grid', 'block'],
+    blockComment: ['/*', '*/'],
+  },
+  json: {
+    keywords: ['true', 'false', 'null'],
+  },
+  bash: {
+    keywords: ['if', 'then', 'else', 'elif', 'fi', 'for', 'do', 'done', 'while', 'case', 'esac',
+      'function', 'return', 'echo', 'export', 'cd', 'sudo', 'npm', 'git'],
+    lineComment: '#',
+  },
+};
+
+const pushToken = (tokens: Token[], type: TokenType, text: string) => {
+  const last = tokens[tokens.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    tokens.push({ type, text });
+  }
+};
+
+const highlightMarkup = (code: string): Token[] => {
+  const tokens: Token[] = [];
+  const pattern = /(<!--[\s\S]*?-->)|(<\/?[\w-]+)|("[^"]*"|'[^']*')|(\/?>)/g;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(code)) !== null) {
+    if (match.index > lastIndex) {
+      pushToken(tokens, 'plain', code.slice(lastIndex, match.index));
+    }
+    if (match[1]) pushToken(tokens, 'comment', match[1]);
+    else if (match[2] || match[4]) pushToken(tokens, 'tag', match[0]);
+    else pushToken(tokens, 'string', match[0]);
+    lastIndex = pattern.lastIndex;
+  }
+
+  if (lastIndex < code.length) {
+    pushToken(tokens, 'plain', code.slice(lastIndex));
+  }
+  return tokens;
+};
+
+/** Splits code into coloured tokens; good enough for chat snippets, not a full parser */
+export const highlightCode = (code: string, language: string | null): Token[] => {
+  if (language === 'html') return highlightMarkup(code);
+
+  const rules = language ? languageRules[language] : undefined;
+  if (!rules) return [{ type: 'plain', text: code }];
+
+  const keywords = new Set(rules.caseInsensitive ? rules.keywords.map(k => k.toLowerCase()) : rules.keywords);
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < code.length) {
+    const rest = code.slice(i);
+
+    if (rules.lineComment && rest.startsWith(rules.lineComment)) {
+      const end = code.indexOf('\n', i);
+      const stop = end === -1 ? code.length : end;
+      pushToken(tokens, 'comment', code.slice(i, stop));
+      i = stop;
+      continue;
+    }
+
+    if (rules.blockComment && rest.startsWith(rules.blockComment[0])) {
+      const end = code.indexOf(rules.blockComment[1], i + rules.blockComment[0].length);
+      const stop = end === -1 ? code.length : end + rules.blockComment[1].length;
+      pushToken(tokens, 'comment', code.slice(i, stop));
+      i = stop;
+      continue;
+    }
+
+    const char = code[i];
+
+    if (char === '"' || char === "'" || char === '`') {
+      let j = i + 1;
+      while (j < code.length && code[j] !== char) {
+        if (code[j] === '\\') j++;
+        if (code[j] === '\n' && char !== '`') break;
+        j++;
+      }
+      pushToken(tokens, 'string', code.slice(i, j + 1));
+      i = j + 1;
+      continue;
+    }
+
+    const number = /^\d[\d_.]*(e[+-]?\d+)?/i.exec(rest);
+    if (number && !/[\w$]/.test(code[i - 1] || '')) {
+      pushToken(tokens, 'number', number[0]);
+      i += number[0].length;
+      continue;
+    }
+
+    const word = /^[A-Za-z_$][\w$]*/.exec(rest);
+    if (word) {
+      const text = word[0];
+      const isKeyword = keywords.has(rules.caseInsensitive ? text.toLowerCase() : text);
+      pushToken(tokens, isKeyword ? 'keyword' : 'plain', text);
+      i += text.length;
+      continue;
+    }
+
+    pushToken(tokens, 'plain', char);
+    i++;
+  }
+
+  return tokens;
+};
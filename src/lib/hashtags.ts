@@ -0,0 +1,43 @@
+// Mirrors public.extract_hashtags: a tag starts with a letter and must not follow a word
+// character, so "C#" and HTML entities like "&#39;" are left alone
+export const HASHTAG_PATTERN = /(?<![\p{L}\p{N}_&#])#(\p{L}[\p{L}\p{N}_]{0,49})/gu;
+
+export type TextSegment =
+  | { type: 'text'; text: string }
+  | { type: 'hashtag'; text: string; tag: string };
+
+export const splitHashtags = (text: string): TextSegment[] => {
+  const segments: TextSegment[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(HASHTAG_PATTERN)) {
+    if (match.index > lastIndex) {
+      segments.push({ type: 'text', text: text.slice(lastIndex, match.index) });
+    }
+    segments.push({ type: 'hashtag', text: match[0], tag: match[1].toLowerCase() });
+    lastIndex = match.index + match[0].length;
+  }
+
+  if (lastIndex < text.length) {
+    segments.push({ type: 'text', text: text.slice(lastIndex) });
+  }
+
+  return segments;
+};
+
+/**
+ * The partial word ending at the caret when it starts with `trigger`,
+ * e.g. "#hack" while typing "Join #hack|". Null when the caret is elsewhere.
+ */
+export const getActiveToken = (text: string, caret: number, trigger: string) => {
+  const beforeCaret = text.slice(0, caret);
+  const match = beforeCaret.match(/(?:^|\s)(\S*)$/u);
+  const word = match?.[1] || '';
+
+  if (!word.startsWith(trigger)) return null;
+
+  const query = word.slice(trigger.length);
+  if (!/^[\p{L}\p{N}_]*$/u.test(query)) return null;
+
+  return { query, start: caret - word.length, end: caret };
+};
@@ -0,0 +1,68 @@
+// Mirrors public.extract_mentions: a mention is stored as "@[Display Name](user id)"
+export const MENTION_PATTERN =
+  /@\[([^\]]{1,100})\]\(([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})\)/g;
+
+export interface Mention {
+  user_id: string;
+  name: string;
+}
+
+export interface MentionCandidate extends Mention {
+  avatar_url: string | null;
+}
+
+export type MentionSegment =
+  | { type: 'text'; text: string }
+  | { type: 'mention'; text: string; userId: string };
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Brackets and line breaks would end the stored mention early
+export const toMentionName = (name: string) => name.replace(/[[\]\n]/g, ' ').trim().slice(0, 100);
+
+/**
+ * Turns every "@Name" the user picked from the suggestions into stored mention markup.
+ * Longer names are matched first so "@Ann Lee" wins over "@Ann".
+ */
+export const encodeMentions = (text: string, mentioned: Mention[]) => {
+  const byName = new Map(mentioned.map(mention => [toMentionName(mention.name), mention.user_id]));
+  if (byName.size === 0) return text;
+
+  const names = [...byName.keys()].sort((a, b) => b.length - a.length).map(escapeRegExp);
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}_])@(${names.join('|')})(?![\\p{L}\\p{N}_])`, 'gu');
+
+  return text.replace(pattern, (_, name: string) => `@[${name}](${byName.get(name)})`);
+};
+
+/** Stored text back to what the user typed, with the mentions it contained */
+export const decodeMentions = (text: string) => {
+  const mentioned: Mention[] = [];
+  const plain = text.replace(MENTION_PATTERN, (_, name: string, userId: string) => {
+    mentioned.push({ user_id: userId, name });
+    return `@${name}`;
+  });
+
+  return { text: plain, mentioned };
+};
+
+/** Plain "@Name" text for previews that do not render links */
+export const stripMentions = (text: string) => text.replace(MENTION_PATTERN, '@$1');
+
+export const splitMentions = (text: string): MentionSegment[] => {
+  const segments: MentionSegment[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    if (match.index > lastIndex) {
+      segments.push({ type: 'text', text: text.slice(lastIndex, match.index) });
+    }
+    segments.push({ type: 'mention', text: `@${match[1]}`, userId: match[2] });
+    lastIndex = match.index + match[0].length;
+  }
+
+  if (lastIndex < text.length) {
+    segments.push({ type: 'text', text: text.slice(lastIndex) });
+  }
+
+  return segments;
+};
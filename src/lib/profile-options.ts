@@ -0,0 +1,21 @@
+export const skillOptions = [
+  'JavaScript', 'Python', 'Java', 'C++', 'React', 'Node.js', 'Machine Learning',
+  'Data Science', 'Web Development', 'Mobile Development', 'UI/UX Design',
+  'Project Management', 'Marketing', 'Content Writing', 'Photography'
+];
+
+export const interestOptions = [
+  'Technology', 'Startups', 'Research', 'Sports', 'Music', 'Art', 'Travel',
+  'Gaming', 'Reading', 'Coding', 'Innovation', 'Entrepreneurship', 'Science'
+];
+
+// Values must match the looking_for check constraints in the database
+export const lookingForOptions = [
+  { value: 'study_partner', label: 'Study partner' },
+  { value: 'hackathon_teammate', label: 'Hackathon teammate' },
+  { value: 'project_cofounder', label: 'Project cofounder' },
+  { value: 'mentor', label: 'Mentor' },
+];
+
+export const getLookingForLabel = (value: string) =>
+  lookingForOptions.find(option => option.value === value)?.label || value;
@@ -1,5 +1,5 @@
-import { useState, useEffect, useRef } from 'react';
-import { useParams } from 'react-router-dom';
+import { Fragment, useState, useEffect, useLayoutEffect, useRef } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -7,115 +7,301 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
-import { Send } from 'lucide-react';
-import { formatDistanceToNow } from 'date-fns';
+import MatchActionsMenu from '@/components/MatchActionsMenu';
+import GroupMembersDialog, { type ConversationMember } from '@/components/GroupMembersDialog';
+import MessageBubble, { type Message, type ReceiptStatus } from '@/components/MessageBubble';
+import CodeSnippetDialog from '@/components/CodeSnippetDialog';
+import MentionSuggestions from '@/components/MentionSuggestions';
+import { useMentionComposer } from '@/hooks/use-mention-composer';
+import { Code2, Loader2, Paperclip, Send, Users } from 'lucide-react';
+import { format, isSameDay, isSameYear, isToday, isYesterday } from 'date-fns';
+import type { RealtimeChannel } from '@supabase/supabase-js';
 
-interface Message {
-  id: string;
-  match_id: string;
-  sender_id: string;
-  receiver_id: string;
-  content: string;
-  created_at: string;
+// How long a typing indicator stays up without a fresh keystroke
+const TYPING_TIMEOUT_MS = 3000;
+// Minimum gap between typing broadcasts while the user keeps typing
+const TYPING_THROTTLE_MS = 2000;
+// Matches the chat-attachments bucket file_size_limit
+const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+// Messages loaded per page, newest first
+const MESSAGE_PAGE_SIZE = 50;
+// Distance from the top/bottom edge (px) that counts as "at" that edge
+const SCROLL_EDGE_THRESHOLD = 80;
+
+const formatDateSeparator = (date: Date) => {
+  if (isToday(date)) return 'Today';
+  if (isYesterday(date)) return 'Yesterday';
+  return format(date, isSameYear(date, new Date()) ? 'd MMM' : 'd MMM yyyy');
+};
+
+interface ReadMarker {
+  user_id: string;
+  last_read_at: string | null;
+  last_delivered_at: string | null;
 }
 
-interface Match {
+interface Conversation {
   id: string;
-  user_id: string;
-  matched_user_id: string;
-  matched_profile: {
-    name: string;
-    avatar_url: string | null;
-  };
+  type: string;
+  name: string | null;
+  match_id: string | null;
 }
 
 export default function Chat() {
-  const { matchId } = useParams();
+  const { conversationId } = useParams();
   const { user } = useAuth();
   const { toast } = useToast();
+  const navigate = useNavigate();
   const [messages, setMessages] = useState<Message[]>([]);
   const [newMessage, setNewMessage] = useState('');
-  const [match, setMatch] = useState<Match | null>(null);
+  const [conversation, setConversation] = useState<Conversation | null>(null);
+  const [members, setMembers] = useState<ConversationMember[]>([]);
   const [loading, setLoading] = useState(false);
+  const [unavailable, setUnavailable] = useState(false);
+  const [readMarkers, setReadMarkers] = useState<Record<string, ReadMarker>>({});
+  const [onlineUserIds, setOnlineUserIds] = useState<string[]>([]);
+  const [typingUserIds, setTypingUserIds] = useState<string[]>([]);
+  const [codeDialogOpen, setCodeDialogOpen] = useState(false);
+  const [membersDialogOpen, setMembersDialogOpen] = useState(false);
+  const [hasOlderMessages, setHasOlderMessages] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const scrollContainerRef = useRef<HTMLDivElement>(null);
+  // Set before a state change to decide how the list scrolls once it re-renders
+  const pendingScrollRef = useRef<{ type: 'bottom'; behavior: ScrollBehavior } | { type: 'restore'; height: number; top: number } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const typingTimeoutsRef = useRef<Record<string, ReturnType<typeof setTimeout>>>({});
+  const lastTypingSentRef = useRef(0);
+  // Only people in this conversation can be mentioned
+  const composer = useMentionComposer<HTMLInputElement>(
+    newMessage,
+    (value) => handleMessageChange(value),
+    members.filter(member => member.user_id !== user?.id)
+  );
 
   useEffect(() => {
-    if (matchId && user) {
-      fetchMatch();
+    if (conversationId && user) {
+      setMessages([]);
+      setHasOlderMessages(false);
+      setReadMarkers({});
+      setTypingUserIds([]);
+      fetchConversation();
+      fetchMembers();
       fetchMessages();
-      
-      // Set up real-time subscription
+      fetchReadMarkers();
+
+      const setTyping = (userId: string, typing: boolean) => {
+        clearTimeout(typingTimeoutsRef.current[userId]);
+        setTypingUserIds(prev => {
+          const others = prev.filter(id => id !== userId);
+          return typing ? [...others, userId] : others;
+        });
+        if (typing) {
+          typingTimeoutsRef.current[userId] = setTimeout(() => setTyping(userId, false), TYPING_TIMEOUT_MS);
+        }
+      };
+
+      // One channel per conversation carries messages, read markers, membership, presence and typing
       const channel = supabase
-        .channel('messages-changes')
+        .channel(`chat-${conversationId}`, {
+          config: { presence: { key: user.id } }
+        })
         .on(
           'postgres_changes',
           {
             event: 'INSERT',
             schema: 'public',
             table: 'messages',
-            filter: `match_id=eq.${matchId}`
+            filter: `conversation_id=eq.${conversationId}`
+          },
+          (payload) => {
+            const message = payload.new as Message;
+            if (message.sender_id === user.id || isNearBottom()) {
+              pendingScrollRef.current = { type: 'bottom', behavior: 'smooth' };
+            }
+            setMessages(prev => [...prev, message]);
+            if (message.sender_id !== user.id) {
+              setTyping(message.sender_id, false);
+              markAsRead();
+            }
+          }
+        )
+        .on(
+          'postgres_changes',
+          {
+            event: 'UPDATE',
+            schema: 'public',
+            table: 'messages',
+            filter: `conversation_id=eq.${conversationId}`
           },
           (payload) => {
-            setMessages(prev => [...prev, payload.new as Message]);
+            const updated = payload.new as Message;
+            setMessages(prev => prev.map(message => message.id === updated.id ? updated : message));
           }
         )
-        .subscribe();
+        .on(
+          'postgres_changes',
+          {
+            event: 'DELETE',
+            schema: 'public',
+            table: 'messages',
+            filter: `conversation_id=eq.${conversationId}`
+          },
+          (payload) => {
+            const removed = payload.old as Partial<Message>;
+            setMessages(prev => prev.filter(message => message.id !== removed.id));
+          }
+        )
+        .on(
+          'postgres_changes',
+          {
+            event: '*',
+            schema: 'public',
+            table: 'conversation_reads',
+            filter: `conversation_id=eq.${conversationId}`
+          },
+          (payload) => {
+            const marker = payload.new as ReadMarker;
+            if (marker.user_id && marker.user_id !== user.id) {
+              setReadMarkers(prev => ({ ...prev, [marker.user_id]: marker }));
+            }
+          }
+        )
+        .on(
+          'postgres_changes',
+          {
+            event: '*',
+            schema: 'public',
+            table: 'conversation_participants',
+            filter: `conversation_id=eq.${conversationId}`
+          },
+          () => fetchMembers()
+        )
+        .on('presence', { event: 'sync' }, () => {
+          const state = channel.presenceState();
+          setOnlineUserIds(Object.keys(state).filter(key => key !== user.id));
+        })
+        .on('broadcast', { event: 'typing' }, ({ payload }) => {
+          if (payload.user_id === user.id) return;
+          setTyping(payload.user_id, payload.typing);
+        })
+        .subscribe(async (status) => {
+          if (status === 'SUBSCRIBED') {
+            await channel.track({ user_id: user.id, online_at: new Date().toISOString() });
+          }
+        });
+
+      channelRef.current = channel;
 
       return () => {
+        Object.values(typingTimeoutsRef.current).forEach(clearTimeout);
+        typingTimeoutsRef.current = {};
+        channelRef.current = null;
         supabase.removeChannel(channel);
       };
     }
-  }, [matchId, user]);
+  }, [conversationId, user]);
+
+  // Apply scrolling after the DOM updated but before paint, so prepending older
+  // messages never makes the list visibly jump
+  useLayoutEffect(() => {
+    const container = scrollContainerRef.current;
+    const pending = pendingScrollRef.current;
+    if (!container || !pending) return;
+
+    pendingScrollRef.current = null;
+    if (pending.type === 'restore') {
+      container.scrollTop = container.scrollHeight - pending.height + pending.top;
+    } else {
+      messagesEndRef.current?.scrollIntoView({ behavior: pending.behavior });
+    }
+  }, [messages, conversation]);
 
   useEffect(() => {
-    scrollToBottom();
-  }, [messages]);
+    if (typingUserIds.length > 0 && isNearBottom()) {
+      messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+    }
+  }, [typingUserIds.length]);
 
-  const scrollToBottom = () => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  const isNearBottom = () => {
+    const container = scrollContainerRef.current;
+    if (!container) return true;
+    return container.scrollHeight - container.scrollTop - container.clientHeight < SCROLL_EDGE_THRESHOLD;
   };
 
-  const fetchMatch = async () => {
-    if (!matchId || !user) return;
+  const fetchConversation = async () => {
+    if (!conversationId) return;
 
+    // RLS only returns conversations the current user takes part in
     const { data, error } = await supabase
-      .from('matches')
-      .select('*')
-      .eq('id', matchId)
-      .or(`user_id.eq.${user.id},matched_user_id.eq.${user.id}`)
-      .single();
+      .from('conversations')
+      .select('id, type, name, match_id')
+      .eq('id', conversationId)
+      .maybeSingle();
 
     if (error) {
       toast({
         title: "Error",
-        description: "Failed to fetch match details",
+        description: "Failed to fetch conversation details",
         variant: "destructive",
       });
       return;
     }
 
-    // Fetch the other user's profile
-    const otherUserId = data.user_id === user.id ? data.matched_user_id : data.user_id;
-    const { data: profileData } = await supabase
+    if (!data) {
+      setUnavailable(true);
+      return;
+    }
+
+    setConversation(data);
+  };
+
+  const fetchMembers = async () => {
+    if (!conversationId || !user) return;
+
+    const { data, error } = await supabase
+      .from('conversation_participants')
+      .select('user_id, role, joined_at')
+      .eq('conversation_id', conversationId)
+      .order('joined_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching conversation members:', error);
+      return;
+    }
+
+    // Removed from the group while the chat was open
+    if (!data?.some(member => member.user_id === user.id)) {
+      setUnavailable(true);
+      return;
+    }
+
+    const { data: profilesData } = await supabase
       .from('profiles')
-      .select('name, avatar_url')
-      .eq('user_id', otherUserId)
-      .single();
+      .select('user_id, name, avatar_url')
+      .in('user_id', data.map(member => member.user_id));
 
-    setMatch({
-      ...data,
-      matched_profile: profileData || { name: 'Unknown User', avatar_url: null }
-    });
+    const profilesMap = new Map(profilesData?.map(profile => [profile.user_id, profile]) || []);
+
+    setMembers(data.map(member => ({
+      ...member,
+      name: profilesMap.get(member.user_id)?.name || 'Unknown User',
+      avatar_url: profilesMap.get(member.user_id)?.avatar_url || null,
+    })));
   };
 
   const fetchMessages = async () => {
-    if (!matchId) return;
+    if (!conversationId) return;
 
+    // Newest page first; older pages are loaded on demand when scrolling up
     const { data, error } = await supabase
       .from('messages')
       .select('*')
-      .eq('match_id', matchId)
-      .order('created_at', { ascending: true });
+      .eq('conversation_id', conversationId)
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(MESSAGE_PAGE_SIZE);
 
     if (error) {
       toast({
@@ -126,28 +312,140 @@ export default function Chat() {
       return;
     }
 
-    setMessages(data || []);
+    pendingScrollRef.current = { type: 'bottom', behavior: 'auto' };
+    setMessages((data || []).reverse());
+    setHasOlderMessages((data?.length || 0) === MESSAGE_PAGE_SIZE);
+    markAsRead();
+  };
+
+  const fetchOlderMessages = async () => {
+    if (!conversationId || loadingOlder || !hasOlderMessages || messages.length === 0) return;
+
+    const oldest = messages[0];
+    setLoadingOlder(true);
+
+    // Keyset on (created_at, id) stays stable while new messages keep arriving
+    const { data, error } = await supabase
+      .from('messages')
+      .select('*')
+      .eq('conversation_id', conversationId)
+      .or(`created_at.lt.${oldest.created_at},and(created_at.eq.${oldest.created_at},id.lt.${oldest.id})`)
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(MESSAGE_PAGE_SIZE);
+
+    setLoadingOlder(false);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to load older messages",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const container = scrollContainerRef.current;
+    if (container) {
+      pendingScrollRef.current = { type: 'restore', height: container.scrollHeight, top: container.scrollTop };
+    }
+    setMessages(prev => [...(data || []).reverse(), ...prev]);
+    setHasOlderMessages((data?.length || 0) === MESSAGE_PAGE_SIZE);
+  };
+
+  const handleScroll = () => {
+    const container = scrollContainerRef.current;
+    if (container && container.scrollTop < SCROLL_EDGE_THRESHOLD) {
+      fetchOlderMessages();
+    }
+  };
+
+  const fetchReadMarkers = async () => {
+    if (!conversationId || !user) return;
+
+    const { data, error } = await supabase
+      .from('conversation_reads')
+      .select('user_id, last_read_at, last_delivered_at')
+      .eq('conversation_id', conversationId)
+      .neq('user_id', user.id);
+
+    if (error) {
+      console.error('Error fetching read markers:', error);
+      return;
+    }
+
+    setReadMarkers(Object.fromEntries((data || []).map(marker => [marker.user_id, marker])));
+  };
+
+  const markAsRead = async () => {
+    if (!conversationId) return;
+
+    const { error } = await supabase.rpc('mark_conversation_read', { _conversation_id: conversationId });
+
+    if (error) {
+      console.error('Error marking conversation as read:', error);
+    }
+  };
+
+  const sendTyping = (typing: boolean) => {
+    if (!channelRef.current || !user) return;
+
+    channelRef.current.send({
+      type: 'broadcast',
+      event: 'typing',
+      payload: { user_id: user.id, typing },
+    });
+  };
+
+  const handleMessageChange = (value: string) => {
+    setNewMessage(value);
+
+    const now = Date.now();
+    if (value.trim() && now - lastTypingSentRef.current > TYPING_THROTTLE_MS) {
+      lastTypingSentRef.current = now;
+      sendTyping(true);
+    } else if (!value.trim() && lastTypingSentRef.current) {
+      lastTypingSentRef.current = 0;
+      sendTyping(false);
+    }
+  };
+
+  // In groups a message only counts as delivered/read once every other member got there
+  const getReceiptStatus = (message: Message): ReceiptStatus => {
+    const sentAt = new Date(message.created_at).getTime();
+    const others = members.filter(member => member.user_id !== user?.id);
+    if (others.length === 0) return 'sent';
+
+    const everyoneReached = (key: 'last_read_at' | 'last_delivered_at') =>
+      others.every(member => {
+        const reachedAt = readMarkers[member.user_id]?.[key];
+        return !!reachedAt && new Date(reachedAt).getTime() >= sentAt;
+      });
+
+    if (everyoneReached('last_read_at')) return 'read';
+    if (everyoneReached('last_delivered_at')) return 'delivered';
+    return 'sent';
   };
 
   const sendMessage = async () => {
-    if (!newMessage.trim() || !matchId || !user || !match) return;
+    if (!newMessage.trim() || !conversationId || !user) return;
 
     setLoading(true);
     try {
-      const receiverId = match.user_id === user.id ? match.matched_user_id : match.user_id;
-
       const { error } = await supabase
         .from('messages')
         .insert({
-          match_id: matchId,
+          conversation_id: conversationId,
           sender_id: user.id,
-          receiver_id: receiverId,
-          content: newMessage.trim(),
+          content: composer.encode(newMessage.trim()),
         });
 
       if (error) throw error;
 
       setNewMessage('');
+      composer.setMentioned([]);
+      lastTypingSentRef.current = 0;
+      sendTyping(false);
     } catch (error) {
       toast({
         title: "Error",
@@ -159,14 +457,177 @@ export default function Chat() {
     }
   };
 
+  const sendAttachment = async (file: File) => {
+    if (!conversationId || !user) return;
+
+    if (file.size > MAX_ATTACHMENT_SIZE) {
+      toast({
+        title: "File too large",
+        description: "Attachments can be up to 10 MB",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setLoading(true);
+    try {
+      // Storage policies only let participants read from the conversation's folder
+      const safeName = file.name.replace(/[^\w.-]+/g, '_');
+      const path = `${conversationId}/${user.id}/${Date.now()}-${safeName}`;
+
+      const { error: uploadError } = await supabase.storage
+        .from('chat-attachments')
+        .upload(path, file, { contentType: file.type || undefined });
+
+      if (uploadError) throw uploadError;
+
+      const { error } = await supabase
+        .from('messages')
+        .insert({
+          conversation_id: conversationId,
+          sender_id: user.id,
+          content: composer.encode(newMessage.trim()),
+          message_type: file.type.startsWith('image/') ? 'image' : 'file',
+          attachment_path: path,
+          attachment_name: file.name,
+          attachment_size: file.size,
+          attachment_mime_type: file.type || null,
+        });
+
+      if (error) {
+        await supabase.storage.from('chat-attachments').remove([path]);
+        throw error;
+      }
+
+      setNewMessage('');
+      composer.setMentioned([]);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to send attachment",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) {
+      sendAttachment(file);
+    }
+  };
+
+  const sendCodeSnippet = async (code: string, language: string) => {
+    if (!conversationId || !user) return false;
+
+    const { error } = await supabase
+      .from('messages')
+      .insert({
+        conversation_id: conversationId,
+        sender_id: user.id,
+        content: code,
+        message_type: 'code',
+        code_language: language,
+      });
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to send code snippet",
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    return true;
+  };
+
+  const editMessage = async (messageId: string, content: string) => {
+    const { error } = await supabase.rpc('edit_message', {
+      _message_id: messageId,
+      _content: content,
+    });
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message.includes('15 minutes')
+          ? "Messages can only be edited within 15 minutes of sending"
+          : "Failed to edit message",
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    return true;
+  };
+
+  const deleteMessage = async (message: Message) => {
+    const { error } = await supabase.rpc('delete_message', { _message_id: message.id });
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to delete message",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (message.attachment_path) {
+      const { error: storageError } = await supabase.storage
+        .from('chat-attachments')
+        .remove([message.attachment_path]);
+
+      if (storageError) {
+        console.error('Error removing attachment:', storageError);
+      }
+    }
+  };
+
+  const getMemberName = (userId: string) =>
+    members.find(member => member.user_id === userId)?.name || 'Someone';
+
+  const getTypingLabel = () => {
+    const names = typingUserIds.map(getMemberName);
+    if (names.length === 1) return `${names[0]} is typing…`;
+    if (names.length === 2) return `${names[0]} and ${names[1]} are typing…`;
+    return `${names.length} people are typing…`;
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
-      sendMessage();
+      // Enter picks the top suggestion while a mention is being typed
+      if (composer.suggestions.length > 0) {
+        composer.insertMention(composer.suggestions[0]);
+      } else {
+        sendMessage();
+      }
     }
   };
 
-  if (!match) {
+  if (unavailable) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <Card>
+          <CardContent className="p-6 text-center space-y-4">
+            <p className="text-muted-foreground">
+              This chat isn't available. Chats open once you and the other student have both connected, and group chats only show to their members.
+            </p>
+            <Link to="/inbox">
+              <Button variant="outline">Back to Inbox</Button>
+            </Link>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!conversation || members.length === 0) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
         <Card>
@@ -178,6 +639,10 @@ export default function Chat() {
     );
   }
 
+  const isGroup = conversation.type === 'group';
+  const otherMember = isGroup ? undefined : members.find(member => member.user_id !== user?.id);
+  const title = isGroup ? conversation.name || 'Group' : otherMember?.name || 'Unknown User';
+
   return (
     <div className="min-h-screen bg-background">
       <div className="max-w-2xl mx-auto">
@@ -185,13 +650,66 @@ export default function Chat() {
         <Card className="rounded-b-none border-b-0">
           <CardHeader className="pb-3">
             <CardTitle className="flex items-center space-x-3">
-              <Avatar className="w-10 h-10">
-                <AvatarImage src={match.matched_profile.avatar_url || ''} />
-                <AvatarFallback>
-                  {match.matched_profile.name.charAt(0).toUpperCase()}
-                </AvatarFallback>
-              </Avatar>
-              <span>{match.matched_profile.name}</span>
+              {isGroup ? (
+                <button
+                  type="button"
+                  onClick={() => setMembersDialogOpen(true)}
+                  className="flex -space-x-3"
+                  aria-label="Show members"
+                >
+                  {members.slice(0, 3).map((member) => (
+                    <Avatar key={member.user_id} className="w-9 h-9 ring-2 ring-card">
+                      <AvatarImage src={member.avatar_url || ''} />
+                      <AvatarFallback className="text-xs">
+                        {member.name.charAt(0).toUpperCase()}
+                      </AvatarFallback>
+                    </Avatar>
+                  ))}
+                </button>
+              ) : (
+                <Avatar className="w-10 h-10">
+                  <AvatarImage src={otherMember?.avatar_url || ''} />
+                  <AvatarFallback>
+                    {title.charAt(0).toUpperCase()}
+                  </AvatarFallback>
+                </Avatar>
+              )}
+              <div className="flex-1 min-w-0">
+                <p className="truncate">{title}</p>
+                <p className="text-xs font-normal text-muted-foreground flex items-center gap-1 truncate">
+                  {typingUserIds.length > 0 ? (
+                    isGroup ? getTypingLabel() : 'typing…'
+                  ) : isGroup ? (
+                    `${members.map(member => member.name.split(' ')[0]).join(', ')} · ${onlineUserIds.length} online`
+                  ) : (
+                    <>
+                      <span className={`w-2 h-2 rounded-full ${onlineUserIds.length > 0 ? 'bg-green-500' : 'bg-muted-foreground/40'}`} />
+                      {onlineUserIds.length > 0 ? 'Online' : 'Offline'}
+                    </>
+                  )}
+                </p>
+              </div>
+              {isGroup ? (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="rounded-full"
+                  onClick={() => setMembersDialogOpen(true)}
+                  aria-label="Group members"
+                >
+                  <Users className="w-4 h-4" />
+                </Button>
+              ) : (
+                conversation.match_id && otherMember && (
+                  <MatchActionsMenu
+                    matchId={conversation.match_id}
+                    otherUserId={otherMember.user_id}
+                    otherUserName={otherMember.name}
+                    onRemoved={() => navigate('/matches')}
+                    triggerClassName="rounded-full"
+                  />
+                )
+              )}
             </CardTitle>
           </CardHeader>
         </Card>
@@ -199,39 +717,54 @@ export default function Chat() {
         {/* Messages */}
         <Card className="rounded-none border-t-0 border-b-0">
           <CardContent className="p-0">
-            <div className="h-96 overflow-y-auto p-4 space-y-4">
+            <div
+              ref={scrollContainerRef}
+              onScroll={handleScroll}
+              className="h-96 overflow-y-auto p-4 space-y-4"
+            >
+              {loadingOlder && (
+                <div className="flex justify-center">
+                  <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+                </div>
+              )}
               {messages.length === 0 ? (
                 <div className="text-center text-muted-foreground py-8">
                   <p>No messages yet. Start the conversation!</p>
                 </div>
               ) : (
-                messages.map((message) => (
-                  <div
-                    key={message.id}
-                    className={`flex ${
-                      message.sender_id === user?.id ? 'justify-end' : 'justify-start'
-                    }`}
-                  >
-                    <div
-                      className={`max-w-xs px-4 py-2 rounded-lg ${
-                        message.sender_id === user?.id
-                          ? 'bg-primary text-primary-foreground'
-                          : 'bg-muted'
-                      }`}
-                    >
-                      <p className="whitespace-pre-wrap">{message.content}</p>
-                      <p
-                        className={`text-xs mt-1 ${
-                          message.sender_id === user?.id
-                            ? 'text-primary-foreground/70'
-                            : 'text-muted-foreground'
-                        }`}
-                      >
-                        {formatDistanceToNow(new Date(message.created_at), { addSuffix: true })}
-                      </p>
-                    </div>
+                messages.map((message, index) => {
+                  const sentAt = new Date(message.created_at);
+                  const startsNewDay = index === 0 || !isSameDay(sentAt, new Date(messages[index - 1].created_at));
+
+                  return (
+                    <Fragment key={message.id}>
+                      {startsNewDay && (
+                        <div className="flex items-center gap-3 py-1">
+                          <div className="flex-1 h-px bg-border" />
+                          <span className="text-xs font-medium text-muted-foreground">
+                            {formatDateSeparator(sentAt)}
+                          </span>
+                          <div className="flex-1 h-px bg-border" />
+                        </div>
+                      )}
+                      <MessageBubble
+                        message={message}
+                        isOwn={message.sender_id === user?.id}
+                        senderName={isGroup ? getMemberName(message.sender_id) : undefined}
+                        receipt={message.sender_id === user?.id ? getReceiptStatus(message) : undefined}
+                        onEdit={(content) => editMessage(message.id, content)}
+                        onDelete={() => deleteMessage(message)}
+                      />
+                    </Fragment>
+                  );
+                })
+              )}
+              {typingUserIds.length > 0 && (
+                <div className="flex justify-start">
+                  <div className="px-4 py-2 rounded-lg bg-muted text-sm text-muted-foreground italic">
+                    {getTypingLabel()}
                   </div>
-                ))
+                </div>
               )}
               <div ref={messagesEndRef} />
             </div>
@@ -242,13 +775,48 @@ export default function Chat() {
         <Card className="rounded-t-none border-t-0">
           <CardContent className="p-4">
             <div className="flex space-x-2">
-              <Input
-                value={newMessage}
-                onChange={(e) => setNewMessage(e.target.value)}
-                onKeyPress={handleKeyPress}
-                placeholder="Type a message..."
-                className="flex-1"
+              <input
+                ref={fileInputRef}
+                type="file"
+                className="hidden"
+                onChange={handleFileChange}
               />
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={loading}
+                aria-label="Attach a file"
+              >
+                <Paperclip className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setCodeDialogOpen(true)}
+                disabled={loading}
+                aria-label="Share a code snippet"
+              >
+                <Code2 className="w-4 h-4" />
+              </Button>
+              <div className="relative flex-1">
+                <MentionSuggestions
+                  suggestions={composer.suggestions}
+                  onSelect={composer.insertMention}
+                  className="absolute bottom-full left-0 right-0 mb-2 z-10"
+                />
+                <Input
+                  ref={composer.inputRef}
+                  value={newMessage}
+                  onChange={(e) => {
+                    handleMessageChange(e.target.value);
+                    composer.trackCaret(e);
+                  }}
+                  onSelect={composer.trackCaret}
+                  onKeyPress={handleKeyPress}
+                  placeholder={conversation?.type === 'group' ? 'Type a message... Use @ to mention someone' : 'Type a message...'}
+                />
+              </div>
               <Button
                 onClick={sendMessage}
                 disabled={loading || !newMessage.trim()}
@@ -259,6 +827,24 @@ export default function Chat() {
             </div>
           </CardContent>
         </Card>
+
+        <CodeSnippetDialog
+          open={codeDialogOpen}
+          onOpenChange={setCodeDialogOpen}
+          onSend={sendCodeSnippet}
+        />
+
+        {isGroup && (
+          <GroupMembersDialog
+            open={membersDialogOpen}
+            onOpenChange={setMembersDialogOpen}
+            conversationId={conversation.id}
+            groupName={title}
+            members={members}
+            onChanged={fetchMembers}
+            onLeft={() => navigate('/inbox')}
+          />
+        )}
       </div>
     </div>
   );
@@ -1,4 +1,5 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader } from '@/components/ui/card';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
@@ -7,14 +8,27 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Textarea } from '@/components/ui/textarea';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
 import { useToast } from '@/hooks/use-toast';
-import { Heart, MessageCircle, Upload, Image as ImageIcon, Trash2, Flame, Filter, TrendingUp } from 'lucide-react';
+import { Heart, MessageCircle, Upload, Image as ImageIcon, Trash2, Flame, Filter, TrendingUp, ChevronDown, X, Hash, HelpCircle, CheckCircle2 } from 'lucide-react';
 import { CommentSection } from '@/components/CommentSection';
 import PollCard from '@/components/PollCard';
 import CreatePollModal from '@/components/CreatePollModal';
+import RichText from '@/components/RichText';
+import MentionSuggestions from '@/components/MentionSuggestions';
+import { useTagSuggestions, TagSuggestion } from '@/hooks/use-tag-suggestions';
+import { useMentionComposer } from '@/hooks/use-mention-composer';
+import { getActiveToken } from '@/lib/hashtags';
 
 interface Post {
   id: string;
@@ -23,6 +37,9 @@ interface Post {
   likes: number;
   created_at: string;
   user_id: string;
+  comment_count?: number;
+  is_question?: boolean;
+  accepted_comment_id?: string | null;
   profiles?: {
     name: string;
     avatar_url: string | null;
@@ -39,62 +56,216 @@ interface Poll {
   options: string[];
   votes: Record<string, number>;
   created_at: string;
+  closes_at: string | null;
+  closed_at: string | null;
+  allow_multiple: boolean;
+  max_selections: number;
+  hide_results: boolean;
   profiles?: {
     name: string;
     avatar_url: string | null;
   };
 }
 
+type FeedItem = ({ item_type: 'post' } & Post) | ({ item_type: 'poll' } & Poll);
+
+type FeedRow = Database['public']['Functions']['get_feed']['Returns'][number];
+
+const FEED_PAGE_SIZE = 20;
+
+// Start loading the next page this far before the end of the feed scrolls into view
+const LOAD_MORE_ROOT_MARGIN = '600px';
+
+const toFeedItem = (row: FeedRow): FeedItem => {
+  const profiles = { name: row.author_name, avatar_url: row.author_avatar_url };
+
+  if (row.item_type === 'poll') {
+    return {
+      item_type: 'poll',
+      id: row.id,
+      user_id: row.user_id,
+      created_at: row.created_at,
+      question: row.question,
+      options: row.options,
+      votes: typeof row.votes === 'object' && row.votes !== null ? row.votes as Record<string, number> : {},
+      closes_at: row.closes_at,
+      closed_at: row.closed_at,
+      allow_multiple: row.allow_multiple,
+      max_selections: row.max_selections,
+      hide_results: row.hide_results,
+      profiles,
+    };
+  }
+
+  return {
+    item_type: 'post',
+    id: row.id,
+    user_id: row.user_id,
+    created_at: row.created_at,
+    content: row.content,
+    image_url: row.image_url,
+    likes: row.likes,
+    is_question: row.is_question,
+    accepted_comment_id: row.accepted_comment_id,
+    profiles,
+  };
+};
+
+// Query string keys; each selected value is repeated, e.g. ?skill=React&skill=Python
+type FilterKey = 'skill' | 'interest' | 'course';
+
+interface FeedFilterArgs {
+  _skills: string[];
+  _interests: string[];
+  _courses: string[];
+  _match_all: boolean;
+  _unanswered_only: boolean;
+}
+
 export default function Feed() {
   const { user } = useAuth();
   const { toast } = useToast();
-  const [posts, setPosts] = useState<Post[]>([]);
-  const [polls, setPolls] = useState<Poll[]>([]);
+  const [items, setItems] = useState<FeedItem[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [trendingPosts, setTrendingPosts] = useState<Post[]>([]);
   const [loading, setLoading] = useState(true);
   const [newPostContent, setNewPostContent] = useState('');
+  const composer = useMentionComposer<HTMLTextAreaElement>(newPostContent, setNewPostContent);
+  const [popularTags, setPopularTags] = useState<TagSuggestion[]>([]);
   const [newPostImage, setNewPostImage] = useState<File | null>(null);
+  const [newPostIsQuestion, setNewPostIsQuestion] = useState(false);
   const [isCreatingPost, setIsCreatingPost] = useState(false);
   const [uploadingImage, setUploadingImage] = useState(false);
   const [expandedComments, setExpandedComments] = useState<Set<string>>(new Set());
+  const [likedPostIds, setLikedPostIds] = useState<Set<string>>(new Set());
+  const [commentCounts, setCommentCounts] = useState<Record<string, number>>({});
   
-  // Filter states
-  const [skillFilter, setSkillFilter] = useState<string>('');
-  const [interestFilter, setInterestFilter] = useState<string>('');
-  const [courseFilter, setCourseFilter] = useState<string>('');
+  // Filters live in the URL so a filtered feed can be bookmarked and shared
+  const [searchParams, setSearchParams] = useSearchParams();
+  const skillFilters = searchParams.getAll('skill');
+  const interestFilters = searchParams.getAll('interest');
+  const courseFilters = searchParams.getAll('course');
+  const matchAll = searchParams.get('match') === 'all';
+  const unansweredOnly = searchParams.get('questions') === 'unanswered';
+  const activeFilterCount = skillFilters.length + interestFilters.length + courseFilters.length;
+  const filterQuery = searchParams.toString();
   const [availableSkills, setAvailableSkills] = useState<string[]>([]);
   const [availableInterests, setAvailableInterests] = useState<string[]>([]);
   const [availableCourses, setAvailableCourses] = useState<string[]>([]);
 
+  // Bumped whenever the feed restarts, so pages requested for older filters are dropped
+  const feedVersionRef = useRef(0);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+
+  // Read by the realtime callbacks, which are only bound once
+  const filterArgsRef = useRef<FeedFilterArgs>();
+  filterArgsRef.current = {
+    _skills: skillFilters,
+    _interests: interestFilters,
+    _courses: courseFilters,
+    _match_all: matchAll,
+    _unanswered_only: unansweredOnly,
+  };
+
   useEffect(() => {
-    fetchPosts();
-    fetchPolls();
     fetchTrendingPosts();
     fetchFilterOptions();
+    fetchPopularTags();
     
-    // Set up real-time subscription for posts and polls
+    // Apply post and poll changes to the loaded items instead of reloading the feed
     const channel = supabase
       .channel('schema-db-changes')
       .on(
         'postgres_changes',
         {
-          event: '*',
+          event: 'INSERT',
           schema: 'public',
           table: 'posts'
         },
-        () => {
-          fetchPosts();
-          fetchTrendingPosts();
+        (payload) => {
+          addFeedItem(payload.new.id);
         }
       )
       .on(
         'postgres_changes',
         {
-          event: '*',
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'posts'
+        },
+        (payload) => {
+          const { id, content, image_url, likes, is_question, accepted_comment_id } = payload.new;
+          if (filterArgsRef.current._unanswered_only && (!is_question || accepted_comment_id)) {
+            removeFeedItem(id);
+          } else {
+            patchFeedItem(id, { content, image_url, likes, is_question, accepted_comment_id });
+          }
+          patchTrendingPost(id, { content, image_url, likes });
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'DELETE',
+          schema: 'public',
+          table: 'posts'
+        },
+        (payload) => {
+          removeFeedItem(payload.old.id);
+          removeTrendingPost(payload.old.id);
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'polls'
+        },
+        (payload) => addFeedItem(payload.new.id)
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'polls'
+        },
+        (payload) => {
+          const { id, question, options, votes, closes_at, closed_at, allow_multiple, max_selections, hide_results } = payload.new;
+          patchFeedItem(id, {
+            question,
+            options,
+            votes: votes || {},
+            closes_at,
+            closed_at,
+            allow_multiple,
+            max_selections,
+            hide_results,
+          });
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'DELETE',
           schema: 'public',
           table: 'polls'
         },
-        () => fetchPolls()
+        (payload) => removeFeedItem(payload.old.id)
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'comments'
+        },
+        (payload) => {
+          const postId = (payload.new as { post_id?: string }).post_id || (payload.old as { post_id?: string }).post_id;
+          if (postId) fetchCommentCounts([postId]);
+        }
       )
       .subscribe()
 
@@ -103,11 +274,21 @@ export default function Feed() {
     }
   }, []);
 
-  const fetchPosts = async () => {
-    const { data, error } = await supabase
-      .from('posts')
-      .select('*')
-      .order('created_at', { ascending: false });
+  useEffect(() => {
+    fetchLikedPosts();
+  }, [user]);
+
+  const fetchFeed = async (cursor?: FeedItem) => {
+    const version = feedVersionRef.current;
+
+    const { data, error } = await supabase.rpc('get_feed', {
+      ...filterArgsRef.current,
+      _limit: FEED_PAGE_SIZE,
+      _cursor_created_at: cursor?.created_at,
+      _cursor_id: cursor?.id,
+    });
+
+    if (version !== feedVersionRef.current) return;
 
     if (error) {
       toast({
@@ -115,90 +296,133 @@ export default function Feed() {
         description: "Failed to fetch posts",
         variant: "destructive",
       });
+      setLoading(false);
+      setLoadingMore(false);
       return;
     }
 
-    // Fetch profiles separately due to relation issues
-    const userIds = [...new Set(data?.map(post => post.user_id) || [])];
-    const { data: profilesData } = await supabase
-      .from('profiles')
-      .select('user_id, name, avatar_url, skills, interests, course')
-      .in('user_id', userIds);
+    const page = (data || []).map(toFeedItem);
+    fetchCommentCounts(page.filter(item => item.item_type === 'post').map(item => item.id));
 
-    const profilesMap = new Map();
-    profilesData?.forEach(profile => {
-      profilesMap.set(profile.user_id, profile);
+    setItems(prev => {
+      if (!cursor) return page;
+
+      const loadedIds = new Set(prev.map(item => item.id));
+      return [...prev, ...page.filter(item => !loadedIds.has(item.id))];
     });
+    setHasMore(page.length === FEED_PAGE_SIZE);
+    setLoading(false);
+    setLoadingMore(false);
+  };
 
-    const postsWithProfiles = data?.map(post => ({
-      ...post,
-      profiles: profilesMap.get(post.user_id) || null
-    })) || [];
+  const loadMore = () => {
+    if (loading || loadingMore || !hasMore || items.length === 0) return;
 
-    setPosts(postsWithProfiles);
-    setLoading(false);
+    setLoadingMore(true);
+    fetchFeed(items[items.length - 1]);
   };
 
-  const fetchPolls = async () => {
-    const { data, error } = await supabase
-      .from('polls')
-      .select(`
-        *,
-        profiles!polls_user_id_fkey (
-          name,
-          avatar_url
+  const fetchFeedItem = async (id: string) => {
+    const { data, error } = await supabase.rpc('get_feed', {
+      ...filterArgsRef.current,
+      _item_id: id,
+      _limit: 1,
+    });
+
+    if (error) {
+      console.error('Failed to fetch feed item:', error);
+      return null;
+    }
+
+    return data?.[0] ? toFeedItem(data[0]) : null;
+  };
+
+  // New items only show if they pass the current filters
+  const addFeedItem = async (id: string) => {
+    const item = await fetchFeedItem(id);
+    if (!item) return;
+
+    if (item.item_type === 'post') fetchCommentCounts([item.id]);
+    setItems(prev => prev.some(existing => existing.id === id)
+      ? prev
+      : [item, ...prev].sort((a, b) =>
+          b.created_at.localeCompare(a.created_at) || b.id.localeCompare(a.id)
         )
-      `)
-      .order('created_at', { ascending: false });
+    );
+  };
+
+  const refreshFeedItem = async (id: string) => {
+    const item = await fetchFeedItem(id);
+    if (!item) return;
+
+    setItems(prev => prev.map(existing => existing.id === id ? item : existing));
+  };
+
+  const patchFeedItem = (id: string, changes: Partial<Post> | Partial<Poll>) => {
+    setItems(prev => prev.map(item =>
+      item.id === id ? { ...item, ...changes } as FeedItem : item
+    ));
+  };
+
+  const removeFeedItem = (id: string) => {
+    setItems(prev => prev.filter(item => item.id !== id));
+  };
+
+  // Posts without comments get no row back, so they are reset to zero
+  const fetchCommentCounts = async (postIds: string[]) => {
+    if (postIds.length === 0) return;
+
+    const { data, error } = await supabase.rpc('get_comment_counts', { _post_ids: postIds });
 
     if (error) {
-      console.error('Failed to fetch polls:', error);
+      console.error('Failed to fetch comment counts:', error);
       return;
     }
 
-    // Transform the data to match our Poll interface
-    const transformedPolls = (data || []).map(poll => ({
-      ...poll,
-      votes: typeof poll.votes === 'object' && poll.votes !== null ? poll.votes as Record<string, number> : {},
-      profiles: Array.isArray(poll.profiles) ? poll.profiles[0] : poll.profiles
-    }));
-
-    setPolls(transformedPolls);
+    setCommentCounts(prev => {
+      const next = { ...prev };
+      postIds.forEach(id => { next[id] = 0; });
+      (data || []).forEach(row => { next[row.post_id] = Number(row.comment_count); });
+      return next;
+    });
   };
 
   const fetchTrendingPosts = async () => {
-    const twentyFourHoursAgo = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
-    
-    const { data, error } = await supabase
-      .from('posts')
-      .select('*')
-      .gte('created_at', twentyFourHoursAgo)
-      .order('likes', { ascending: false })
-      .limit(3);
+    const { data, error } = await supabase.rpc('get_trending_posts', {
+      _window: 'today',
+      _limit: 3,
+    });
 
     if (error) {
       console.error('Failed to fetch trending posts:', error);
       return;
     }
 
-    // Fetch profiles separately for trending posts
-    const userIds = [...new Set(data?.map(post => post.user_id) || [])];
-    const { data: profilesData } = await supabase
-      .from('profiles')
-      .select('user_id, name, avatar_url')
-      .in('user_id', userIds);
+    setTrendingPosts((data || []).map(post => ({
+      ...post,
+      profiles: { name: post.author_name, avatar_url: post.author_avatar_url },
+    })));
+  };
 
-    const profilesMap = new Map();
-    profilesData?.forEach(profile => {
-      profilesMap.set(profile.user_id, profile);
-    });
+  // Realtime changes are patched in rather than refetched, since the ranking's engagement
+  // counts only refresh every few minutes anyway
+  const patchTrendingPost = (id: string, changes: Partial<Post>) => {
+    setTrendingPosts(prev => prev.map(post => post.id === id ? { ...post, ...changes } : post));
+  };
 
-    const trendingPostsWithProfiles = data?.map(post => ({
-      ...post,
-      profiles: profilesMap.get(post.user_id) || null
-    })) || [];
+  const removeTrendingPost = (id: string) => {
+    setTrendingPosts(prev => prev.filter(post => post.id !== id));
+  };
+
+  const fetchPopularTags = async () => {
+    const { data, error } = await supabase.rpc('get_popular_tags');
+
+    if (error) {
+      console.error('Failed to fetch popular tags:', error);
+      return;
+    }
 
-    setTrendingPosts(trendingPostsWithProfiles);
+    setPopularTags(data || []);
   };
 
   const fetchFilterOptions = async () => {
@@ -257,18 +481,25 @@ export default function Feed() {
         imageUrl = await uploadPostImage(newPostImage);
       }
 
-      const { error } = await supabase
+      const { data, error } = await supabase
         .from('posts')
         .insert({
           user_id: user.id,
-          content: newPostContent.trim(),
+          content: composer.encode(newPostContent.trim()),
           image_url: imageUrl,
-        });
+          is_question: newPostIsQuestion,
+        })
+        .select('id')
+        .single();
 
       if (error) throw error;
 
+      addFeedItem(data.id);
+
       setNewPostContent('');
+      composer.setMentioned([]);
       setNewPostImage(null);
+      setNewPostIsQuestion(false);
       
       toast({
         title: "Success! 🎉",
@@ -286,51 +517,79 @@ export default function Feed() {
     }
   };
 
-  const likePost = async (postId: string, currentLikes: number) => {
-    // Optimistic update
-    setPosts(prev => prev.map(post => 
-      post.id === postId 
-        ? { ...post, likes: currentLikes + 1 }
-        : post
+  const fetchLikedPosts = async () => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from('post_likes')
+      .select('post_id')
+      .eq('user_id', user.id);
+
+    if (error) {
+      console.error('Failed to fetch liked posts:', error);
+      return;
+    }
+
+    setLikedPostIds(new Set(data?.map(like => like.post_id) || []));
+  };
+
+  const applyLikeChange = (postId: string, liked: boolean, delta: number) => {
+    setLikedPostIds(prev => {
+      const newSet = new Set(prev);
+      if (liked) {
+        newSet.add(postId);
+      } else {
+        newSet.delete(postId);
+      }
+      return newSet;
+    });
+
+    setItems(prev => prev.map(item => 
+      item.item_type === 'post' && item.id === postId 
+        ? { ...item, likes: Math.max(item.likes + delta, 0) }
+        : item
     ));
     
     setTrendingPosts(prev => prev.map(post => 
       post.id === postId 
-        ? { ...post, likes: currentLikes + 1 }
+        ? { ...post, likes: Math.max(post.likes + delta, 0) }
         : post
     ));
+  };
+
+  const toggleLike = async (postId: string) => {
+    if (!user) return;
+
+    const wasLiked = likedPostIds.has(postId);
+
+    // Optimistic update; posts.likes itself is kept in sync by a database trigger
+    applyLikeChange(postId, !wasLiked, wasLiked ? -1 : 1);
 
     try {
-      const { error } = await supabase
-        .from('posts')
-        .update({ likes: currentLikes + 1 })
-        .eq('id', postId);
+      const { error } = wasLiked
+        ? await supabase
+            .from('post_likes')
+            .delete()
+            .eq('post_id', postId)
+            .eq('user_id', user.id)
+        : await supabase
+            .from('post_likes')
+            .insert({
+              post_id: postId,
+              user_id: user.id,
+            });
 
       if (error) throw error;
-
-      toast({
-        title: "Post liked! ❤️",
-        description: "Your like has been recorded",
-      });
       
       // Refresh trending posts since likes changed
       fetchTrendingPosts();
     } catch (error) {
       // Revert optimistic update on error
-      setPosts(prev => prev.map(post => 
-        post.id === postId 
-          ? { ...post, likes: currentLikes }
-          : post
-      ));
-      setTrendingPosts(prev => prev.map(post => 
-        post.id === postId 
-          ? { ...post, likes: currentLikes }
-          : post
-      ));
+      applyLikeChange(postId, wasLiked, wasLiked ? 1 : -1);
       
       toast({
         title: "Error",
-        description: "Failed to like post",
+        description: wasLiked ? "Failed to unlike post" : "Failed to like post",
         variant: "destructive",
       });
     }
@@ -346,6 +605,8 @@ export default function Feed() {
 
       if (error) throw error;
 
+      removeFeedItem(postId);
+
       toast({
         title: "Post deleted",
         description: "Your post has been removed",
@@ -359,6 +620,41 @@ export default function Feed() {
     }
   };
 
+  const toggleQuestion = async (post: Post) => {
+    const isQuestion = !post.is_question;
+
+    // Turning a question back into a post clears its accepted answer in the database too
+    patchFeedItem(post.id, { is_question: isQuestion, accepted_comment_id: isQuestion ? post.accepted_comment_id : null });
+
+    const { error } = await supabase
+      .from('posts')
+      .update({ is_question: isQuestion })
+      .eq('id', post.id);
+
+    if (error) {
+      patchFeedItem(post.id, { is_question: post.is_question, accepted_comment_id: post.accepted_comment_id });
+      toast({
+        title: "Error",
+        description: "Failed to update post",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const setUnansweredOnly = (enabled: boolean) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+
+      if (enabled) {
+        next.set('questions', 'unanswered');
+      } else {
+        next.delete('questions');
+      }
+
+      return next;
+    }, { replace: true });
+  };
+
   const toggleComments = (postId: string) => {
     setExpandedComments(prev => {
       const newSet = new Set(prev);
@@ -371,16 +667,104 @@ export default function Feed() {
     });
   };
 
+  const activeTag = getActiveToken(newPostContent, composer.caret, '#');
+  const tagSuggestions = useTagSuggestions(activeTag?.query || null);
+
+  const insertTag = (tag: string) => {
+    if (!activeTag) return;
+
+    const inserted = `#${tag} `;
+    const caret = activeTag.start + inserted.length;
+
+    setNewPostContent(newPostContent.slice(0, activeTag.start) + inserted + newPostContent.slice(activeTag.end));
+    composer.moveCaret(caret);
+  };
+
+  const toggleFilter = (key: FilterKey, value: string) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      const values = next.getAll(key);
+
+      next.delete(key);
+      (values.includes(value) ? values.filter(v => v !== value) : [...values, value])
+        .forEach(v => next.append(key, v));
+
+      return next;
+    }, { replace: true });
+  };
+
+  const setMatchMode = (mode: string) => {
+    if (!mode) return;
+
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+
+      if (mode === 'all') {
+        next.set('match', 'all');
+      } else {
+        next.delete('match');
+      }
+
+      return next;
+    }, { replace: true });
+  };
+
   const clearFilters = () => {
-    setSkillFilter('');
-    setInterestFilter('');
-    setCourseFilter('');
+    setSearchParams({}, { replace: true });
   };
 
-  // Re-fetch posts when filters change
+  // Restart the feed from the newest items when filters change
   useEffect(() => {
-    fetchPosts();
-  }, [skillFilter, interestFilter, courseFilter]);
+    feedVersionRef.current += 1;
+    setLoading(true);
+    setLoadingMore(false);
+    fetchFeed();
+  }, [filterQuery]);
+
+  // Re-bound whenever paging state changes so the callback sees the latest items
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting) loadMore();
+      },
+      { rootMargin: LOAD_MORE_ROOT_MARGIN }
+    );
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [loading, loadingMore, hasMore, items]);
+
+  const renderFilterMenu = (key: FilterKey, label: string, options: string[], selected: string[]) => (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" className="w-full justify-between rounded-xl bg-white/80 font-normal">
+          <span className="truncate">
+            {selected.length > 0 ? `${label} (${selected.length})` : `Select ${label.toLowerCase()}`}
+          </span>
+          <ChevronDown className="w-4 h-4 opacity-50" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="max-h-72 overflow-y-auto">
+        {options.length === 0 ? (
+          <p className="px-2 py-1.5 text-sm text-muted-foreground">Nothing to pick from yet</p>
+        ) : (
+          options.map(option => (
+            <DropdownMenuCheckboxItem
+              key={option}
+              checked={selected.includes(option)}
+              onCheckedChange={() => toggleFilter(key, option)}
+              onSelect={(e) => e.preventDefault()}
+            >
+              {option}
+            </DropdownMenuCheckboxItem>
+          ))
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/30 pb-20 sm:pb-6">
@@ -390,11 +774,16 @@ export default function Feed() {
         {trendingPosts.length > 0 && (
           <Card className="shadow-xl border-border/50 bg-gradient-to-r from-orange-50 to-red-50 border-orange-200 rounded-2xl overflow-hidden">
             <CardHeader className="pb-4">
-              <div className="flex items-center gap-2">
-                <Flame className="w-5 h-5 text-orange-500" />
-                <h2 className="text-xl font-bold text-orange-800">🔥 Trending</h2>
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                  <Flame className="w-5 h-5 text-orange-500" />
+                  <h2 className="text-xl font-bold text-orange-800">🔥 Trending</h2>
+                </div>
+                <Link to="/trending" className="text-sm font-medium text-orange-700 hover:text-orange-900">
+                  See all
+                </Link>
               </div>
-              <p className="text-sm text-orange-600">Most liked posts in the last 24 hours</p>
+              <p className="text-sm text-orange-600">Hottest posts today by likes, comments and recency</p>
             </CardHeader>
             <CardContent className="space-y-4">
               {trendingPosts.map((post) => (
@@ -409,12 +798,18 @@ export default function Feed() {
                       </Avatar>
                       <div className="flex-1 min-w-0">
                         <p className="text-sm font-medium text-gray-900">{post.profiles?.name || 'Anonymous'}</p>
-                        <p className="text-sm text-gray-700 mt-1 line-clamp-2">{post.content}</p>
+                        <p className="text-sm text-gray-700 mt-1 line-clamp-2">
+                          <RichText text={post.content} />
+                        </p>
                         <div className="flex items-center gap-3 mt-2">
                           <Badge variant="secondary" className="bg-orange-100 text-orange-800">
                             <TrendingUp className="w-3 h-3 mr-1" />
                             {post.likes} likes
                           </Badge>
+                          <Badge variant="secondary" className="bg-orange-100 text-orange-800">
+                            <MessageCircle className="w-3 h-3 mr-1" />
+                            {post.comment_count || 0} comments
+                          </Badge>
                         </div>
                       </div>
                     </div>
@@ -425,56 +820,99 @@ export default function Feed() {
           </Card>
         )}
 
+        {/* Popular Topics */}
+        {popularTags.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-sm font-semibold text-muted-foreground flex items-center gap-1">
+              <Hash className="w-4 h-4" />
+              Popular topics
+            </h3>
+            <div className="flex gap-2 overflow-x-auto pb-1">
+              {popularTags.map(({ tag, use_count }) => (
+                <Link key={tag} to={`/tags/${tag}`} className="flex-shrink-0">
+                  <Badge variant="outline" className="rounded-full px-3 py-1 bg-card hover:bg-primary/10 transition-colors">
+                    #{tag}
+                    <span className="ml-1.5 text-muted-foreground">{use_count}</span>
+                  </Badge>
+                </Link>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Filter Section */}
         <Card className="shadow-lg border-border/50 bg-gradient-to-r from-blue-50 to-indigo-50 border-blue-200 rounded-2xl">
           <CardContent className="p-4">
-            <div className="flex items-center gap-2 mb-4">
-              <Filter className="w-4 h-4 text-blue-600" />
-              <h3 className="font-semibold text-blue-800">Filter Posts</h3>
+            <div className="flex items-center justify-between gap-2 mb-4">
+              <div className="flex items-center gap-2">
+                <Filter className="w-4 h-4 text-blue-600" />
+                <h3 className="font-semibold text-blue-800">Filter Posts</h3>
+              </div>
+              <ToggleGroup
+                type="single"
+                size="sm"
+                value={matchAll ? 'all' : 'any'}
+                onValueChange={setMatchMode}
+                className="bg-white/80 rounded-xl p-0.5"
+              >
+                <ToggleGroupItem value="any" className="rounded-lg text-xs" aria-label="Match any filter">
+                  Any
+                </ToggleGroupItem>
+                <ToggleGroupItem value="all" className="rounded-lg text-xs" aria-label="Match all filters">
+                  All
+                </ToggleGroupItem>
+              </ToggleGroup>
             </div>
             <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
-              <Select value={skillFilter} onValueChange={setSkillFilter}>
-                <SelectTrigger className="rounded-xl bg-white/80">
-                  <SelectValue placeholder="Select skill" />
-                </SelectTrigger>
-                <SelectContent>
-                  {availableSkills.map(skill => (
-                    <SelectItem key={skill} value={skill}>{skill}</SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-              
-              <Select value={interestFilter} onValueChange={setInterestFilter}>
-                <SelectTrigger className="rounded-xl bg-white/80">
-                  <SelectValue placeholder="Select interest" />
-                </SelectTrigger>
-                <SelectContent>
-                  {availableInterests.map(interest => (
-                    <SelectItem key={interest} value={interest}>{interest}</SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-              
-              <Select value={courseFilter} onValueChange={setCourseFilter}>
-                <SelectTrigger className="rounded-xl bg-white/80">
-                  <SelectValue placeholder="Select course" />
-                </SelectTrigger>
-                <SelectContent>
-                  {availableCourses.map(course => (
-                    <SelectItem key={course} value={course}>{course}</SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
+              {renderFilterMenu('skill', 'Skills', availableSkills, skillFilters)}
+              {renderFilterMenu('interest', 'Interests', availableInterests, interestFilters)}
+              {renderFilterMenu('course', 'Courses', availableCourses, courseFilters)}
             </div>
-            
-            {(skillFilter || interestFilter || courseFilter) && (
-              <Button
-                variant="outline"
-                onClick={clearFilters}
-                className="mt-3 rounded-xl text-blue-600 border-blue-200 hover:bg-blue-50"
-              >
-                Clear Filters
-              </Button>
+            <div className="flex items-center justify-between gap-4 mt-3 rounded-xl bg-white/80 px-3 py-2">
+              <Label htmlFor="unanswered-only" className="text-sm font-normal flex items-center gap-2">
+                <HelpCircle className="w-4 h-4 text-blue-600" />
+                Unanswered questions
+              </Label>
+              <Switch
+                id="unanswered-only"
+                checked={unansweredOnly}
+                onCheckedChange={setUnansweredOnly}
+              />
+            </div>
+
+            {activeFilterCount > 0 && (
+              <div className="mt-3 space-y-3">
+                <div className="flex flex-wrap gap-2">
+                  {([
+                    ['skill', skillFilters],
+                    ['interest', interestFilters],
+                    ['course', courseFilters],
+                  ] as [FilterKey, string[]][]).flatMap(([key, values]) =>
+                    values.map(value => (
+                      <Badge
+                        key={`${key}-${value}`}
+                        className="cursor-pointer rounded-full px-3 py-1"
+                        onClick={() => toggleFilter(key, value)}
+                      >
+                        {value}
+                        <X className="w-3 h-3 ml-1" />
+                      </Badge>
+                    ))
+                  )}
+                </div>
+                <p className="text-xs text-blue-700">
+                  {matchAll
+                    ? 'Showing authors with every selected skill and interest, in any selected course'
+                    : 'Showing authors with at least one selected skill, interest or course'}
+                </p>
+                <Button
+                  variant="outline"
+                  onClick={clearFilters}
+                  className="rounded-xl text-blue-600 border-blue-200 hover:bg-blue-50"
+                >
+                  Clear Filters
+                </Button>
+              </div>
             )}
           </CardContent>
         </Card>
@@ -501,12 +939,39 @@ export default function Feed() {
                   <Label htmlFor="content">What's on your mind?</Label>
                   <Textarea
                     id="content"
+                    ref={composer.inputRef}
                     value={newPostContent}
-                    onChange={(e) => setNewPostContent(e.target.value)}
-                    placeholder="Share your thoughts, ask questions, or start a discussion..."
+                    onChange={(e) => {
+                      setNewPostContent(e.target.value);
+                      composer.trackCaret(e);
+                    }}
+                    onSelect={composer.trackCaret}
+                    placeholder="Share your thoughts, ask questions, or start a discussion... Use #tags to add topics and @ to mention people"
                     rows={4}
                     className="rounded-xl bg-muted/50 border-border/50 focus:border-primary/50 transition-colors resize-none"
                   />
+                  {activeTag && tagSuggestions.length > 0 && (
+                    <div className="rounded-xl border border-border/50 bg-card shadow-md overflow-hidden">
+                      {tagSuggestions.map((suggestion) => (
+                        <button
+                          key={suggestion.tag}
+                          type="button"
+                          onMouseDown={(e) => e.preventDefault()}
+                          onClick={() => insertTag(suggestion.tag)}
+                          className="w-full flex items-center justify-between px-3 py-2 text-sm hover:bg-muted text-left"
+                        >
+                          <span className="flex items-center gap-1 font-medium">
+                            <Hash className="w-3 h-3 text-primary" />
+                            {suggestion.tag}
+                          </span>
+                          <span className="text-xs text-muted-foreground">
+                            {suggestion.use_count} {suggestion.use_count === 1 ? 'post' : 'posts'}
+                          </span>
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  <MentionSuggestions suggestions={composer.suggestions} onSelect={composer.insertMention} />
                 </div>
                 
                 <div className="space-y-2">
@@ -533,6 +998,18 @@ export default function Feed() {
                   </div>
                 )}
 
+                <div className="flex items-center justify-between gap-4 rounded-xl border border-border/50 p-3">
+                  <div>
+                    <Label htmlFor="is-question" className="text-sm">Ask as a question</Label>
+                    <p className="text-xs text-muted-foreground">You can accept one comment as the answer</p>
+                  </div>
+                  <Switch
+                    id="is-question"
+                    checked={newPostIsQuestion}
+                    onCheckedChange={setNewPostIsQuestion}
+                  />
+                </div>
+
                 <Button 
                   onClick={createPost} 
                   disabled={isCreatingPost || !newPostContent.trim()}
@@ -551,10 +1028,10 @@ export default function Feed() {
             </DialogContent>
           </Dialog>
           
-          <CreatePollModal onPollCreated={() => { fetchPolls(); }} />
+          <CreatePollModal onPollCreated={addFeedItem} />
         </div>
 
-        {/* Combined Feed: Posts and Polls */}
+        {/* Unified Feed: Posts and Polls by recency */}
         {loading ? (
           <div className="space-y-6">
             {[...Array(3)].map((_, i) => (
@@ -575,44 +1052,74 @@ export default function Feed() {
               </Card>
             ))}
           </div>
-        ) : posts.length === 0 && polls.length === 0 ? (
+        ) : items.length === 0 ? (
           <Card className="shadow-lg">
             <CardContent className="p-8 text-center">
-              <p className="text-muted-foreground">No posts or polls yet. Be the first to share!</p>
+              <p className="text-muted-foreground">
+                {unansweredOnly
+                  ? 'No unanswered questions right now.'
+                  : activeFilterCount > 0
+                  ? 'No posts or polls match these filters.'
+                  : 'No posts or polls yet. Be the first to share!'}
+              </p>
             </CardContent>
           </Card>
         ) : (
           <div className="space-y-6">
-            {/* Render polls first */}
-            {polls.map((poll) => (
-              <PollCard key={`poll-${poll.id}`} poll={poll} onUpdate={fetchPolls} />
-            ))}
-            
-            {/* Then render posts */}
-            {posts.map((post) => (
-              <Card key={post.id} className="shadow-lg hover:shadow-xl transition-shadow duration-300 border-border/50 bg-gradient-to-br from-card to-card/80 backdrop-blur-sm rounded-2xl overflow-hidden">
+            {items.map((item) => item.item_type === 'poll' ? (
+              <PollCard key={`poll-${item.id}`} poll={item} onUpdate={() => refreshFeedItem(item.id)} />
+            ) : (
+              <Card key={item.id} className="shadow-lg hover:shadow-xl transition-shadow duration-300 border-border/50 bg-gradient-to-br from-card to-card/80 backdrop-blur-sm rounded-2xl overflow-hidden">
                 <CardContent className="p-6">
                   {/* Post Header */}
                   <div className="flex items-center space-x-3 mb-4">
                     <Avatar className="w-10 h-10 ring-2 ring-primary/20">
-                      <AvatarImage src={post.profiles?.avatar_url || ''} />
+                      <AvatarImage src={item.profiles?.avatar_url || ''} />
                       <AvatarFallback className="bg-gradient-to-br from-primary/20 to-primary/10 text-primary font-semibold">
-                        {post.profiles?.name?.charAt(0).toUpperCase() || 'U'}
+                        {item.profiles?.name?.charAt(0).toUpperCase() || 'U'}
                       </AvatarFallback>
                     </Avatar>
                     <div className="flex-1">
-                      <p className="font-semibold text-sm">{post.profiles?.name || 'Anonymous'}</p>
+                      <p className="font-semibold text-sm">{item.profiles?.name || 'Anonymous'}</p>
                       <p className="text-xs text-muted-foreground">
-                        {new Date(post.created_at).toLocaleDateString()}
+                        {new Date(item.created_at).toLocaleDateString()}
                       </p>
                     </div>
+
+                    {item.is_question && (
+                      item.accepted_comment_id ? (
+                        <Badge variant="secondary" className="rounded-full bg-green-100 text-green-800">
+                          <CheckCircle2 className="w-3 h-3 mr-1" />
+                          Answered
+                        </Badge>
+                      ) : (
+                        <Badge variant="secondary" className="rounded-full bg-blue-100 text-blue-800">
+                          <HelpCircle className="w-3 h-3 mr-1" />
+                          Question
+                        </Badge>
+                      )
+                    )}
+
+                    {/* Question toggle for post owner */}
+                    {user && item.user_id === user.id && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => toggleQuestion(item)}
+                        aria-pressed={!!item.is_question}
+                        aria-label={item.is_question ? 'Unmark as question' : 'Mark as question'}
+                        className={`rounded-xl ${item.is_question ? 'text-blue-600' : 'text-muted-foreground'} hover:text-blue-700 hover:bg-blue-50`}
+                      >
+                        <HelpCircle className="w-4 h-4" />
+                      </Button>
+                    )}
                     
                     {/* Delete button for post owner */}
-                    {user && post.user_id === user.id && (
+                    {user && item.user_id === user.id && (
                       <Button
                         variant="ghost"
                         size="sm"
-                        onClick={() => deletePost(post.id)}
+                        onClick={() => deletePost(item.id)}
                         className="text-red-500 hover:text-red-700 hover:bg-red-50 rounded-xl"
                       >
                         <Trash2 className="w-4 h-4" />
@@ -622,12 +1129,14 @@ export default function Feed() {
                   
                   {/* Post Content */}
                   <div className="space-y-4">
-                    <p className="text-foreground leading-relaxed">{post.content}</p>
+                    <p className="text-foreground leading-relaxed">
+                      <RichText text={item.content} />
+                    </p>
                     
-                    {post.image_url && (
+                    {item.image_url && (
                       <div className="rounded-xl overflow-hidden">
                         <img 
-                          src={post.image_url} 
+                          src={item.image_url} 
                           alt="Post content" 
                           className="w-full h-auto object-cover max-h-96"
                         />
@@ -640,35 +1149,58 @@ export default function Feed() {
                         <Button
                           variant="ghost"
                           size="sm"
-                          onClick={() => likePost(post.id, post.likes)}
-                          className="flex items-center space-x-2 text-muted-foreground hover:text-red-500 transition-colors rounded-xl"
+                          onClick={() => toggleLike(item.id)}
+                          disabled={!user}
+                          aria-pressed={likedPostIds.has(item.id)}
+                          className={`flex items-center space-x-2 hover:text-red-500 transition-colors rounded-xl ${
+                            likedPostIds.has(item.id) ? 'text-red-500' : 'text-muted-foreground'
+                          }`}
                         >
-                          <Heart className="w-4 h-4" />
-                          <span className="text-sm font-medium">{post.likes}</span>
+                          <Heart className={`w-4 h-4 ${likedPostIds.has(item.id) ? 'fill-current' : ''}`} />
+                          <span className="text-sm font-medium">{item.likes}</span>
                         </Button>
                         
                         <Button
                           variant="ghost"
                           size="sm"
-                          onClick={() => toggleComments(post.id)}
+                          onClick={() => toggleComments(item.id)}
                           className="flex items-center space-x-2 text-muted-foreground hover:text-primary transition-colors rounded-xl"
                         >
                           <MessageCircle className="w-4 h-4" />
-                          <span className="text-sm font-medium">Comment</span>
+                          <span className="text-sm font-medium">
+                            {commentCounts[item.id] ? `${commentCounts[item.id]} ${commentCounts[item.id] === 1 ? 'Comment' : 'Comments'}` : 'Comment'}
+                          </span>
                         </Button>
                       </div>
                     </div>
                     
                     {/* Comments Section */}
-                    {expandedComments.has(post.id) && (
+                    {expandedComments.has(item.id) && (
                       <div className="mt-4">
-                        <CommentSection postId={post.id} isOpen={expandedComments.has(post.id)} />
+                        <CommentSection
+                          postId={item.id}
+                          isOpen={expandedComments.has(item.id)}
+                          postAuthorId={item.user_id}
+                          isQuestion={item.is_question}
+                          acceptedCommentId={item.accepted_comment_id}
+                          onAnswerAccepted={(commentId) => patchFeedItem(item.id, { accepted_comment_id: commentId })}
+                        />
                       </div>
                     )}
                   </div>
                 </CardContent>
               </Card>
             ))}
+
+            <div ref={loadMoreRef} />
+            {loadingMore && (
+              <div className="flex justify-center py-4">
+                <div className="w-6 h-6 border-2 border-primary/30 border-t-primary rounded-full animate-spin" />
+              </div>
+            )}
+            {!hasMore && items.length > FEED_PAGE_SIZE && (
+              <p className="text-center text-sm text-muted-foreground py-4">You're all caught up</p>
+            )}
           </div>
         )}
       </div>
@@ -0,0 +1,220 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent } from '@/components/ui/card';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import CreateGroupDialog from '@/components/CreateGroupDialog';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { stripMentions } from '@/lib/mentions';
+import { Inbox as InboxIcon, Users } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+
+interface Conversation {
+  conversation_id: string;
+  conversation_type: string;
+  title: string | null;
+  avatar_url: string | null;
+  other_user_id: string | null;
+  member_count: number;
+  last_message: string | null;
+  last_message_at: string | null;
+  last_message_sender_id: string | null;
+  last_message_sender_name: string | null;
+  last_message_deleted: boolean;
+  last_message_type: string | null;
+  last_message_attachment_name: string | null;
+  unread_count: number;
+  joined_at: string;
+}
+
+const getMessageSnippet = (conversation: Conversation) => {
+  switch (conversation.last_message_type) {
+    case 'image':
+      return '📷 Photo';
+    case 'file':
+      return `📎 ${conversation.last_message_attachment_name || 'File'}`;
+    case 'code':
+      return '💻 Code snippet';
+    default:
+      return conversation.last_message && stripMentions(conversation.last_message);
+  }
+};
+
+export default function Inbox() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (user) {
+      fetchConversations();
+
+      // Any message, membership or read marker change affects ordering, previews or unread badges
+      const channel = supabase
+        .channel(`inbox-${user.id}`)
+        .on(
+          'postgres_changes',
+          {
+            event: '*',
+            schema: 'public',
+            table: 'messages'
+          },
+          () => fetchConversations()
+        )
+        .on(
+          'postgres_changes',
+          {
+            event: '*',
+            schema: 'public',
+            table: 'conversation_reads',
+            filter: `user_id=eq.${user.id}`
+          },
+          () => fetchConversations()
+        )
+        .on(
+          'postgres_changes',
+          {
+            event: '*',
+            schema: 'public',
+            table: 'matches'
+          },
+          () => fetchConversations()
+        )
+        .on(
+          'postgres_changes',
+          {
+            event: '*',
+            schema: 'public',
+            table: 'conversation_participants'
+          },
+          () => fetchConversations()
+        )
+        .subscribe();
+
+      return () => {
+        supabase.removeChannel(channel);
+      };
+    }
+  }, [user]);
+
+  const fetchConversations = async () => {
+    const { data, error } = await supabase.rpc('get_inbox');
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to load conversations",
+        variant: "destructive",
+      });
+      setLoading(false);
+      return;
+    }
+
+    setConversations(data || []);
+    setLoading(false);
+  };
+
+  if (!user) return null;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/30 pb-20 sm:pb-6">
+      <div className="max-w-2xl mx-auto p-4 sm:p-6 space-y-6">
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-2">
+            <h1 className="text-3xl font-bold bg-gradient-to-r from-primary to-primary/80 bg-clip-text text-transparent">
+              Inbox
+            </h1>
+            <p className="text-muted-foreground">Your conversations and study groups</p>
+          </div>
+          <CreateGroupDialog />
+        </div>
+
+        {loading ? (
+          <div className="space-y-3">
+            {[...Array(3)].map((_, i) => (
+              <Card key={i} className="animate-pulse rounded-2xl">
+                <CardContent className="p-4 flex items-center gap-3">
+                  <div className="w-12 h-12 bg-muted rounded-full"></div>
+                  <div className="flex-1 space-y-2">
+                    <div className="h-4 bg-muted rounded w-32"></div>
+                    <div className="h-3 bg-muted rounded w-48"></div>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        ) : conversations.length === 0 ? (
+          <Card className="bg-gradient-to-br from-card to-card/80 border-border/50 rounded-2xl">
+            <CardContent className="p-8 text-center">
+              <InboxIcon className="w-12 h-12 text-muted-foreground mx-auto mb-3" />
+              <p className="text-muted-foreground">No conversations yet. Match with students to start chatting!</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            {conversations.map((conversation) => {
+              const hasUnread = conversation.unread_count > 0;
+              const isGroup = conversation.conversation_type === 'group';
+              const title = conversation.title || (isGroup ? 'Group' : 'Unknown User');
+              const senderPrefix = conversation.last_message_sender_id === user.id
+                ? 'You: '
+                : isGroup && conversation.last_message_sender_name
+                  ? `${conversation.last_message_sender_name.split(' ')[0]}: `
+                  : '';
+              const preview = conversation.last_message_deleted
+                ? 'Message deleted'
+                : conversation.last_message_at
+                  ? `${senderPrefix}${getMessageSnippet(conversation)}`
+                  : isGroup
+                    ? `${conversation.member_count} members`
+                    : 'Say hello 👋';
+
+              return (
+                <Link key={conversation.conversation_id} to={`/chat/${conversation.conversation_id}`} className="block">
+                  <Card className={`rounded-2xl border-border/50 hover:shadow-lg transition-all duration-200 ${
+                    hasUnread ? 'bg-primary/5 border-primary/20' : 'bg-gradient-to-br from-card to-card/80'
+                  }`}>
+                    <CardContent className="p-4 flex items-center gap-3">
+                      <Avatar className="w-12 h-12">
+                        <AvatarImage src={conversation.avatar_url || ''} />
+                        <AvatarFallback className="bg-gradient-to-br from-primary to-primary/80 text-white font-semibold">
+                          {isGroup ? <Users className="w-5 h-5" /> : title.charAt(0).toUpperCase()}
+                        </AvatarFallback>
+                      </Avatar>
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center justify-between gap-2">
+                          <p className={`text-sm truncate ${hasUnread ? 'font-bold' : 'font-semibold'}`}>
+                            {title}
+                          </p>
+                          <span className="text-xs text-muted-foreground flex-shrink-0">
+                            {formatDistanceToNow(
+                              new Date(conversation.last_message_at || conversation.joined_at),
+                              { addSuffix: true }
+                            )}
+                          </span>
+                        </div>
+                        <div className="flex items-center justify-between gap-2 mt-1">
+                          <p className={`text-sm truncate ${hasUnread ? 'text-foreground' : 'text-muted-foreground'}`}>
+                            {preview}
+                          </p>
+                          {hasUnread && (
+                            <Badge className="rounded-full flex-shrink-0">
+                              {conversation.unread_count}
+                            </Badge>
+                          )}
+                        </div>
+                      </div>
+                    </CardContent>
+                  </Card>
+                </Link>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -3,11 +3,19 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
-import { Heart, X, MessageCircle, User, MapPin, BookOpen } from 'lucide-react';
+import { Heart, X, MessageCircle, User, MapPin, BookOpen, Check, Inbox, RotateCcw, Sparkles } from 'lucide-react';
 import { Link } from 'react-router-dom';
+import MatchPreferencesPanel from '@/components/MatchPreferencesPanel';
+import MatchActionsMenu from '@/components/MatchActionsMenu';
+import { getLookingForLabel } from '@/lib/profile-options';
+
+// Passed profiles come back into the deck after this many days
+const PASS_COOLDOWN_DAYS = 14;
+const DECK_PAGE_SIZE = 10;
 
 interface Profile {
   id: string;
@@ -16,7 +24,13 @@ interface Profile {
   course?: string;
   skills?: string[];
   interests?: string[];
+  looking_for?: string[];
   avatar_url?: string;
+  score?: number;
+  shared_skills?: string[];
+  complementary_skills?: string[];
+  shared_interests?: string[];
+  same_course?: boolean;
 }
 
 interface Match {
@@ -27,43 +41,136 @@ interface Match {
   profiles?: Profile;
 }
 
+interface ConnectionRequest {
+  id: string;
+  sender_id: string;
+  recipient_id: string;
+  status: string;
+  created_at: string;
+  profiles?: Profile;
+}
+
+interface ConnectionResult {
+  status: 'matched' | 'pending' | 'declined';
+  match_id: string | null;
+}
+
+const plural = (count: number, word: string) => `${count} ${word}${count !== 1 ? 's' : ''}`;
+
+// Human-readable reasons behind a profile's compatibility score
+const getMatchReasons = (profile: Profile): string[] => {
+  const reasons: string[] = [];
+
+  if (profile.shared_interests?.length) {
+    reasons.push(plural(profile.shared_interests.length, 'shared interest'));
+  }
+  if (profile.shared_skills?.length) {
+    reasons.push(plural(profile.shared_skills.length, 'shared skill'));
+  }
+  if (profile.complementary_skills?.length) {
+    const skills = profile.complementary_skills.slice(0, 2).join(' and ');
+    reasons.push(`knows ${skills} which you lack`);
+  }
+  if (profile.same_course) {
+    reasons.push('same course');
+  }
+
+  return reasons;
+};
+
 export default function Matches() {
   const { user } = useAuth();
   const { toast } = useToast();
   const [profiles, setProfiles] = useState<Profile[]>([]);
   const [matches, setMatches] = useState<Match[]>([]);
+  const [incomingRequests, setIncomingRequests] = useState<ConnectionRequest[]>([]);
+  const [respondingTo, setRespondingTo] = useState<string | null>(null);
   const [currentIndex, setCurrentIndex] = useState(0);
   const [loading, setLoading] = useState(true);
   const [swiping, setSwiping] = useState(false);
   const [swipeDirection, setSwipeDirection] = useState<'left' | 'right' | null>(null);
+  const [canUndo, setCanUndo] = useState(false);
+  const [hasMoreProfiles, setHasMoreProfiles] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [undoing, setUndoing] = useState(false);
 
   useEffect(() => {
     if (user) {
       fetchProfiles();
       fetchMatches();
+      fetchIncomingRequests();
+
+      // Keep requests and matches live while the page is open
+      const channel = supabase
+        .channel(`connections-${user.id}`)
+        .on(
+          'postgres_changes',
+          {
+            event: '*',
+            schema: 'public',
+            table: 'connection_requests',
+            filter: `recipient_id=eq.${user.id}`
+          },
+          () => fetchIncomingRequests()
+        )
+        .on(
+          'postgres_changes',
+          {
+            event: '*',
+            schema: 'public',
+            table: 'matches'
+          },
+          () => fetchMatches()
+        )
+        .subscribe();
+
+      return () => {
+        supabase.removeChannel(channel);
+      };
     }
   }, [user]);
 
+  // Prefetch the next page of the deck before it runs out
+  useEffect(() => {
+    if (hasMoreProfiles && profiles.length - currentIndex <= 2) {
+      fetchMoreProfiles();
+    }
+  }, [currentIndex, profiles.length, hasMoreProfiles]);
+
+  const fetchProfilesByUserId = async (userIds: string[]) => {
+    const profilesMap = new Map<string, Profile>();
+    if (userIds.length === 0) return profilesMap;
+
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('*')
+      .in('user_id', userIds);
+
+    if (error) {
+      console.error('Error fetching profiles:', error);
+    }
+
+    data?.forEach(profile => {
+      profilesMap.set(profile.user_id, profile);
+    });
+
+    return profilesMap;
+  };
+
   const fetchProfiles = async () => {
     if (!user) return;
 
     try {
-      // Get existing matches to exclude them
-      const { data: existingMatches } = await supabase
-        .from('matches')
-        .select('matched_user_id')
-        .eq('user_id', user.id);
-
-      const excludedUserIds = [user.id, ...(existingMatches?.map(m => m.matched_user_id) || [])];
-
-      const { data, error } = await supabase
-        .from('profiles')
-        .select('*')
-        .not('user_id', 'in', `(${excludedUserIds.join(',')})`)
-        .limit(10);
+      // Ranking and exclusion of matches, sent requests and recent passes happen server-side
+      const { data, error } = await supabase.rpc('get_discovery_deck', {
+        _limit: DECK_PAGE_SIZE,
+        _pass_cooldown_days: PASS_COOLDOWN_DAYS,
+      });
 
       if (error) throw error;
       setProfiles(data || []);
+      setCurrentIndex(0);
+      setHasMoreProfiles((data?.length || 0) === DECK_PAGE_SIZE);
     } catch (error) {
       console.error('Error fetching profiles:', error);
       toast({
@@ -76,39 +183,124 @@ export default function Matches() {
     }
   };
 
+  const fetchMoreProfiles = async () => {
+    const last = profiles[profiles.length - 1];
+    if (!user || !last || last.score === undefined || loadingMore) return;
+
+    setLoadingMore(true);
+    try {
+      const { data, error } = await supabase.rpc('get_discovery_deck', {
+        _limit: DECK_PAGE_SIZE,
+        _cursor_score: last.score,
+        _cursor_user_id: last.user_id,
+        _pass_cooldown_days: PASS_COOLDOWN_DAYS,
+      });
+
+      if (error) throw error;
+
+      setProfiles(prev => {
+        const seen = new Set(prev.map(p => p.user_id));
+        return [...prev, ...(data || []).filter(p => !seen.has(p.user_id))];
+      });
+      setHasMoreProfiles((data?.length || 0) === DECK_PAGE_SIZE);
+    } catch (error) {
+      console.error('Error fetching more profiles:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
   const fetchMatches = async () => {
     if (!user) return;
 
     try {
       const { data, error } = await supabase
         .from('matches')
-        .select(`
-          *,
-          profiles!matches_matched_user_id_fkey (
-            id,
-            user_id,
-            name,
-            course,
-            avatar_url
-          )
-        `)
-        .eq('user_id', user.id)
+        .select('*')
+        .or(`user_id.eq.${user.id},matched_user_id.eq.${user.id}`)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
-      
-      // Transform the data to match our interface
-      const transformedMatches = (data || []).map(match => ({
+
+      // Fetch the other participant's profile separately
+      const otherUserIds = (data || []).map(match => 
+        match.user_id === user.id ? match.matched_user_id : match.user_id
+      );
+      const profilesMap = await fetchProfilesByUserId([...new Set(otherUserIds)]);
+
+      const matchesWithProfiles = (data || []).map(match => ({
         ...match,
-        profiles: Array.isArray(match.profiles) ? match.profiles[0] : match.profiles
+        profiles: profilesMap.get(match.user_id === user.id ? match.matched_user_id : match.user_id)
       }));
       
-      setMatches(transformedMatches);
+      setMatches(matchesWithProfiles);
     } catch (error) {
       console.error('Error fetching matches:', error);
     }
   };
 
+  const fetchIncomingRequests = async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('connection_requests')
+        .select('*')
+        .eq('recipient_id', user.id)
+        .eq('status', 'pending')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      const profilesMap = await fetchProfilesByUserId([...new Set((data || []).map(request => request.sender_id))]);
+
+      setIncomingRequests((data || []).map(request => ({
+        ...request,
+        profiles: profilesMap.get(request.sender_id)
+      })));
+    } catch (error) {
+      console.error('Error fetching connection requests:', error);
+    }
+  };
+
+  const respondToRequest = async (request: ConnectionRequest, accept: boolean) => {
+    setRespondingTo(request.id);
+
+    try {
+      const { data, error } = await supabase.rpc('respond_to_connection_request', {
+        _request_id: request.id,
+        _accept: accept,
+      });
+
+      if (error) throw error;
+
+      const result = data as unknown as ConnectionResult;
+      if (result.status === 'matched') {
+        toast({
+          title: "It's a match! 💫",
+          description: `You and ${request.profiles?.name || 'this student'} are now connected`,
+        });
+        await fetchMatches();
+      } else {
+        toast({
+          title: "Request declined",
+          description: "They won't be notified",
+        });
+      }
+
+      setIncomingRequests(prev => prev.filter(r => r.id !== request.id));
+    } catch (error) {
+      console.error('Error responding to request:', error);
+      toast({
+        title: "Error",
+        description: "Failed to respond to request",
+        variant: "destructive",
+      });
+    } finally {
+      setRespondingTo(null);
+    }
+  };
+
   const swipeRight = async () => {
     if (!user || currentIndex >= profiles.length) return;
     
@@ -117,27 +309,36 @@ export default function Matches() {
     setSwipeDirection('right');
 
     try {
-      const { error } = await supabase
-        .from('matches')
-        .insert({
-          user_id: user.id,
-          matched_user_id: profile.user_id,
-        });
+      // A match is only created once both sides have swiped right
+      const { data, error } = await supabase.rpc('send_connection_request', {
+        _recipient_id: profile.user_id,
+      });
 
       if (error) throw error;
 
-      toast({
-        title: "It's a match! 💫",
-        description: `You matched with ${profile.name}`,
-      });
+      const result = data as unknown as ConnectionResult;
+      if (result.status === 'matched') {
+        toast({
+          title: "It's a match! 💫",
+          description: `You matched with ${profile.name}`,
+        });
 
-      // Refresh matches
-      await fetchMatches();
+        // Refresh matches and requests
+        await fetchMatches();
+        await fetchIncomingRequests();
+      } else {
+        toast({
+          title: "Request sent 👋",
+          description: `We'll let you know when ${profile.name} connects back`,
+        });
+      }
+
+      setCanUndo(true);
     } catch (error) {
-      console.error('Error creating match:', error);
+      console.error('Error sending connection request:', error);
       toast({
         title: "Error",
-        description: "Failed to create match",
+        description: "Failed to send connection request",
         variant: "destructive",
       });
     }
@@ -150,10 +351,29 @@ export default function Matches() {
     }, 300);
   };
 
-  const swipeLeft = () => {
+  const swipeLeft = async () => {
+    if (!user || currentIndex >= profiles.length) return;
+
+    const profile = profiles[currentIndex];
     setSwiping(true);
     setSwipeDirection('left');
 
+    const { error } = await supabase
+      .from('swipes')
+      .upsert({
+        swiper_id: user.id,
+        swiped_id: profile.user_id,
+        direction: 'left',
+      }, {
+        onConflict: 'swiper_id,swiped_id'
+      });
+
+    if (error) {
+      console.error('Error recording pass:', error);
+    } else {
+      setCanUndo(true);
+    }
+
     // Move to next profile after animation
     setTimeout(() => {
       setCurrentIndex(prev => prev + 1);
@@ -162,7 +382,54 @@ export default function Matches() {
     }, 300);
   };
 
+  const undoLastSwipe = async () => {
+    if (!user || undoing) return;
+
+    setUndoing(true);
+    try {
+      const { data: swipedUserId, error } = await supabase.rpc('undo_last_swipe');
+
+      if (error) throw error;
+
+      if (!swipedUserId) {
+        setCanUndo(false);
+        return;
+      }
+
+      // Put the profile back on top of the deck
+      const previous = profiles[currentIndex - 1];
+      if (previous?.user_id === swipedUserId) {
+        setCurrentIndex(prev => prev - 1);
+      } else {
+        const { data: profile } = await supabase
+          .from('profiles')
+          .select('*')
+          .eq('user_id', swipedUserId)
+          .maybeSingle();
+
+        if (profile) {
+          setProfiles(prev => [...prev.slice(0, currentIndex), profile, ...prev.slice(currentIndex)]);
+        }
+      }
+
+      toast({
+        title: "Swipe undone",
+        description: "That profile is back in your deck",
+      });
+    } catch (error) {
+      console.error('Error undoing swipe:', error);
+      toast({
+        title: "Error",
+        description: "Couldn't undo that swipe. Connected matches can't be undone.",
+        variant: "destructive",
+      });
+    } finally {
+      setUndoing(false);
+    }
+  };
+
   const currentProfile = profiles[currentIndex];
+  const matchReasons = currentProfile ? getMatchReasons(currentProfile) : [];
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/30 pb-20 sm:pb-6">
@@ -176,6 +443,7 @@ export default function Matches() {
           <p className="text-muted-foreground">
             Swipe right to connect, left to skip
           </p>
+          <MatchPreferencesPanel onSaved={() => { setLoading(true); fetchProfiles(); }} />
         </div>
 
         {/* Main Card Area */}
@@ -226,7 +494,7 @@ export default function Matches() {
                 </div>
 
                 {/* Profile Info */}
-                <div className="flex-1 p-6 space-y-4">
+                <div className="flex-1 p-6 space-y-4 overflow-y-auto">
                   <div className="text-center space-y-2">
                     <h2 className="text-2xl font-bold text-gray-900">{currentProfile.name}</h2>
                     {currentProfile.course && (
@@ -237,6 +505,16 @@ export default function Matches() {
                     )}
                   </div>
 
+                  {/* Why this profile was suggested */}
+                  {matchReasons.length > 0 && (
+                    <div className="flex items-start gap-2 rounded-xl bg-primary/5 px-3 py-2 text-sm text-primary">
+                      <Sparkles className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                      <span>
+                        {matchReasons.join(', ').replace(/^./, c => c.toUpperCase())}
+                      </span>
+                    </div>
+                  )}
+
                   {/* Skills */}
                   {currentProfile.skills && currentProfile.skills.length > 0 && (
                     <div className="space-y-2">
@@ -272,6 +550,24 @@ export default function Matches() {
                       </div>
                     </div>
                   )}
+
+                  {/* Looking For */}
+                  {currentProfile.looking_for && currentProfile.looking_for.length > 0 && (
+                    <div className="space-y-2">
+                      <h3 className="font-semibold text-sm text-gray-700">Looking for</h3>
+                      <div className="flex flex-wrap gap-2">
+                        {currentProfile.looking_for.map((intent) => (
+                          <Badge 
+                            key={intent} 
+                            variant="outline" 
+                            className="border-purple-200 text-purple-800 hover:bg-purple-50 rounded-full px-3 py-1"
+                          >
+                            {getLookingForLabel(intent)}
+                          </Badge>
+                        ))}
+                      </div>
+                    </div>
+                  )}
                 </div>
 
                 {/* Action Buttons */}
@@ -308,65 +604,157 @@ export default function Matches() {
           )}
         </div>
 
-        {/* Matches Section */}
-        <div className="space-y-4">
-          <div className="flex items-center justify-between">
-            <h2 className="text-xl font-bold text-foreground">Your Matches</h2>
-            <Badge variant="secondary" className="rounded-full">
-              {matches.length} match{matches.length !== 1 ? 'es' : ''}
-            </Badge>
+        {canUndo && (
+          <div className="flex justify-center -mt-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={undoLastSwipe}
+              disabled={undoing || swiping}
+              className="rounded-xl text-muted-foreground hover:text-foreground"
+            >
+              <RotateCcw className="w-4 h-4 mr-2" />
+              Undo last swipe
+            </Button>
           </div>
-          
-          {matches.length === 0 ? (
-            <Card className="bg-gradient-to-br from-card to-card/80 border-border/50 rounded-2xl">
-              <CardContent className="p-6 text-center">
-                <MessageCircle className="w-12 h-12 text-muted-foreground mx-auto mb-3" />
-                <p className="text-muted-foreground">No matches yet. Start swiping to connect with students!</p>
-              </CardContent>
-            </Card>
-          ) : (
-            <div className="grid grid-cols-2 gap-3">
-              {matches.map((match) => (
-                <Card 
-                  key={match.id} 
-                  className="bg-gradient-to-br from-white to-gray-50 border-border/50 rounded-2xl hover:shadow-lg transition-all duration-200 overflow-hidden"
-                >
-                  <CardContent className="p-4">
-                    <div className="text-center space-y-3">
-                      <Avatar className="w-16 h-16 mx-auto border-2 border-white shadow-md">
-                        <AvatarImage src={match.profiles?.avatar_url || ''} />
-                        <AvatarFallback className="bg-gradient-to-br from-primary to-primary/80 text-white font-semibold">
-                          {match.profiles?.name?.charAt(0).toUpperCase() || 'U'}
-                        </AvatarFallback>
-                      </Avatar>
-                      
-                      <div className="space-y-1">
-                        <h3 className="font-semibold text-sm text-gray-900">
-                          {match.profiles?.name || 'Unknown'}
-                        </h3>
-                        {match.profiles?.course && (
-                          <p className="text-xs text-muted-foreground">
-                            {match.profiles.course}
-                          </p>
-                        )}
+        )}
+
+        {/* Matches and Requests */}
+        <Tabs defaultValue="matches" className="space-y-4">
+          <TabsList className="grid w-full grid-cols-2 rounded-xl">
+            <TabsTrigger value="matches" className="rounded-lg">
+              Your Matches
+              <Badge variant="secondary" className="ml-2 rounded-full">
+                {matches.length}
+              </Badge>
+            </TabsTrigger>
+            <TabsTrigger value="requests" className="rounded-lg">
+              Incoming requests
+              {incomingRequests.length > 0 && (
+                <Badge className="ml-2 rounded-full bg-gradient-to-r from-pink-500 to-red-500 text-white">
+                  {incomingRequests.length}
+                </Badge>
+              )}
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="matches" className="space-y-4">
+            {matches.length === 0 ? (
+              <Card className="bg-gradient-to-br from-card to-card/80 border-border/50 rounded-2xl">
+                <CardContent className="p-6 text-center">
+                  <MessageCircle className="w-12 h-12 text-muted-foreground mx-auto mb-3" />
+                  <p className="text-muted-foreground">No matches yet. Start swiping to connect with students!</p>
+                </CardContent>
+              </Card>
+            ) : (
+              <div className="grid grid-cols-2 gap-3">
+                {matches.map((match) => (
+                  <Card 
+                    key={match.id} 
+                    className="relative bg-gradient-to-br from-white to-gray-50 border-border/50 rounded-2xl hover:shadow-lg transition-all duration-200 overflow-hidden"
+                  >
+                    <MatchActionsMenu
+                      matchId={match.id}
+                      otherUserId={match.user_id === user?.id ? match.matched_user_id : match.user_id}
+                      otherUserName={match.profiles?.name || 'this student'}
+                      onRemoved={() => setMatches(prev => prev.filter(m => m.id !== match.id))}
+                      triggerClassName="absolute top-2 right-2 h-8 w-8 rounded-full text-muted-foreground"
+                    />
+                    <CardContent className="p-4">
+                      <div className="text-center space-y-3">
+                        <Avatar className="w-16 h-16 mx-auto border-2 border-white shadow-md">
+                          <AvatarImage src={match.profiles?.avatar_url || ''} />
+                          <AvatarFallback className="bg-gradient-to-br from-primary to-primary/80 text-white font-semibold">
+                            {match.profiles?.name?.charAt(0).toUpperCase() || 'U'}
+                          </AvatarFallback>
+                        </Avatar>
+                    
+                        <div className="space-y-1">
+                          <h3 className="font-semibold text-sm text-gray-900">
+                            {match.profiles?.name || 'Unknown'}
+                          </h3>
+                          {match.profiles?.course && (
+                            <p className="text-xs text-muted-foreground">
+                              {match.profiles.course}
+                            </p>
+                          )}
+                        </div>
+
+                        <Link to={`/chat/${match.id}`}>
+                          <Button 
+                            size="sm" 
+                            className="w-full bg-gradient-to-r from-primary to-primary/80 hover:from-primary/90 hover:to-primary/70 rounded-xl text-xs"
+                          >
+                            <MessageCircle className="w-3 h-3 mr-1" />
+                            Chat
+                          </Button>
+                        </Link>
                       </div>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            )}
+          </TabsContent>
 
-                      <Link to={`/chat/${match.id}`}>
-                        <Button 
-                          size="sm" 
-                          className="w-full bg-gradient-to-r from-primary to-primary/80 hover:from-primary/90 hover:to-primary/70 rounded-xl text-xs"
-                        >
-                          <MessageCircle className="w-3 h-3 mr-1" />
-                          Chat
-                        </Button>
-                      </Link>
+          <TabsContent value="requests" className="space-y-3">
+            {incomingRequests.length === 0 ? (
+              <Card className="bg-gradient-to-br from-card to-card/80 border-border/50 rounded-2xl">
+                <CardContent className="p-6 text-center">
+                  <Inbox className="w-12 h-12 text-muted-foreground mx-auto mb-3" />
+                  <p className="text-muted-foreground">No pending requests. When someone swipes right on you, they'll show up here.</p>
+                </CardContent>
+              </Card>
+            ) : (
+              incomingRequests.map((request) => (
+                <Card 
+                  key={request.id} 
+                  className="bg-gradient-to-br from-white to-gray-50 border-border/50 rounded-2xl overflow-hidden"
+                >
+                  <CardContent className="p-4 flex items-center gap-3">
+                    <Avatar className="w-12 h-12 border-2 border-white shadow-md">
+                      <AvatarImage src={request.profiles?.avatar_url || ''} />
+                      <AvatarFallback className="bg-gradient-to-br from-primary to-primary/80 text-white font-semibold">
+                        {request.profiles?.name?.charAt(0).toUpperCase() || 'U'}
+                      </AvatarFallback>
+                    </Avatar>
+                    <div className="flex-1 min-w-0">
+                      <h3 className="font-semibold text-sm text-gray-900 truncate">
+                        {request.profiles?.name || 'Unknown'}
+                      </h3>
+                      {request.profiles?.course && (
+                        <p className="text-xs text-muted-foreground truncate">
+                          {request.profiles.course}
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        onClick={() => respondToRequest(request, false)}
+                        disabled={respondingTo === request.id}
+                        className="rounded-full border-red-200 text-red-500 hover:bg-red-50"
+                        aria-label="Decline request"
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        size="icon"
+                        onClick={() => respondToRequest(request, true)}
+                        disabled={respondingTo === request.id}
+                        className="rounded-full bg-gradient-to-r from-pink-500 to-red-500 hover:from-pink-600 hover:to-red-600 text-white"
+                        aria-label="Accept request"
+                      >
+                        <Check className="w-4 h-4" />
+                      </Button>
                     </div>
                   </CardContent>
                 </Card>
-              ))}
-            </div>
-          )}
-        </div>
+              ))
+            )}
+          </TabsContent>
+        </Tabs>
       </div>
     </div>
   );
@@ -0,0 +1,259 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import NotificationPreferencesPanel from '@/components/NotificationPreferencesPanel';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { AtSign, BarChart3, Bell, CheckCheck, Heart, MessageCircle, MessageSquare, Users, type LucideIcon } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+
+type NotificationRow = Database['public']['Tables']['notifications']['Row'];
+
+interface Notification extends NotificationRow {
+  actor: {
+    name: string;
+    avatar_url: string | null;
+  } | null;
+}
+
+const NOTIFICATIONS_LIMIT = 50;
+
+const notificationIcons: Record<string, LucideIcon> = {
+  like: Heart,
+  comment: MessageSquare,
+  poll_vote: BarChart3,
+  match: Users,
+  message: MessageCircle,
+  mention: AtSign,
+};
+
+const getNotificationText = (notification: Notification) => {
+  switch (notification.type) {
+    case 'like':
+      return 'liked your post';
+    case 'comment':
+      return 'commented on your post';
+    case 'poll_vote':
+      return 'voted on your poll';
+    case 'match':
+      return 'matched with you';
+    case 'message':
+      return 'sent you a message';
+    case 'mention':
+      if (notification.message_id) return 'mentioned you in a chat';
+      if (notification.comment_id) return 'mentioned you in a comment';
+      return 'mentioned you in a post';
+    default:
+      return 'sent you a notification';
+  }
+};
+
+// Direct conversations share their match's id
+const getNotificationLink = (notification: Notification) => {
+  if (notification.conversation_id) return `/chat/${notification.conversation_id}`;
+  if (notification.match_id) return `/chat/${notification.match_id}`;
+  if (notification.post_id) return `/posts/${notification.post_id}`;
+  if (notification.poll_id) return `/posts/${notification.poll_id}`;
+  return '/notifications';
+};
+
+export default function Notifications() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showUnreadOnly, setShowUnreadOnly] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+
+    fetchNotifications();
+
+    const channel = supabase
+      .channel(`notifications-${user.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'notifications',
+          filter: `user_id=eq.${user.id}`
+        },
+        () => fetchNotifications()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user]);
+
+  const fetchNotifications = async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('notifications')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false })
+        .limit(NOTIFICATIONS_LIMIT);
+
+      if (error) throw error;
+
+      const actorIds = [...new Set((data || []).map(n => n.actor_id).filter(Boolean))];
+
+      const { data: profilesData, error: profilesError } = actorIds.length > 0
+        ? await supabase.from('profiles').select('user_id, name, avatar_url').in('user_id', actorIds)
+        : { data: [], error: null };
+
+      if (profilesError) {
+        console.error('Error fetching profiles:', profilesError);
+      }
+
+      const profilesMap = new Map((profilesData || []).map(profile => [profile.user_id, profile]));
+
+      setNotifications((data || []).map(notification => ({
+        ...notification,
+        actor: profilesMap.get(notification.actor_id) || null,
+      })));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to fetch notifications",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const markRead = async (ids?: string[]) => {
+    const readAt = new Date().toISOString();
+    setNotifications(prev => prev.map(n =>
+      !n.read_at && (!ids || ids.includes(n.id)) ? { ...n, read_at: readAt } : n
+    ));
+
+    const { error } = await supabase.rpc('mark_notifications_read', { _ids: ids });
+
+    if (error) {
+      console.error('Failed to mark notifications as read:', error);
+      fetchNotifications();
+    }
+  };
+
+  const unreadCount = notifications.filter(n => !n.read_at).length;
+  const visibleNotifications = showUnreadOnly ? notifications.filter(n => !n.read_at) : notifications;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/30 pb-20 sm:pb-6">
+      <div className="max-w-2xl mx-auto p-4 sm:p-6 space-y-6">
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-2">
+            <h1 className="text-3xl font-bold bg-gradient-to-r from-primary to-primary/80 bg-clip-text text-transparent">
+              Notifications
+            </h1>
+            <p className="text-muted-foreground">
+              {unreadCount > 0 ? `${unreadCount} unread` : "You're all caught up"}
+            </p>
+          </div>
+          <div className="flex flex-wrap justify-end gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              className="rounded-xl"
+              onClick={() => markRead()}
+              disabled={unreadCount === 0}
+            >
+              <CheckCheck className="w-4 h-4 mr-2" />
+              Mark all as read
+            </Button>
+            <NotificationPreferencesPanel />
+          </div>
+        </div>
+
+        <Tabs value={showUnreadOnly ? 'unread' : 'all'} onValueChange={(value) => setShowUnreadOnly(value === 'unread')}>
+          <TabsList className="w-full grid grid-cols-2 rounded-xl">
+            <TabsTrigger value="all" className="rounded-lg">All</TabsTrigger>
+            <TabsTrigger value="unread" className="rounded-lg">Unread</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        {loading ? (
+          <div className="space-y-3">
+            {[...Array(4)].map((_, i) => (
+              <Card key={i} className="animate-pulse rounded-2xl">
+                <CardContent className="p-4 flex items-center gap-3">
+                  <div className="w-10 h-10 bg-muted rounded-full"></div>
+                  <div className="space-y-2 flex-1">
+                    <div className="h-4 bg-muted rounded w-2/3"></div>
+                    <div className="h-3 bg-muted rounded w-24"></div>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        ) : visibleNotifications.length === 0 ? (
+          <Card className="rounded-2xl">
+            <CardContent className="p-8 text-center">
+              <Bell className="w-12 h-12 text-muted-foreground mx-auto mb-3" />
+              <p className="text-muted-foreground">
+                {showUnreadOnly ? 'No unread notifications.' : 'No notifications yet.'}
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-2">
+            {visibleNotifications.map((notification) => {
+              const Icon = notificationIcons[notification.type] || Bell;
+
+              return (
+                <Link
+                  key={notification.id}
+                  to={getNotificationLink(notification)}
+                  onClick={() => !notification.read_at && markRead([notification.id])}
+                  className="block"
+                >
+                  <Card className={`rounded-2xl border-border/50 transition-colors hover:bg-muted/50 ${
+                    notification.read_at ? '' : 'bg-primary/5 border-primary/20'
+                  }`}>
+                    <CardContent className="p-4 flex items-center gap-3">
+                      <div className="relative flex-shrink-0">
+                        <Avatar className="w-10 h-10">
+                          <AvatarImage src={notification.actor?.avatar_url || ''} />
+                          <AvatarFallback className="bg-gradient-to-br from-primary/20 to-primary/10 text-primary font-semibold">
+                            {notification.actor?.name?.charAt(0).toUpperCase() || 'U'}
+                          </AvatarFallback>
+                        </Avatar>
+                        <span className="absolute -bottom-1 -right-1 w-5 h-5 rounded-full bg-primary text-primary-foreground flex items-center justify-center ring-2 ring-background">
+                          <Icon className="w-3 h-3" />
+                        </span>
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm">
+                          <span className="font-semibold">{notification.actor?.name || 'Someone'}</span>{' '}
+                          {getNotificationText(notification)}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+                        </p>
+                      </div>
+                      {!notification.read_at && (
+                        <span className="w-2.5 h-2.5 rounded-full bg-primary flex-shrink-0" aria-label="Unread" />
+                      )}
+                    </CardContent>
+                  </Card>
+                </Link>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
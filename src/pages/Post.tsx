@@ -0,0 +1,147 @@
+import { useState, useEffect, useRef } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { Card, CardContent } from '@/components/ui/card';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import RichText from '@/components/RichText';
+import PollCard from '@/components/PollCard';
+import { CommentSection } from '@/components/CommentSection';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { ArrowLeft, CheckCircle2, FileX, Heart, HelpCircle } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+
+type PostItem = Database['public']['Functions']['get_feed']['Returns'][number];
+
+/** A single post or poll with its comments, linked from notifications */
+export default function Post() {
+  const { postId } = useParams<{ postId: string }>();
+  const { toast } = useToast();
+  const [item, setItem] = useState<PostItem | null>(null);
+  const [loading, setLoading] = useState(true);
+  // Drops responses for a post the user has already navigated away from
+  const postIdRef = useRef(postId);
+
+  useEffect(() => {
+    postIdRef.current = postId;
+    setLoading(true);
+    fetchItem();
+  }, [postId]);
+
+  // get_feed applies the same block rules as the feed, so hidden posts come back empty
+  const fetchItem = async () => {
+    if (!postId) return;
+
+    const requested = postId;
+    const { data, error } = await supabase.rpc('get_feed', { _item_id: requested, _limit: 1 });
+
+    if (postIdRef.current !== requested) return;
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to load post",
+        variant: "destructive",
+      });
+    } else {
+      setItem(data?.[0] || null);
+    }
+
+    setLoading(false);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/30 pb-20 sm:pb-6">
+      <div className="max-w-2xl mx-auto p-4 sm:p-6 space-y-6">
+        <Link to="/feed" className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground">
+          <ArrowLeft className="w-4 h-4 mr-1" />
+          Back to Feed
+        </Link>
+
+        {loading ? (
+          <Card className="animate-pulse rounded-2xl">
+            <CardContent className="p-4 space-y-2">
+              <div className="h-4 bg-muted rounded w-32"></div>
+              <div className="h-3 bg-muted rounded w-full"></div>
+              <div className="h-3 bg-muted rounded w-2/3"></div>
+            </CardContent>
+          </Card>
+        ) : !item ? (
+          <Card className="rounded-2xl">
+            <CardContent className="p-8 text-center">
+              <FileX className="w-12 h-12 text-muted-foreground mx-auto mb-3" />
+              <p className="text-muted-foreground">This post isn't available anymore.</p>
+            </CardContent>
+          </Card>
+        ) : item.item_type === 'poll' ? (
+          <PollCard
+            poll={{
+              ...item,
+              votes: typeof item.votes === 'object' && item.votes !== null ? item.votes as Record<string, number> : {},
+              profiles: { name: item.author_name, avatar_url: item.author_avatar_url },
+            }}
+            onUpdate={fetchItem}
+          />
+        ) : (
+          <Card className="rounded-2xl border-border/50 bg-gradient-to-br from-card to-card/80">
+            <CardContent className="p-5 space-y-3">
+              <div className="flex items-center gap-3">
+                <Avatar className="w-10 h-10 ring-2 ring-primary/20">
+                  <AvatarImage src={item.author_avatar_url || ''} />
+                  <AvatarFallback className="bg-gradient-to-br from-primary/20 to-primary/10 text-primary font-semibold">
+                    {item.author_name?.charAt(0).toUpperCase() || 'U'}
+                  </AvatarFallback>
+                </Avatar>
+                <div className="min-w-0">
+                  <Link to={`/users/${item.user_id}`} className="font-semibold text-sm truncate hover:underline">
+                    {item.author_name || 'Anonymous'}
+                  </Link>
+                  <p className="text-xs text-muted-foreground">
+                    {formatDistanceToNow(new Date(item.created_at), { addSuffix: true })}
+                  </p>
+                </div>
+              </div>
+              <p className="text-foreground leading-relaxed whitespace-pre-wrap">
+                <RichText text={item.content} />
+              </p>
+              {item.image_url && (
+                <img
+                  src={item.image_url}
+                  alt="Post content"
+                  className="w-full h-auto object-cover max-h-96 rounded-xl"
+                />
+              )}
+              <div className="flex flex-wrap gap-2">
+                <Badge variant="secondary" className="rounded-full">
+                  <Heart className="w-3 h-3 mr-1" />
+                  {item.likes}
+                </Badge>
+                {item.is_question && (
+                  <Badge variant="secondary" className={`rounded-full ${
+                    item.accepted_comment_id ? 'bg-green-100 text-green-800' : 'bg-blue-100 text-blue-800'
+                  }`}>
+                    {item.accepted_comment_id ? (
+                      <CheckCircle2 className="w-3 h-3 mr-1" />
+                    ) : (
+                      <HelpCircle className="w-3 h-3 mr-1" />
+                    )}
+                    {item.accepted_comment_id ? 'Answered' : 'Question'}
+                  </Badge>
+                )}
+              </div>
+              <CommentSection
+                postId={item.id}
+                isOpen
+                postAuthorId={item.user_id}
+                isQuestion={item.is_question}
+                acceptedCommentId={item.accepted_comment_id}
+                onAnswerAccepted={(commentId) => setItem({ ...item, accepted_comment_id: commentId })}
+              />
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
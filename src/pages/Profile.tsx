@@ -9,6 +9,7 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
+import { skillOptions, interestOptions, lookingForOptions } from '@/lib/profile-options';
 import { Upload, X } from 'lucide-react';
 
 interface Profile {
@@ -18,20 +19,10 @@ interface Profile {
   course: string;
   skills: string[];
   interests: string[];
+  looking_for: string[];
   avatar_url: string | null;
 }
 
-const skillOptions = [
-  'JavaScript', 'Python', 'Java', 'C++', 'React', 'Node.js', 'Machine Learning',
-  'Data Science', 'Web Development', 'Mobile Development', 'UI/UX Design',
-  'Project Management', 'Marketing', 'Content Writing', 'Photography'
-];
-
-const interestOptions = [
-  'Technology', 'Startups', 'Research', 'Sports', 'Music', 'Art', 'Travel',
-  'Gaming', 'Reading', 'Coding', 'Innovation', 'Entrepreneurship', 'Science'
-];
-
 export default function Profile() {
   const { user } = useAuth();
   const { toast } = useToast();
@@ -44,6 +35,7 @@ export default function Profile() {
     course: '',
     skills: [] as string[],
     interests: [] as string[],
+    looking_for: [] as string[],
     avatar_url: null as string | null,
   });
 
@@ -78,6 +70,7 @@ export default function Profile() {
         course: data.course || '',
         skills: data.skills || [],
         interests: data.interests || [],
+        looking_for: data.looking_for || [],
         avatar_url: data.avatar_url || null,
       });
     }
@@ -140,6 +133,15 @@ export default function Profile() {
     }));
   };
 
+  const toggleLookingFor = (value: string) => {
+    setFormData(prev => ({
+      ...prev,
+      looking_for: prev.looking_for.includes(value)
+        ? prev.looking_for.filter(v => v !== value)
+        : [...prev.looking_for, value]
+    }));
+  };
+
   const saveProfile = async () => {
     if (!user) return;
     
@@ -151,6 +153,7 @@ export default function Profile() {
         course: formData.course,
         skills: formData.skills,
         interests: formData.interests,
+        looking_for: formData.looking_for,
         avatar_url: formData.avatar_url,
       };
 
@@ -302,6 +305,27 @@ export default function Profile() {
               <p className="text-xs text-muted-foreground">Click to add/remove interests</p>
             </div>
 
+            {/* Looking For */}
+            <div className="space-y-3">
+              <Label className="text-sm font-semibold">Looking For</Label>
+              <div className="flex flex-wrap gap-2">
+                {lookingForOptions.map((option) => (
+                  <Badge
+                    key={option.value}
+                    variant={formData.looking_for.includes(option.value) ? "default" : "outline"}
+                    className="cursor-pointer rounded-full px-3 py-1 transition-all duration-200 hover:scale-105 hover:shadow-md"
+                    onClick={() => toggleLookingFor(option.value)}
+                  >
+                    {option.label}
+                    {formData.looking_for.includes(option.value) && (
+                      <X className="w-3 h-3 ml-1" />
+                    )}
+                  </Badge>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">Helps the right people find you in Discover</p>
+            </div>
+
             <Button 
               onClick={saveProfile} 
               className="w-full bg-gradient-to-r from-primary to-primary/80 hover:from-primary/90 hover:to-primary/70 shadow-lg hover:shadow-xl transition-all duration-200 rounded-xl py-3 text-base font-semibold" 
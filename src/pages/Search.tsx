@@ -0,0 +1,242 @@
+import { useState, useEffect, useRef } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Card, CardContent } from '@/components/ui/card';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import HighlightedText from '@/components/HighlightedText';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { stripMentions } from '@/lib/mentions';
+import { BarChart3, FileText, MessageCircle, Search as SearchIcon, User } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+
+interface SearchResult {
+  result_type: string;
+  id: string;
+  post_id: string | null;
+  user_id: string;
+  author_name: string | null;
+  author_avatar_url: string | null;
+  headline: string;
+  context: string | null;
+  rank: number;
+  created_at: string;
+}
+
+type ResultType = 'post' | 'comment' | 'poll' | 'profile';
+
+const MIN_QUERY_LENGTH = 2;
+
+const RESULT_TABS: { type: ResultType; label: string; icon: typeof FileText }[] = [
+  { type: 'post', label: 'Posts', icon: FileText },
+  { type: 'comment', label: 'Comments', icon: MessageCircle },
+  { type: 'poll', label: 'Polls', icon: BarChart3 },
+  { type: 'profile', label: 'People', icon: User },
+];
+
+export default function Search() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = searchParams.get('q') || '';
+  const [input, setInput] = useState(query);
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [activeTab, setActiveTab] = useState<string>('all');
+  const latestQueryRef = useRef('');
+
+  useEffect(() => {
+    setInput(query);
+    latestQueryRef.current = query.trim();
+
+    if (!user || query.trim().length < MIN_QUERY_LENGTH) {
+      setResults([]);
+      return;
+    }
+
+    fetchResults(query.trim());
+  }, [user, query]);
+
+  const fetchResults = async (searchQuery: string) => {
+    setLoading(true);
+
+    const { data, error } = await supabase.rpc('search_everything', { _query: searchQuery });
+
+    // A newer search may have started while this one was in flight
+    if (latestQueryRef.current !== searchQuery) return;
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to search",
+        variant: "destructive",
+      });
+      setLoading(false);
+      return;
+    }
+
+    setResults(data || []);
+    setLoading(false);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!input.trim()) return;
+
+    setSearchParams({ q: input.trim() });
+  };
+
+  const resultsOfType = (type: string) =>
+    type === 'all'
+      ? [...results].sort((a, b) => b.rank - a.rank)
+      : results.filter(result => result.result_type === type);
+
+  const renderResult = (result: SearchResult) => {
+    const author = result.author_name?.replace(/<\/?mark>/g, '') || 'Anonymous';
+
+    if (result.result_type === 'profile') {
+      return (
+        <Card key={`profile-${result.id}`} className="rounded-2xl border-border/50 bg-gradient-to-br from-card to-card/80">
+          <CardContent className="p-4 flex items-center gap-3">
+            <Avatar className="w-12 h-12">
+              <AvatarImage src={result.author_avatar_url || ''} />
+              <AvatarFallback className="bg-gradient-to-br from-primary to-primary/80 text-white font-semibold">
+                {author.charAt(0).toUpperCase()}
+              </AvatarFallback>
+            </Avatar>
+            <div className="flex-1 min-w-0">
+              <Link to={`/users/${result.user_id}`} className="block hover:underline">
+                <HighlightedText text={result.headline} className="block font-semibold text-sm truncate" />
+              </Link>
+              {result.context && (
+                <HighlightedText text={result.context} className="block text-sm text-muted-foreground mt-1" />
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      );
+    }
+
+    const tab = RESULT_TABS.find(t => t.type === result.result_type);
+    const Icon = tab?.icon || FileText;
+
+    return (
+      <Card key={`${result.result_type}-${result.id}`} className="rounded-2xl border-border/50 bg-gradient-to-br from-card to-card/80">
+        <CardContent className="p-4 space-y-3">
+          <div className="flex items-center gap-3">
+            <Avatar className="w-8 h-8">
+              <AvatarImage src={result.author_avatar_url || ''} />
+              <AvatarFallback className="bg-gradient-to-br from-primary/20 to-primary/10 text-primary text-xs font-semibold">
+                {author.charAt(0).toUpperCase()}
+              </AvatarFallback>
+            </Avatar>
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-semibold truncate">{author}</p>
+              <p className="text-xs text-muted-foreground">
+                {formatDistanceToNow(new Date(result.created_at), { addSuffix: true })}
+              </p>
+            </div>
+            <Badge variant="secondary" className="rounded-full">
+              <Icon className="w-3 h-3 mr-1" />
+              {tab?.label.slice(0, -1)}
+            </Badge>
+          </div>
+          <HighlightedText text={result.headline} className="block text-sm leading-relaxed" />
+          {result.context && (
+            <p className="text-xs text-muted-foreground border-l-2 border-border pl-3 line-clamp-2">
+              {result.result_type === 'comment' ? `On: ${stripMentions(result.context)}` : stripMentions(result.context)}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    );
+  };
+
+  const renderResults = (type: string) => {
+    const list = resultsOfType(type);
+
+    if (list.length === 0) {
+      return (
+        <Card className="rounded-2xl">
+          <CardContent className="p-8 text-center">
+            <p className="text-muted-foreground">No matches for "{query}"</p>
+          </CardContent>
+        </Card>
+      );
+    }
+
+    return <div className="space-y-3">{list.map(renderResult)}</div>;
+  };
+
+  if (!user) return null;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/30 pb-20 sm:pb-6">
+      <div className="max-w-2xl mx-auto p-4 sm:p-6 space-y-6">
+        <div className="space-y-2">
+          <h1 className="text-3xl font-bold bg-gradient-to-r from-primary to-primary/80 bg-clip-text text-transparent">
+            Search
+          </h1>
+          <p className="text-muted-foreground">Find posts, comments, polls and people</p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="relative">
+          <SearchIcon className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder='Try "machine learning" or react -native'
+            className="pl-9 rounded-xl"
+          />
+        </form>
+
+        {query.trim().length < MIN_QUERY_LENGTH ? (
+          <Card className="rounded-2xl">
+            <CardContent className="p-8 text-center">
+              <SearchIcon className="w-12 h-12 text-muted-foreground mx-auto mb-3" />
+              <p className="text-muted-foreground">
+                Enter at least {MIN_QUERY_LENGTH} characters to search
+              </p>
+            </CardContent>
+          </Card>
+        ) : loading ? (
+          <div className="space-y-3">
+            {[...Array(3)].map((_, i) => (
+              <Card key={i} className="animate-pulse rounded-2xl">
+                <CardContent className="p-4 space-y-2">
+                  <div className="h-4 bg-muted rounded w-32"></div>
+                  <div className="h-3 bg-muted rounded w-full"></div>
+                  <div className="h-3 bg-muted rounded w-2/3"></div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        ) : (
+          <Tabs value={activeTab} onValueChange={setActiveTab}>
+            <TabsList className="w-full grid grid-cols-5 rounded-xl">
+              <TabsTrigger value="all" className="rounded-lg text-xs sm:text-sm">
+                All ({results.length})
+              </TabsTrigger>
+              {RESULT_TABS.map(({ type, label }) => (
+                <TabsTrigger key={type} value={type} className="rounded-lg text-xs sm:text-sm">
+                  {label} ({resultsOfType(type).length})
+                </TabsTrigger>
+              ))}
+            </TabsList>
+            <TabsContent value="all" className="mt-4">
+              {renderResults('all')}
+            </TabsContent>
+            {RESULT_TABS.map(({ type }) => (
+              <TabsContent key={type} value={type} className="mt-4">
+                {renderResults(type)}
+              </TabsContent>
+            ))}
+          </Tabs>
+        )}
+      </div>
+    </div>
+  );
+}
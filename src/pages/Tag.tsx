@@ -0,0 +1,194 @@
+import { useState, useEffect, useRef } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import RichText from '@/components/RichText';
+import PollCard from '@/components/PollCard';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { ArrowLeft, Hash, Heart } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+
+type TaggedItem = Database['public']['Functions']['get_feed']['Returns'][number];
+
+const TAG_PAGE_SIZE = 20;
+
+export default function Tag() {
+  const { tag: tagParam } = useParams<{ tag: string }>();
+  const tag = (tagParam || '').toLowerCase();
+  const { toast } = useToast();
+  const [items, setItems] = useState<TaggedItem[]>([]);
+  const [useCount, setUseCount] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  // Drops pages for a tag the user has already navigated away from
+  const tagRef = useRef(tag);
+
+  useEffect(() => {
+    tagRef.current = tag;
+    setLoading(true);
+    setItems([]);
+    fetchItems();
+    fetchUseCount();
+  }, [tag]);
+
+  const fetchUseCount = async () => {
+    const { count, error } = await supabase
+      .from('post_tags')
+      .select('id', { count: 'exact', head: true })
+      .eq('tag', tag);
+
+    if (error) {
+      console.error('Failed to fetch tag count:', error);
+      return;
+    }
+
+    setUseCount(count);
+  };
+
+  const fetchItems = async (cursor?: TaggedItem) => {
+    const requested = tag;
+
+    const { data, error } = await supabase.rpc('get_feed', {
+      _tag: requested,
+      _limit: TAG_PAGE_SIZE,
+      _cursor_created_at: cursor?.created_at,
+      _cursor_id: cursor?.id,
+    });
+
+    if (tagRef.current !== requested) return;
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to load posts for this topic",
+        variant: "destructive",
+      });
+    } else {
+      const page = data || [];
+      setItems(prev => cursor ? [...prev, ...page] : page);
+      setHasMore(page.length === TAG_PAGE_SIZE);
+    }
+
+    setLoading(false);
+    setLoadingMore(false);
+  };
+
+  const refreshItem = async (id: string) => {
+    const { data, error } = await supabase.rpc('get_feed', { _tag: tag, _item_id: id, _limit: 1 });
+
+    if (error || !data?.[0]) return;
+
+    setItems(prev => prev.map(item => item.id === id ? data[0] : item));
+  };
+
+  const loadMore = () => {
+    setLoadingMore(true);
+    fetchItems(items[items.length - 1]);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/30 pb-20 sm:pb-6">
+      <div className="max-w-2xl mx-auto p-4 sm:p-6 space-y-6">
+        <div className="space-y-2">
+          <Link to="/feed" className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground">
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            Back to Feed
+          </Link>
+          <h1 className="text-3xl font-bold bg-gradient-to-r from-primary to-primary/80 bg-clip-text text-transparent flex items-center gap-1">
+            <Hash className="w-7 h-7 text-primary" />
+            {tag}
+          </h1>
+          {useCount !== null && (
+            <p className="text-muted-foreground">
+              {useCount} {useCount === 1 ? 'post' : 'posts'} tagged with #{tag}
+            </p>
+          )}
+        </div>
+
+        {loading ? (
+          <div className="space-y-3">
+            {[...Array(3)].map((_, i) => (
+              <Card key={i} className="animate-pulse rounded-2xl">
+                <CardContent className="p-4 space-y-2">
+                  <div className="h-4 bg-muted rounded w-32"></div>
+                  <div className="h-3 bg-muted rounded w-full"></div>
+                  <div className="h-3 bg-muted rounded w-2/3"></div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        ) : items.length === 0 ? (
+          <Card className="rounded-2xl">
+            <CardContent className="p-8 text-center">
+              <Hash className="w-12 h-12 text-muted-foreground mx-auto mb-3" />
+              <p className="text-muted-foreground">Nothing has been tagged #{tag} yet.</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {items.map((item) => item.item_type === 'poll' ? (
+              <PollCard
+                key={`poll-${item.id}`}
+                poll={{
+                  ...item,
+                  votes: typeof item.votes === 'object' && item.votes !== null ? item.votes as Record<string, number> : {},
+                  profiles: { name: item.author_name, avatar_url: item.author_avatar_url },
+                }}
+                onUpdate={() => refreshItem(item.id)}
+              />
+            ) : (
+              <Card key={item.id} className="rounded-2xl border-border/50 bg-gradient-to-br from-card to-card/80">
+                <CardContent className="p-5 space-y-3">
+                  <div className="flex items-center gap-3">
+                    <Avatar className="w-10 h-10 ring-2 ring-primary/20">
+                      <AvatarImage src={item.author_avatar_url || ''} />
+                      <AvatarFallback className="bg-gradient-to-br from-primary/20 to-primary/10 text-primary font-semibold">
+                        {item.author_name?.charAt(0).toUpperCase() || 'U'}
+                      </AvatarFallback>
+                    </Avatar>
+                    <div className="min-w-0">
+                      <p className="font-semibold text-sm truncate">{item.author_name || 'Anonymous'}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {formatDistanceToNow(new Date(item.created_at), { addSuffix: true })}
+                      </p>
+                    </div>
+                  </div>
+                  <p className="text-foreground leading-relaxed">
+                    <RichText text={item.content} />
+                  </p>
+                  {item.image_url && (
+                    <img
+                      src={item.image_url}
+                      alt="Post content"
+                      className="w-full h-auto object-cover max-h-96 rounded-xl"
+                    />
+                  )}
+                  <Badge variant="secondary" className="rounded-full">
+                    <Heart className="w-3 h-3 mr-1" />
+                    {item.likes}
+                  </Badge>
+                </CardContent>
+              </Card>
+            ))}
+
+            {hasMore && (
+              <Button
+                variant="outline"
+                className="w-full rounded-xl"
+                onClick={loadMore}
+                disabled={loadingMore}
+              >
+                {loadingMore ? 'Loading...' : 'Load more'}
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
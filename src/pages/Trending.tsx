@@ -0,0 +1,207 @@
+import { useState, useEffect, useRef } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import RichText from '@/components/RichText';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { ArrowLeft, Flame, Heart, MessageCircle, Users } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+
+interface TrendingPost {
+  id: string;
+  user_id: string;
+  content: string;
+  image_url: string | null;
+  likes: number;
+  created_at: string;
+  author_name: string | null;
+  author_avatar_url: string | null;
+  comment_count: number;
+  unique_engagers: number;
+  score: number;
+}
+
+const TRENDING_PAGE_SIZE = 20;
+
+const trendingWindows = [
+  { value: 'today', label: 'Today' },
+  { value: 'week', label: 'This week' },
+  { value: 'month', label: 'This month' },
+];
+
+export default function Trending() {
+  const { toast } = useToast();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const requestedWindow = searchParams.get('window');
+  const trendingWindow = trendingWindows.some(w => w.value === requestedWindow) ? requestedWindow : 'today';
+  const [posts, setPosts] = useState<TrendingPost[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  // Drops responses for a window the user has already switched away from
+  const windowRef = useRef(trendingWindow);
+
+  useEffect(() => {
+    windowRef.current = trendingWindow;
+    setLoading(true);
+    fetchTrending(0);
+  }, [trendingWindow]);
+
+  const fetchTrending = async (offset: number) => {
+    const requested = trendingWindow;
+
+    const { data, error } = await supabase.rpc('get_trending_posts', {
+      _window: requested,
+      _limit: TRENDING_PAGE_SIZE,
+      _offset: offset,
+    });
+
+    if (windowRef.current !== requested) return;
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to load trending posts",
+        variant: "destructive",
+      });
+    } else {
+      const page = data || [];
+      // Scores shift as time passes, so skip anything already shown
+      setPosts(prev => {
+        if (offset === 0) return page;
+
+        const shownIds = new Set(prev.map(post => post.id));
+        return [...prev, ...page.filter(post => !shownIds.has(post.id))];
+      });
+      setHasMore(page.length === TRENDING_PAGE_SIZE);
+    }
+
+    setLoading(false);
+    setLoadingMore(false);
+  };
+
+  const loadMore = () => {
+    setLoadingMore(true);
+    fetchTrending(posts.length);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/30 pb-20 sm:pb-6">
+      <div className="max-w-2xl mx-auto p-4 sm:p-6 space-y-6">
+        <div className="space-y-2">
+          <Link to="/feed" className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground">
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            Back to Feed
+          </Link>
+          <h1 className="text-3xl font-bold bg-gradient-to-r from-orange-500 to-red-500 bg-clip-text text-transparent flex items-center gap-2">
+            <Flame className="w-7 h-7 text-orange-500" />
+            Trending
+          </h1>
+          <p className="text-muted-foreground">
+            Ranked by likes, comments and how many people joined in, with newer posts weighted higher
+          </p>
+        </div>
+
+        <Tabs value={trendingWindow} onValueChange={(value) => setSearchParams({ window: value }, { replace: true })}>
+          <TabsList className="w-full grid grid-cols-3 rounded-xl">
+            {trendingWindows.map(({ value, label }) => (
+              <TabsTrigger key={value} value={value} className="rounded-lg">
+                {label}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
+        {loading ? (
+          <div className="space-y-3">
+            {[...Array(3)].map((_, i) => (
+              <Card key={i} className="animate-pulse rounded-2xl">
+                <CardContent className="p-4 space-y-2">
+                  <div className="h-4 bg-muted rounded w-32"></div>
+                  <div className="h-3 bg-muted rounded w-full"></div>
+                  <div className="h-3 bg-muted rounded w-2/3"></div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        ) : posts.length === 0 ? (
+          <Card className="rounded-2xl">
+            <CardContent className="p-8 text-center">
+              <Flame className="w-12 h-12 text-muted-foreground mx-auto mb-3" />
+              <p className="text-muted-foreground">Nothing is trending yet. Check back soon!</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            {posts.map((post, index) => (
+              <Card key={post.id} className="rounded-2xl border-border/50 bg-gradient-to-br from-card to-card/80">
+                <CardContent className="p-4 flex gap-4">
+                  <span className={`text-2xl font-bold w-8 text-center flex-shrink-0 ${
+                    index < 3 ? 'text-orange-500' : 'text-muted-foreground'
+                  }`}>
+                    {index + 1}
+                  </span>
+                  <div className="flex-1 min-w-0 space-y-3">
+                    <div className="flex items-center gap-3">
+                      <Avatar className="w-8 h-8">
+                        <AvatarImage src={post.author_avatar_url || ''} />
+                        <AvatarFallback className="bg-gradient-to-br from-orange-100 to-red-100 text-orange-700 text-xs">
+                          {post.author_name?.charAt(0).toUpperCase() || 'U'}
+                        </AvatarFallback>
+                      </Avatar>
+                      <div className="min-w-0">
+                        <p className="text-sm font-semibold truncate">{post.author_name || 'Anonymous'}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {formatDistanceToNow(new Date(post.created_at), { addSuffix: true })}
+                        </p>
+                      </div>
+                    </div>
+                    <p className="text-sm leading-relaxed line-clamp-4">
+                      <RichText text={post.content} />
+                    </p>
+                    {post.image_url && (
+                      <img
+                        src={post.image_url}
+                        alt="Post content"
+                        className="w-full max-h-64 object-cover rounded-xl"
+                      />
+                    )}
+                    <div className="flex flex-wrap gap-2">
+                      <Badge variant="secondary" className="rounded-full">
+                        <Heart className="w-3 h-3 mr-1" />
+                        {post.likes}
+                      </Badge>
+                      <Badge variant="secondary" className="rounded-full">
+                        <MessageCircle className="w-3 h-3 mr-1" />
+                        {post.comment_count}
+                      </Badge>
+                      <Badge variant="secondary" className="rounded-full">
+                        <Users className="w-3 h-3 mr-1" />
+                        {post.unique_engagers} people
+                      </Badge>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+
+            {hasMore && (
+              <Button
+                variant="outline"
+                className="w-full rounded-xl"
+                onClick={loadMore}
+                disabled={loadingMore}
+              >
+                {loadingMore ? 'Loading...' : 'Load more'}
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+import { useState, useEffect, useRef } from 'react';
+import { Link, Navigate, useParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { ArrowLeft, GraduationCap, MessageCircle, UserX } from 'lucide-react';
+
+type Profile = Database['public']['Tables']['profiles']['Row'];
+
+const profileSections = [
+  { key: 'skills', label: 'Skills' },
+  { key: 'interests', label: 'Interests' },
+  { key: 'looking_for', label: 'Looking for' },
+] as const;
+
+/** Read-only profile of another student, linked from @mentions and search */
+export default function UserProfile() {
+  const { userId } = useParams<{ userId: string }>();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [matchId, setMatchId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  // Drops responses for a profile the user has already navigated away from
+  const userIdRef = useRef(userId);
+
+  useEffect(() => {
+    userIdRef.current = userId;
+    setLoading(true);
+    setProfile(null);
+    setMatchId(null);
+    fetchProfile();
+  }, [userId, user]);
+
+  const fetchProfile = async () => {
+    if (!userId) return;
+
+    const requested = userId;
+
+    // Blocked users are hidden by row level security, so they simply come back empty
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('*')
+      .eq('user_id', requested)
+      .maybeSingle();
+
+    if (userIdRef.current !== requested) return;
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to fetch profile",
+        variant: "destructive",
+      });
+    } else {
+      setProfile(data);
+    }
+
+    if (data && user) {
+      const { data: match, error: matchError } = await supabase
+        .from('matches')
+        .select('id')
+        .or(`and(user_id.eq.${user.id},matched_user_id.eq.${requested}),and(user_id.eq.${requested},matched_user_id.eq.${user.id})`)
+        .maybeSingle();
+
+      if (matchError) {
+        console.error('Error fetching match:', matchError);
+      } else if (userIdRef.current === requested) {
+        setMatchId(match?.id || null);
+      }
+    }
+
+    setLoading(false);
+  };
+
+  if (user && userId === user.id) {
+    return <Navigate to="/profile" replace />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/30 pb-20 sm:pb-6">
+      <div className="max-w-2xl mx-auto p-4 sm:p-6 space-y-6">
+        <Link to="/feed" className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground">
+          <ArrowLeft className="w-4 h-4 mr-1" />
+          Back to Feed
+        </Link>
+
+        {loading ? (
+          <Card className="animate-pulse rounded-2xl">
+            <CardContent className="p-6 flex items-center gap-4">
+              <div className="w-20 h-20 bg-muted rounded-full"></div>
+              <div className="space-y-2 flex-1">
+                <div className="h-5 bg-muted rounded w-40"></div>
+                <div className="h-4 bg-muted rounded w-28"></div>
+              </div>
+            </CardContent>
+          </Card>
+        ) : !profile ? (
+          <Card className="rounded-2xl">
+            <CardContent className="p-8 text-center">
+              <UserX className="w-12 h-12 text-muted-foreground mx-auto mb-3" />
+              <p className="text-muted-foreground">This profile isn't available.</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card className="rounded-2xl border-border/50 bg-gradient-to-br from-card to-card/80">
+            <CardContent className="p-6 space-y-6">
+              <div className="flex items-center gap-4">
+                <Avatar className="w-20 h-20 ring-2 ring-primary/20">
+                  <AvatarImage src={profile.avatar_url || ''} />
+                  <AvatarFallback className="bg-gradient-to-br from-primary to-primary/80 text-white text-2xl font-semibold">
+                    {profile.name?.charAt(0).toUpperCase() || 'U'}
+                  </AvatarFallback>
+                </Avatar>
+                <div className="flex-1 min-w-0">
+                  <h1 className="text-2xl font-bold truncate">{profile.name}</h1>
+                  {profile.course && (
+                    <p className="text-muted-foreground flex items-center gap-1">
+                      <GraduationCap className="w-4 h-4" />
+                      {profile.course}
+                    </p>
+                  )}
+                </div>
+                {matchId && (
+                  <Button asChild className="rounded-xl">
+                    <Link to={`/chat/${matchId}`}>
+                      <MessageCircle className="w-4 h-4 mr-2" />
+                      Message
+                    </Link>
+                  </Button>
+                )}
+              </div>
+
+              {profileSections.map(({ key, label }) => profile[key]?.length > 0 && (
+                <div key={key} className="space-y-2">
+                  <h2 className="text-sm font-semibold text-muted-foreground">{label}</h2>
+                  <div className="flex flex-wrap gap-2">
+                    {profile[key].map((value) => (
+                      <Badge key={value} variant="secondary" className="rounded-full">
+                        {value}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+// Integration test against the local stack from `supabase start`: mail goes to Inbucket's
+// SMTP port on the host and is read back through its API. Skipped without
+// SUPABASE_SERVICE_ROLE_KEY (printed by `supabase status`).
+import { assert, assertEquals, assertStringIncludes } from 'https://deno.land/std@0.224.0/assert/mod.ts';
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { createDigestHandler } from './digest.ts';
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL') || 'http://localhost:54321';
+const SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+const INBUCKET_URL = Deno.env.get('INBUCKET_URL') || 'http://localhost:54324';
+const INBUCKET_SMTP_PORT = Number(Deno.env.get('INBUCKET_SMTP_PORT') || 54325);
+
+interface InbucketMessage {
+  id: string;
+  subject: string;
+}
+
+// Inbucket files mail under the local part of the recipient address
+const fetchMailbox = async (mailbox: string): Promise<InbucketMessage[]> => {
+  const response = await fetch(`${INBUCKET_URL}/api/v1/mailbox/${mailbox}`);
+  assert(response.ok, `Inbucket API returned ${response.status}`);
+  return await response.json();
+};
+
+const waitForMail = async (mailbox: string) => {
+  for (let attempt = 0; attempt < 20; attempt++) {
+    const messages = await fetchMailbox(mailbox);
+    if (messages.length > 0) return messages;
+    await new Promise(resolve => setTimeout(resolve, 250));
+  }
+  return [];
+};
+
+Deno.test({
+  name: 'emails a daily digest through Inbucket and marks the notification as emailed',
+  ignore: !SERVICE_ROLE_KEY,
+  // supabase-js keeps timers and connections alive past the end of the test
+  sanitizeOps: false,
+  sanitizeResources: false,
+  fn: async () => {
+    const supabase = createClient(SUPABASE_URL, SERVICE_ROLE_KEY!, {
+      auth: { persistSession: false },
+    });
+
+    const mailbox = `digest-test-${crypto.randomUUID().slice(0, 8)}`;
+    const userIds: string[] = [];
+
+    const createUser = async (email: string, name: string) => {
+      const { data, error } = await supabase.auth.admin.createUser({
+        email,
+        email_confirm: true,
+        user_metadata: { full_name: name },
+      });
+      if (error) throw error;
+      userIds.push(data.user.id);
+      return data.user.id;
+    };
+
+    try {
+      const recipientId = await createUser(`${mailbox}@example.com`, 'Digest Recipient');
+      const actorId = await createUser(`${mailbox}-actor@example.com`, 'Digest Actor');
+
+      const { error: preferencesError } = await supabase
+        .from('notification_preferences')
+        .upsert({ user_id: recipientId, likes: 'daily' }, { onConflict: 'user_id' });
+      if (preferencesError) throw preferencesError;
+
+      const { data: post, error: postError } = await supabase
+        .from('posts')
+        .insert({ user_id: recipientId, content: 'Digest test post <3' })
+        .select('id')
+        .single();
+      if (postError) throw postError;
+
+      const { data: notification, error: notificationError } = await supabase
+        .from('notifications')
+        .insert({ user_id: recipientId, actor_id: actorId, type: 'like', post_id: post.id })
+        .select('id')
+        .single();
+      if (notificationError) throw notificationError;
+
+      const handler = createDigestHandler({
+        supabaseUrl: SUPABASE_URL,
+        serviceRoleKey: SERVICE_ROLE_KEY!,
+        siteUrl: 'http://localhost:8080',
+        smtp: {
+          host: 'localhost',
+          port: INBUCKET_SMTP_PORT,
+          tls: false,
+          from: 'SRM Collab <notifications@srmcollab.local>',
+        },
+      });
+
+      const response = await handler(new Request('http://localhost/send-notification-digest', {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${SERVICE_ROLE_KEY}` },
+        body: JSON.stringify({ frequency: 'daily' }),
+      }));
+      assertEquals(response.status, 200);
+
+      const result = await response.json();
+      assertEquals(result.frequency, 'daily');
+      assert(result.sent >= 1, `expected at least one digest, got ${JSON.stringify(result)}`);
+
+      const messages = await waitForMail(mailbox);
+      assertEquals(messages.length, 1);
+      assertEquals(messages[0].subject, 'You have 1 new notification on SRM Collab');
+
+      const messageResponse = await fetch(`${INBUCKET_URL}/api/v1/mailbox/${mailbox}/${messages[0].id}`);
+      const message = await messageResponse.json();
+      assertStringIncludes(message.body.text, 'Digest Actor liked your post');
+      assertStringIncludes(message.body.text, `http://localhost:8080/posts/${post.id}`);
+
+      const { data: emailed, error: emailedError } = await supabase
+        .from('notifications')
+        .select('emailed_at')
+        .eq('id', notification.id)
+        .single();
+      if (emailedError) throw emailedError;
+      assert(emailed.emailed_at, 'emailed_at should be set once the digest is sent');
+    } finally {
+      await fetch(`${INBUCKET_URL}/api/v1/mailbox/${mailbox}`, { method: 'DELETE' });
+      // Profiles, posts and notifications cascade from the users
+      for (const userId of userIds) {
+        await supabase.auth.admin.deleteUser(userId);
+      }
+    }
+  },
+});
+
+Deno.test('rejects requests without the service role key', async () => {
+  const handler = createDigestHandler({
+    supabaseUrl: SUPABASE_URL,
+    serviceRoleKey: 'service-role-key',
+    siteUrl: 'http://localhost:8080',
+    smtp: { host: 'localhost', port: INBUCKET_SMTP_PORT, tls: false, from: 'test@example.com' },
+  });
+
+  const response = await handler(new Request('http://localhost/send-notification-digest', {
+    method: 'POST',
+    headers: { Authorization: 'Bearer some-user-jwt' },
+    body: JSON.stringify({ frequency: 'daily' }),
+  }));
+
+  assertEquals(response.status, 401);
+});
+
+Deno.test('rejects unknown frequencies', async () => {
+  const handler = createDigestHandler({
+    supabaseUrl: SUPABASE_URL,
+    serviceRoleKey: 'service-role-key',
+    siteUrl: 'http://localhost:8080',
+    smtp: { host: 'localhost', port: INBUCKET_SMTP_PORT, tls: false, from: 'test@example.com' },
+  });
+
+  const response = await handler(new Request('http://localhost/send-notification-digest', {
+    method: 'POST',
+    headers: { Authorization: 'Bearer service-role-key' },
+    body: JSON.stringify({ frequency: 'hourly' }),
+  }));
+
+  assertEquals(response.status, 400);
+  assertEquals((await response.json()).error, 'frequency must be "daily" or "weekly"');
+});
@@ -0,0 +1,113 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { SMTPClient } from 'https://deno.land/x/denomailer@1.6.0/mod.ts';
+import { renderDigest, type DigestFrequency, type DigestItem } from './render.ts';
+
+export interface DigestConfig {
+  supabaseUrl: string;
+  serviceRoleKey: string;
+  /** Base URL for links in the email, without a trailing slash */
+  siteUrl: string;
+  smtp: {
+    host: string;
+    port: number;
+    user?: string;
+    pass?: string;
+    tls: boolean;
+    from: string;
+  };
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+const groupByUser = (items: DigestItem[]) => {
+  const byUser = new Map<string, DigestItem[]>();
+  for (const item of items) {
+    byUser.set(item.user_id, [...(byUser.get(item.user_id) || []), item]);
+  }
+  return byUser;
+};
+
+/** The request handler, kept apart from Deno.serve so tests can call it directly */
+export const createDigestHandler = (config: DigestConfig) => async (req: Request) => {
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  // Any signed-in user has a valid JWT, so only accept the service role key itself
+  if (req.headers.get('Authorization') !== `Bearer ${config.serviceRoleKey}`) {
+    return json({ error: 'Unauthorized' }, 401);
+  }
+
+  const { frequency } = await req.json().catch(() => ({}));
+  if (frequency !== 'daily' && frequency !== 'weekly') {
+    return json({ error: 'frequency must be "daily" or "weekly"' }, 400);
+  }
+
+  const supabase = createClient(config.supabaseUrl, config.serviceRoleKey, {
+    auth: { persistSession: false },
+  });
+
+  const { data, error } = await supabase.rpc('get_notification_digest', { _frequency: frequency });
+
+  if (error) {
+    console.error('Failed to fetch digest notifications:', error);
+    return json({ error: 'Failed to fetch digest notifications' }, 500);
+  }
+
+  const digests = groupByUser((data || []) as DigestItem[]);
+  if (digests.size === 0) {
+    return json({ frequency, sent: 0, failed: 0 });
+  }
+
+  const { smtp: smtpConfig } = config;
+  const smtp = new SMTPClient({
+    connection: {
+      hostname: smtpConfig.host,
+      port: smtpConfig.port,
+      tls: smtpConfig.tls,
+      auth: smtpConfig.user ? { username: smtpConfig.user, password: smtpConfig.pass || '' } : undefined,
+    },
+    // Inbucket speaks plain SMTP without STARTTLS
+    debug: { allowUnsecure: !smtpConfig.tls, noStartTLS: !smtpConfig.tls },
+  });
+
+  let sent = 0;
+  let failed = 0;
+
+  for (const items of digests.values()) {
+    const { subject, html, text } = renderDigest(items, frequency as DigestFrequency, config.siteUrl);
+
+    try {
+      await smtp.send({
+        from: smtpConfig.from,
+        to: items[0].email,
+        subject,
+        content: text,
+        html,
+      });
+    } catch (sendError) {
+      console.error(`Failed to send digest to ${items[0].user_id}:`, sendError);
+      failed++;
+      continue;
+    }
+
+    // Only sent notifications are marked, so failures are retried on the next run
+    const { error: markError } = await supabase.rpc('mark_notifications_emailed', {
+      _ids: items.map(item => item.notification_id),
+    });
+
+    if (markError) {
+      console.error(`Failed to mark digest for ${items[0].user_id} as emailed:`, markError);
+    }
+
+    sent++;
+  }
+
+  await smtp.close();
+
+  return json({ frequency, sent, failed });
+};
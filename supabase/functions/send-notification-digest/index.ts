@@ -0,0 +1,36 @@
+// Emails each user a digest of the notifications they have not seen yet, for the categories
+// they set to a daily or weekly digest. Called by pg_cron with {"frequency": "daily"} or
+// {"frequency": "weekly"} and the service role key.
+//
+// Locally, mail goes to the Inbucket SMTP catcher that ships with `supabase start`:
+//   supabase functions serve send-notification-digest --env-file supabase/functions/.env.example
+//   curl -X POST http://localhost:54321/functions/v1/send-notification-digest \
+//     -H "Authorization: Bearer <service role key>" -d '{"frequency":"daily"}'
+// and read the result at http://localhost:54324.
+//
+// Tests, with `supabase start` running for the integration test (it is skipped without
+// SUPABASE_SERVICE_ROLE_KEY):
+//   SUPABASE_SERVICE_ROLE_KEY=<service role key> deno test --allow-net --allow-env supabase/functions/send-notification-digest/
+import { createDigestHandler } from './digest.ts';
+
+const SMTP_HOST = Deno.env.get('SMTP_HOST');
+
+// There is no host that works everywhere: locally Inbucket is only reachable by its
+// container name, see supabase/functions/.env.example
+if (!SMTP_HOST) {
+  throw new Error('SMTP_HOST is not set');
+}
+
+Deno.serve(createDigestHandler({
+  supabaseUrl: Deno.env.get('SUPABASE_URL')!,
+  serviceRoleKey: Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+  siteUrl: (Deno.env.get('SITE_URL') || 'http://localhost:8080').replace(/\/$/, ''),
+  smtp: {
+    host: SMTP_HOST,
+    port: Number(Deno.env.get('SMTP_PORT') || 587),
+    user: Deno.env.get('SMTP_USER'),
+    pass: Deno.env.get('SMTP_PASS'),
+    tls: Deno.env.get('SMTP_TLS') === 'true',
+    from: Deno.env.get('SMTP_FROM') || 'SRM Collab <notifications@srmcollab.local>',
+  },
+}));
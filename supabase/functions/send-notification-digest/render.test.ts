@@ -0,0 +1,106 @@
+import { assert, assertEquals, assertStringIncludes } from 'https://deno.land/std@0.224.0/assert/mod.ts';
+import { renderDigest, type DigestItem } from './render.ts';
+
+const SITE_URL = 'https://srmcollab.test';
+
+let nextId = 0;
+
+const makeItem = (overrides: Partial<DigestItem> = {}): DigestItem => ({
+  notification_id: `notification-${++nextId}`,
+  user_id: 'user-1',
+  email: 'ada@example.com',
+  recipient_name: 'Ada',
+  type: 'like',
+  actor_name: 'Grace',
+  post_id: 'post-1',
+  poll_id: null,
+  match_id: null,
+  conversation_id: null,
+  comment_id: null,
+  message_id: null,
+  context: null,
+  created_at: '2025-09-18T08:00:00Z',
+  ...overrides,
+});
+
+Deno.test('subject counts notifications with the right plural', () => {
+  assertEquals(
+    renderDigest([makeItem()], 'daily', SITE_URL).subject,
+    'You have 1 new notification on SRM Collab',
+  );
+  assertEquals(
+    renderDigest([makeItem(), makeItem(), makeItem()], 'weekly', SITE_URL).subject,
+    'You have 3 new notifications on SRM Collab',
+  );
+});
+
+Deno.test('greets the recipient and names the period', () => {
+  const daily = renderDigest([makeItem()], 'daily', SITE_URL);
+  assertStringIncludes(daily.text, 'Hi Ada,');
+  assertStringIncludes(daily.text, 'on SRM Collab today.');
+
+  const weekly = renderDigest([makeItem({ recipient_name: null })], 'weekly', SITE_URL);
+  assertStringIncludes(weekly.text, 'Hi there,');
+  assertStringIncludes(weekly.text, 'on SRM Collab this week.');
+});
+
+Deno.test('escapes names and context in the HTML body', () => {
+  const { html, text } = renderDigest([
+    makeItem({
+      recipient_name: 'Ada <b>',
+      type: 'comment',
+      actor_name: '<script>alert("x")</script>',
+      context: `Tom & Jerry's "plan" <img>`,
+    }),
+  ], 'daily', SITE_URL);
+
+  assert(!html.includes('<script>'));
+  assert(!html.includes('<img>'));
+  assertStringIncludes(html, 'Hi Ada &lt;b&gt;,');
+  assertStringIncludes(html, '&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt;');
+  assertStringIncludes(html, 'Tom &amp; Jerry&#39;s &quot;plan&quot; &lt;img&gt;');
+
+  // The plain text part is not HTML, so it keeps the raw characters
+  assertStringIncludes(text, '<script>alert("x")</script> commented on your post');
+});
+
+Deno.test('shows mentions in context as plain @names', () => {
+  const { html } = renderDigest([
+    makeItem({
+      type: 'mention',
+      context: 'Thanks @[Grace Hopper](0b6a4c3e-9d2f-4e1a-8b7c-5f3e2d1a0c9b)!',
+    }),
+  ], 'daily', SITE_URL);
+
+  assertStringIncludes(html, 'Thanks @Grace Hopper!');
+  assert(!html.includes('0b6a4c3e'));
+});
+
+Deno.test('groups notifications by type in section order with counts', () => {
+  const { html, text } = renderDigest([
+    makeItem({ type: 'like' }),
+    makeItem({ type: 'poll_vote', post_id: null, poll_id: 'poll-1' }),
+    makeItem({ type: 'like' }),
+    makeItem({ type: 'message', post_id: null, conversation_id: 'conversation-1' }),
+    makeItem({ type: 'mention', comment_id: 'comment-1' }),
+  ], 'daily', SITE_URL);
+
+  const sections = [...text.matchAll(/^(\w[\w ]*) \((\d+)\)$/gm)].map(([, title, count]) => `${title} ${count}`);
+  assertEquals(sections, ['Mentions 1', 'Messages 1', 'Likes 2', 'Poll votes 1']);
+
+  assertStringIncludes(html, 'Likes (2)');
+  assertStringIncludes(text, `- Grace mentioned you in a comment: ${SITE_URL}/posts/post-1`);
+  assertStringIncludes(text, `- Grace sent you a message: ${SITE_URL}/chat/conversation-1`);
+  assertStringIncludes(text, `- Grace voted on your poll: ${SITE_URL}/posts/poll-1`);
+  assert(!text.includes('New matches'));
+});
+
+Deno.test('caps each section and says how many more there are', () => {
+  const items = Array.from({ length: 13 }, () => makeItem({ type: 'like' }));
+  const { html, text } = renderDigest(items, 'daily', SITE_URL);
+
+  assertStringIncludes(text, 'Likes (13)');
+  assertEquals(text.match(/liked your post/g)?.length, 10);
+  assertStringIncludes(text, 'and 3 more');
+  assertStringIncludes(html, 'and 3 more');
+});
@@ -0,0 +1,164 @@
+export type DigestFrequency = 'daily' | 'weekly';
+
+/** One row of public.get_notification_digest */
+export interface DigestItem {
+  notification_id: string;
+  user_id: string;
+  email: string;
+  recipient_name: string | null;
+  type: string;
+  actor_name: string | null;
+  post_id: string | null;
+  poll_id: string | null;
+  match_id: string | null;
+  conversation_id: string | null;
+  comment_id: string | null;
+  message_id: string | null;
+  context: string | null;
+  created_at: string;
+}
+
+export interface RenderedDigest {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+// Sections in the order they appear in the email
+const SECTIONS = [
+  { type: 'mention', title: 'Mentions' },
+  { type: 'message', title: 'Messages' },
+  { type: 'match', title: 'New matches' },
+  { type: 'comment', title: 'Comments' },
+  { type: 'like', title: 'Likes' },
+  { type: 'poll_vote', title: 'Poll votes' },
+];
+
+const MAX_ITEMS_PER_SECTION = 10;
+const MAX_CONTEXT_LENGTH = 120;
+
+// Same markup as MENTION_PATTERN in src/lib/mentions.ts
+const MENTION_PATTERN = /@\[([^\]]{1,100})\]\([0-9a-f-]{36}\)/g;
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const getContext = (item: DigestItem) => {
+  if (!item.context) return null;
+
+  const plain = item.context.replace(MENTION_PATTERN, '@$1').replace(/\s+/g, ' ').trim();
+  return plain.length > MAX_CONTEXT_LENGTH ? `${plain.slice(0, MAX_CONTEXT_LENGTH - 1)}…` : plain;
+};
+
+const getDescription = (item: DigestItem) => {
+  switch (item.type) {
+    case 'like':
+      return 'liked your post';
+    case 'comment':
+      return 'commented on your post';
+    case 'poll_vote':
+      return 'voted on your poll';
+    case 'match':
+      return 'matched with you';
+    case 'message':
+      return 'sent you a message';
+    case 'mention':
+      if (item.message_id) return 'mentioned you in a chat';
+      if (item.comment_id) return 'mentioned you in a comment';
+      return 'mentioned you in a post';
+    default:
+      return 'sent you a notification';
+  }
+};
+
+// Mirrors getNotificationLink in src/pages/Notifications.tsx
+const getLink = (item: DigestItem, siteUrl: string) => {
+  if (item.conversation_id) return `${siteUrl}/chat/${item.conversation_id}`;
+  if (item.match_id) return `${siteUrl}/chat/${item.match_id}`;
+  if (item.post_id) return `${siteUrl}/posts/${item.post_id}`;
+  if (item.poll_id) return `${siteUrl}/posts/${item.poll_id}`;
+  return `${siteUrl}/notifications`;
+};
+
+/** The digest email for one user; `items` are that user's unseen notifications, newest first */
+export const renderDigest = (items: DigestItem[], frequency: DigestFrequency, siteUrl: string): RenderedDigest => {
+  const name = items[0]?.recipient_name || 'there';
+  const period = frequency === 'daily' ? 'today' : 'this week';
+  const subject = `You have ${items.length} new ${items.length === 1 ? 'notification' : 'notifications'} on SRM Collab`;
+
+  const htmlSections: string[] = [];
+  const textSections: string[] = [];
+
+  for (const section of SECTIONS) {
+    const sectionItems = items.filter(item => item.type === section.type);
+    if (sectionItems.length === 0) continue;
+
+    const shown = sectionItems.slice(0, MAX_ITEMS_PER_SECTION);
+    const hiddenCount = sectionItems.length - shown.length;
+
+    const rows = shown.map(item => {
+      const actor = escapeHtml(item.actor_name || 'Someone');
+      const context = getContext(item);
+
+      return `
+        <tr>
+          <td style="padding:10px 0;border-bottom:1px solid #eee;">
+            <a href="${escapeHtml(getLink(item, siteUrl))}" style="color:#111;text-decoration:none;">
+              <strong>${actor}</strong> ${getDescription(item)}
+            </a>
+            ${context ? `<div style="color:#666;font-size:13px;margin-top:4px;">${escapeHtml(context)}</div>` : ''}
+          </td>
+        </tr>`;
+    });
+
+    htmlSections.push(`
+      <h2 style="font-size:16px;margin:24px 0 8px;">${section.title} (${sectionItems.length})</h2>
+      <table role="presentation" width="100%" cellspacing="0" cellpadding="0">${rows.join('')}
+      </table>
+      ${hiddenCount > 0 ? `<p style="color:#666;font-size:13px;">and ${hiddenCount} more</p>` : ''}`);
+
+    textSections.push([
+      `${section.title} (${sectionItems.length})`,
+      ...shown.map(item => `- ${item.actor_name || 'Someone'} ${getDescription(item)}: ${getLink(item, siteUrl)}`),
+      ...(hiddenCount > 0 ? [`  and ${hiddenCount} more`] : []),
+    ].join('\n'));
+  }
+
+  const settingsUrl = `${siteUrl}/notifications`;
+
+  const html = `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f6f6f9;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,sans-serif;">
+    <div style="max-width:560px;margin:0 auto;background:#fff;border-radius:16px;padding:24px;">
+      <h1 style="font-size:20px;margin:0 0 8px;">Hi ${escapeHtml(name)},</h1>
+      <p style="color:#444;margin:0;">Here's what you missed on SRM Collab ${period}.</p>
+      ${htmlSections.join('')}
+      <p style="margin-top:24px;">
+        <a href="${escapeHtml(settingsUrl)}" style="display:inline-block;background:#7c3aed;color:#fff;padding:10px 16px;border-radius:10px;text-decoration:none;">
+          Open notifications
+        </a>
+      </p>
+      <p style="color:#999;font-size:12px;margin-top:24px;">
+        You get this email because of your notification settings. Change them on the notifications page.
+      </p>
+    </div>
+  </body>
+</html>`;
+
+  const text = [
+    `Hi ${name},`,
+    '',
+    `Here's what you missed on SRM Collab ${period}.`,
+    '',
+    textSections.join('\n\n'),
+    '',
+    `Open notifications: ${settingsUrl}`,
+  ].join('\n');
+
+  return { subject, html, text };
+};
@@ -0,0 +1,73 @@
+-- Create post_likes table so each user can like a post once
+CREATE TABLE public.post_likes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  post_id UUID NOT NULL REFERENCES public.posts(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(post_id, user_id)
+);
+
+CREATE INDEX idx_post_likes_user_id ON public.post_likes(user_id);
+
+-- Enable RLS on post_likes
+ALTER TABLE public.post_likes ENABLE ROW LEVEL SECURITY;
+
+-- Create post_likes policies
+CREATE POLICY "Post likes are viewable by everyone" 
+ON public.post_likes 
+FOR SELECT 
+USING (true);
+
+CREATE POLICY "Users can like posts" 
+ON public.post_likes 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can remove their own likes" 
+ON public.post_likes 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+-- Keep posts.likes in sync with post_likes rows
+CREATE OR REPLACE FUNCTION public.sync_post_likes_count()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE public.posts SET likes = likes + 1 WHERE id = NEW.post_id;
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.posts SET likes = GREATEST(likes - 1, 0) WHERE id = OLD.post_id;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+CREATE TRIGGER sync_post_likes_count_on_insert
+  AFTER INSERT ON public.post_likes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_post_likes_count();
+
+CREATE TRIGGER sync_post_likes_count_on_delete
+  AFTER DELETE ON public.post_likes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_post_likes_count();
+
+-- Only the sync trigger may change posts.likes; direct client updates keep the old value
+CREATE OR REPLACE FUNCTION public.protect_post_likes_count()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF pg_trigger_depth() < 2 THEN
+    NEW.likes = OLD.likes;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = '';
+
+CREATE TRIGGER protect_posts_likes
+  BEFORE UPDATE OF likes ON public.posts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_post_likes_count();
+
+-- Enable realtime for post_likes
+ALTER TABLE public.post_likes REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.post_likes;
@@ -0,0 +1,118 @@
+-- Create poll_votes table: one vote per user per poll
+CREATE TABLE public.poll_votes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  poll_id UUID NOT NULL REFERENCES public.polls(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  option TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(poll_id, user_id)
+);
+
+-- Enable RLS on poll_votes
+ALTER TABLE public.poll_votes ENABLE ROW LEVEL SECURITY;
+
+-- Votes are private; they are written only through cast_poll_vote/withdraw_poll_vote
+CREATE POLICY "Users can view their own poll votes" 
+ON public.poll_votes 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_poll_votes_updated_at
+BEFORE UPDATE ON public.poll_votes
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Keep the polls.votes tally in sync with poll_votes rows
+CREATE OR REPLACE FUNCTION public.sync_poll_votes_tally()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    UPDATE public.polls
+    SET votes = jsonb_set(
+      COALESCE(votes, '{}'::jsonb),
+      ARRAY[OLD.option],
+      to_jsonb(GREATEST(COALESCE((votes->>OLD.option)::integer, 0) - 1, 0))
+    )
+    WHERE id = OLD.poll_id;
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    UPDATE public.polls
+    SET votes = jsonb_set(
+      COALESCE(votes, '{}'::jsonb),
+      ARRAY[NEW.option],
+      to_jsonb(COALESCE((votes->>NEW.option)::integer, 0) + 1)
+    )
+    WHERE id = NEW.poll_id;
+    RETURN NEW;
+  END IF;
+
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+CREATE TRIGGER sync_poll_votes_tally
+  AFTER INSERT OR UPDATE OR DELETE ON public.poll_votes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_poll_votes_tally();
+
+-- Only the tally trigger may change polls.votes; direct client updates keep the old value
+CREATE OR REPLACE FUNCTION public.protect_poll_votes_tally()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF pg_trigger_depth() < 2 THEN
+    NEW.votes = OLD.votes;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = '';
+
+CREATE TRIGGER protect_polls_votes
+  BEFORE UPDATE OF votes ON public.polls
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_poll_votes_tally();
+
+-- Cast or change the current user's vote, returning the updated tally
+CREATE OR REPLACE FUNCTION public.cast_poll_vote(_poll_id UUID, _option TEXT)
+RETURNS JSONB AS $$
+DECLARE
+  _votes JSONB;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.polls WHERE id = _poll_id AND _option = ANY(options)
+  ) THEN
+    RAISE EXCEPTION 'Invalid poll option';
+  END IF;
+
+  INSERT INTO public.poll_votes (poll_id, user_id, option)
+  VALUES (_poll_id, auth.uid(), _option)
+  ON CONFLICT (poll_id, user_id)
+  DO UPDATE SET option = EXCLUDED.option
+  WHERE public.poll_votes.option IS DISTINCT FROM EXCLUDED.option;
+
+  SELECT votes INTO _votes FROM public.polls WHERE id = _poll_id;
+  RETURN COALESCE(_votes, '{}'::jsonb);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+-- Withdraw the current user's vote, returning the updated tally
+CREATE OR REPLACE FUNCTION public.withdraw_poll_vote(_poll_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  _votes JSONB;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  DELETE FROM public.poll_votes WHERE poll_id = _poll_id AND user_id = auth.uid();
+
+  SELECT votes INTO _votes FROM public.polls WHERE id = _poll_id;
+  RETURN COALESCE(_votes, '{}'::jsonb);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
@@ -0,0 +1,169 @@
+-- Poll lifecycle: deadlines, manual closing, multiple choice and hidden results
+ALTER TABLE public.polls
+  ADD COLUMN closes_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN closed_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN allow_multiple BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN max_selections INTEGER NOT NULL DEFAULT 1,
+  ADD COLUMN hide_results BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.polls
+  ADD CONSTRAINT polls_options_count CHECK (array_length(options, 1) BETWEEN 2 AND 10),
+  ADD CONSTRAINT polls_max_selections_valid CHECK (
+    max_selections >= 1
+    AND max_selections <= array_length(options, 1)
+    AND (allow_multiple OR max_selections = 1)
+  );
+
+-- A user may now hold one vote per option, up to the poll's max_selections
+ALTER TABLE public.poll_votes DROP CONSTRAINT poll_votes_poll_id_user_id_key;
+ALTER TABLE public.poll_votes ADD CONSTRAINT poll_votes_poll_id_user_id_option_key UNIQUE (poll_id, user_id, option);
+
+-- Whether a poll still accepts votes
+CREATE OR REPLACE FUNCTION public.is_poll_open(_poll_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.polls
+    WHERE id = _poll_id
+      AND closed_at IS NULL
+      AND (closes_at IS NULL OR closes_at > now())
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = '';
+
+-- Hidden-result polls keep polls.votes empty; their tally is served by get_poll_results once closed
+CREATE OR REPLACE FUNCTION public.sync_poll_votes_tally()
+RETURNS TRIGGER AS $$
+DECLARE
+  _poll_id UUID := COALESCE(NEW.poll_id, OLD.poll_id);
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.polls WHERE id = _poll_id AND hide_results) THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    UPDATE public.polls
+    SET votes = jsonb_set(
+      COALESCE(votes, '{}'::jsonb),
+      ARRAY[OLD.option],
+      to_jsonb(GREATEST(COALESCE((votes->>OLD.option)::integer, 0) - 1, 0))
+    )
+    WHERE id = OLD.poll_id;
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    UPDATE public.polls
+    SET votes = jsonb_set(
+      COALESCE(votes, '{}'::jsonb),
+      ARRAY[NEW.option],
+      to_jsonb(COALESCE((votes->>NEW.option)::integer, 0) + 1)
+    )
+    WHERE id = NEW.poll_id;
+    RETURN NEW;
+  END IF;
+
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+-- Tally visible to the current user: empty while a hidden-result poll is still open
+CREATE OR REPLACE FUNCTION public.get_poll_results(_poll_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  _poll public.polls%ROWTYPE;
+  _votes JSONB;
+BEGIN
+  SELECT * INTO _poll FROM public.polls WHERE id = _poll_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Poll not found';
+  END IF;
+
+  IF NOT _poll.hide_results THEN
+    RETURN COALESCE(_poll.votes, '{}'::jsonb);
+  END IF;
+
+  IF public.is_poll_open(_poll_id) THEN
+    RETURN '{}'::jsonb;
+  END IF;
+
+  SELECT COALESCE(jsonb_object_agg(option, total), '{}'::jsonb) INTO _votes
+  FROM (
+    SELECT option, count(*) AS total
+    FROM public.poll_votes
+    WHERE poll_id = _poll_id
+    GROUP BY option
+  ) tally;
+
+  RETURN _votes;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = '';
+
+-- Replace the current user's selection on a poll, returning the visible tally
+DROP FUNCTION public.cast_poll_vote(UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION public.cast_poll_vote(_poll_id UUID, _options TEXT[])
+RETURNS JSONB AS $$
+DECLARE
+  _poll public.polls%ROWTYPE;
+  _selection TEXT[];
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO _poll FROM public.polls WHERE id = _poll_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Poll not found';
+  END IF;
+
+  IF NOT public.is_poll_open(_poll_id) THEN
+    RAISE EXCEPTION 'Poll is closed';
+  END IF;
+
+  SELECT COALESCE(array_agg(DISTINCT option), '{}') INTO _selection FROM unnest(_options) AS option;
+
+  IF cardinality(_selection) = 0 THEN
+    RAISE EXCEPTION 'Select at least one option';
+  END IF;
+
+  IF cardinality(_selection) > _poll.max_selections THEN
+    RAISE EXCEPTION 'Select at most % options', _poll.max_selections;
+  END IF;
+
+  IF NOT _selection <@ _poll.options THEN
+    RAISE EXCEPTION 'Invalid poll option';
+  END IF;
+
+  DELETE FROM public.poll_votes
+  WHERE poll_id = _poll_id
+    AND user_id = auth.uid()
+    AND NOT (option = ANY(_selection));
+
+  INSERT INTO public.poll_votes (poll_id, user_id, option)
+  SELECT _poll_id, auth.uid(), option FROM unnest(_selection) AS option
+  ON CONFLICT (poll_id, user_id, option) DO NOTHING;
+
+  RETURN public.get_poll_results(_poll_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+-- Withdrawing is only possible while the poll is open
+CREATE OR REPLACE FUNCTION public.withdraw_poll_vote(_poll_id UUID)
+RETURNS JSONB AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT public.is_poll_open(_poll_id) THEN
+    RAISE EXCEPTION 'Poll is closed';
+  END IF;
+
+  DELETE FROM public.poll_votes WHERE poll_id = _poll_id AND user_id = auth.uid();
+
+  RETURN public.get_poll_results(_poll_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+-- Broadcast poll changes (closing, tallies) to open feeds
+ALTER PUBLICATION supabase_realtime ADD TABLE public.polls;
@@ -0,0 +1,189 @@
+-- Create connection_requests table: a match only exists once both sides agree
+CREATE TABLE public.connection_requests (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  sender_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  recipient_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'declined')),
+  responded_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(sender_id, recipient_id),
+  CHECK (sender_id <> recipient_id)
+);
+
+CREATE INDEX idx_connection_requests_recipient ON public.connection_requests(recipient_id, status);
+
+-- Enable RLS on connection_requests
+ALTER TABLE public.connection_requests ENABLE ROW LEVEL SECURITY;
+
+-- Requests are written only through send_connection_request/respond_to_connection_request
+CREATE POLICY "Users can view their own connection requests" 
+ON public.connection_requests 
+FOR SELECT 
+USING (auth.uid() = sender_id OR auth.uid() = recipient_id);
+
+CREATE TRIGGER update_connection_requests_updated_at
+BEFORE UPDATE ON public.connection_requests
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Move existing one-sided matches into pending requests. A match is kept when the
+-- other side also swiped right or has already replied in its chat.
+INSERT INTO public.connection_requests (sender_id, recipient_id, status, responded_at)
+SELECT m.user_id, m.matched_user_id,
+  CASE WHEN reciprocal.id IS NOT NULL OR replied.match_id IS NOT NULL THEN 'accepted' ELSE 'pending' END,
+  CASE WHEN reciprocal.id IS NOT NULL OR replied.match_id IS NOT NULL THEN now() END
+FROM public.matches m
+LEFT JOIN public.matches reciprocal
+  ON reciprocal.user_id = m.matched_user_id AND reciprocal.matched_user_id = m.user_id
+LEFT JOIN (
+  SELECT DISTINCT match_id, sender_id FROM public.messages
+) replied ON replied.match_id = m.id AND replied.sender_id = m.matched_user_id
+ON CONFLICT (sender_id, recipient_id) DO NOTHING;
+
+DELETE FROM public.matches m
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.connection_requests r
+  WHERE r.status = 'accepted'
+    AND ((r.sender_id = m.user_id AND r.recipient_id = m.matched_user_id)
+      OR (r.sender_id = m.matched_user_id AND r.recipient_id = m.user_id))
+);
+
+-- Where both sides swiped right there are two rows; drop the newer one if its chat is empty
+DELETE FROM public.matches m
+USING public.matches other
+WHERE other.user_id = m.matched_user_id
+  AND other.matched_user_id = m.user_id
+  AND (other.created_at, other.id) < (m.created_at, m.id)
+  AND NOT EXISTS (SELECT 1 FROM public.messages WHERE match_id = m.id);
+
+-- Matches are now created only by the connection request functions
+DROP POLICY "Users can create matches" ON public.matches;
+
+-- Whether the current user is one of the two participants of a match
+CREATE OR REPLACE FUNCTION public.is_match_participant(_match_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.matches
+    WHERE id = _match_id
+      AND (user_id = auth.uid() OR matched_user_id = auth.uid())
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = '';
+
+-- Messages are limited to the participants of an accepted match
+DROP POLICY "Users can view messages in their matches" ON public.messages;
+DROP POLICY "Users can send messages in their matches" ON public.messages;
+
+CREATE POLICY "Users can view messages in their matches" 
+ON public.messages 
+FOR SELECT 
+USING ((auth.uid() = sender_id OR auth.uid() = receiver_id) AND public.is_match_participant(match_id));
+
+CREATE POLICY "Users can send messages in their matches" 
+ON public.messages 
+FOR INSERT 
+WITH CHECK (
+  auth.uid() = sender_id
+  AND EXISTS (
+    SELECT 1 FROM public.matches
+    WHERE id = match_id
+      AND ((user_id = sender_id AND matched_user_id = receiver_id)
+        OR (user_id = receiver_id AND matched_user_id = sender_id))
+  )
+);
+
+-- Create the match row for an accepted pair, reusing one that already exists
+CREATE OR REPLACE FUNCTION public.create_mutual_match(_sender_id UUID, _recipient_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  _match_id UUID;
+BEGIN
+  SELECT id INTO _match_id FROM public.matches
+  WHERE (user_id = _sender_id AND matched_user_id = _recipient_id)
+     OR (user_id = _recipient_id AND matched_user_id = _sender_id)
+  LIMIT 1;
+
+  IF _match_id IS NULL THEN
+    INSERT INTO public.matches (user_id, matched_user_id)
+    VALUES (_sender_id, _recipient_id)
+    RETURNING id INTO _match_id;
+  END IF;
+
+  RETURN _match_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+REVOKE EXECUTE ON FUNCTION public.create_mutual_match(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Swipe right: accepts a pending request from the other side, otherwise sends one
+CREATE OR REPLACE FUNCTION public.send_connection_request(_recipient_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  _incoming public.connection_requests%ROWTYPE;
+  _match_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF _recipient_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot connect with yourself';
+  END IF;
+
+  SELECT * INTO _incoming FROM public.connection_requests
+  WHERE sender_id = _recipient_id AND recipient_id = auth.uid()
+  FOR UPDATE;
+
+  IF FOUND AND _incoming.status IN ('pending', 'accepted') THEN
+    UPDATE public.connection_requests
+    SET status = 'accepted', responded_at = COALESCE(responded_at, now())
+    WHERE id = _incoming.id;
+
+    _match_id := public.create_mutual_match(_recipient_id, auth.uid());
+    RETURN jsonb_build_object('status', 'matched', 'match_id', _match_id);
+  END IF;
+
+  INSERT INTO public.connection_requests (sender_id, recipient_id)
+  VALUES (auth.uid(), _recipient_id)
+  ON CONFLICT (sender_id, recipient_id) DO NOTHING;
+
+  RETURN jsonb_build_object('status', 'pending', 'match_id', NULL);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+-- Accept or decline a pending request addressed to the current user
+CREATE OR REPLACE FUNCTION public.respond_to_connection_request(_request_id UUID, _accept BOOLEAN)
+RETURNS JSONB AS $$
+DECLARE
+  _request public.connection_requests%ROWTYPE;
+  _match_id UUID;
+BEGIN
+  SELECT * INTO _request FROM public.connection_requests
+  WHERE id = _request_id AND recipient_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Connection request not found';
+  END IF;
+
+  IF _request.status <> 'pending' THEN
+    RAISE EXCEPTION 'Connection request was already answered';
+  END IF;
+
+  UPDATE public.connection_requests
+  SET status = CASE WHEN _accept THEN 'accepted' ELSE 'declined' END,
+      responded_at = now()
+  WHERE id = _request_id;
+
+  IF NOT _accept THEN
+    RETURN jsonb_build_object('status', 'declined', 'match_id', NULL);
+  END IF;
+
+  _match_id := public.create_mutual_match(_request.sender_id, _request.recipient_id);
+  RETURN jsonb_build_object('status', 'matched', 'match_id', _match_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+-- Enable realtime for connection_requests
+ALTER TABLE public.connection_requests REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.connection_requests;
@@ -0,0 +1,121 @@
+-- Create swipes table so passes survive page reloads
+CREATE TABLE public.swipes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  swiper_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  swiped_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  direction TEXT NOT NULL CHECK (direction IN ('left', 'right')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(swiper_id, swiped_id),
+  CHECK (swiper_id <> swiped_id)
+);
+
+CREATE INDEX idx_swipes_swiper_updated ON public.swipes(swiper_id, updated_at DESC);
+
+-- Enable RLS on swipes
+ALTER TABLE public.swipes ENABLE ROW LEVEL SECURITY;
+
+-- Create swipes policies
+CREATE POLICY "Users can view their own swipes" 
+ON public.swipes 
+FOR SELECT 
+USING (auth.uid() = swiper_id);
+
+CREATE POLICY "Users can record passes" 
+ON public.swipes 
+FOR INSERT 
+WITH CHECK (auth.uid() = swiper_id AND direction = 'left');
+
+CREATE POLICY "Users can update their own passes" 
+ON public.swipes 
+FOR UPDATE 
+USING (auth.uid() = swiper_id)
+WITH CHECK (auth.uid() = swiper_id AND direction = 'left');
+
+-- updated_at is the time of the latest swipe and drives the pass cooldown
+CREATE TRIGGER update_swipes_updated_at
+BEFORE UPDATE ON public.swipes
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Right swipes are recorded alongside the connection request
+CREATE OR REPLACE FUNCTION public.send_connection_request(_recipient_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  _incoming public.connection_requests%ROWTYPE;
+  _match_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF _recipient_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot connect with yourself';
+  END IF;
+
+  INSERT INTO public.swipes (swiper_id, swiped_id, direction)
+  VALUES (auth.uid(), _recipient_id, 'right')
+  ON CONFLICT (swiper_id, swiped_id) DO UPDATE SET direction = 'right';
+
+  SELECT * INTO _incoming FROM public.connection_requests
+  WHERE sender_id = _recipient_id AND recipient_id = auth.uid()
+  FOR UPDATE;
+
+  IF FOUND AND _incoming.status IN ('pending', 'accepted') THEN
+    UPDATE public.connection_requests
+    SET status = 'accepted', responded_at = COALESCE(responded_at, now())
+    WHERE id = _incoming.id;
+
+    _match_id := public.create_mutual_match(_recipient_id, auth.uid());
+    RETURN jsonb_build_object('status', 'matched', 'match_id', _match_id);
+  END IF;
+
+  INSERT INTO public.connection_requests (sender_id, recipient_id)
+  VALUES (auth.uid(), _recipient_id)
+  ON CONFLICT (sender_id, recipient_id) DO NOTHING;
+
+  RETURN jsonb_build_object('status', 'pending', 'match_id', NULL);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+-- Undo the current user's most recent swipe, returning the profile's user id.
+-- A right swipe can only be undone while its request is still pending.
+CREATE OR REPLACE FUNCTION public.undo_last_swipe()
+RETURNS UUID AS $$
+DECLARE
+  _swipe public.swipes%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO _swipe FROM public.swipes
+  WHERE swiper_id = auth.uid()
+  ORDER BY updated_at DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF _swipe.direction = 'right' THEN
+    IF EXISTS (
+      SELECT 1 FROM public.matches
+      WHERE (user_id = auth.uid() AND matched_user_id = _swipe.swiped_id)
+         OR (user_id = _swipe.swiped_id AND matched_user_id = auth.uid())
+    ) OR EXISTS (
+      SELECT 1 FROM public.connection_requests
+      WHERE sender_id = auth.uid() AND recipient_id = _swipe.swiped_id AND status <> 'pending'
+    ) THEN
+      RAISE EXCEPTION 'This swipe can no longer be undone';
+    END IF;
+
+    DELETE FROM public.connection_requests
+    WHERE sender_id = auth.uid() AND recipient_id = _swipe.swiped_id;
+  END IF;
+
+  DELETE FROM public.swipes WHERE id = _swipe.id;
+  RETURN _swipe.swiped_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
@@ -0,0 +1,94 @@
+-- Ranked discovery deck: scores candidates by shared and complementary skills,
+-- shared interests and course, paginated by a (score, user_id) cursor.
+CREATE OR REPLACE FUNCTION public.get_discovery_deck(
+  _limit INTEGER DEFAULT 10,
+  _cursor_score NUMERIC DEFAULT NULL,
+  _cursor_user_id UUID DEFAULT NULL,
+  _pass_cooldown_days INTEGER DEFAULT 14
+)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  name TEXT,
+  course TEXT,
+  skills TEXT[],
+  interests TEXT[],
+  avatar_url TEXT,
+  score NUMERIC,
+  shared_skills TEXT[],
+  complementary_skills TEXT[],
+  shared_interests TEXT[],
+  same_course BOOLEAN
+) AS $$
+  WITH me AS (
+    SELECT
+      COALESCE(skills, '{}') AS skills,
+      COALESCE(interests, '{}') AS interests,
+      course
+    FROM public.profiles
+    WHERE user_id = auth.uid()
+  ),
+  candidates AS (
+    SELECT
+      p.id,
+      p.user_id,
+      p.name,
+      p.course,
+      p.skills,
+      p.interests,
+      p.avatar_url,
+      ARRAY(SELECT unnest(COALESCE(p.skills, '{}')) INTERSECT SELECT unnest(me.skills)) AS shared_skills,
+      ARRAY(SELECT unnest(COALESCE(p.skills, '{}')) EXCEPT SELECT unnest(me.skills)) AS complementary_skills,
+      ARRAY(SELECT unnest(COALESCE(p.interests, '{}')) INTERSECT SELECT unnest(me.interests)) AS shared_interests,
+      COALESCE(lower(trim(p.course)) = lower(trim(me.course)), false) AS same_course,
+      (p.course IS NOT NULL AND me.course IS NOT NULL) AS both_have_course
+    FROM public.profiles p
+    LEFT JOIN me ON true
+    WHERE p.user_id <> auth.uid()
+      AND NOT EXISTS (
+        SELECT 1 FROM public.matches m
+        WHERE (m.user_id = auth.uid() AND m.matched_user_id = p.user_id)
+           OR (m.user_id = p.user_id AND m.matched_user_id = auth.uid())
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM public.connection_requests r
+        WHERE r.sender_id = auth.uid() AND r.recipient_id = p.user_id
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM public.swipes s
+        WHERE s.swiper_id = auth.uid()
+          AND s.swiped_id = p.user_id
+          AND s.direction = 'left'
+          AND s.updated_at > now() - make_interval(days => _pass_cooldown_days)
+      )
+  ),
+  scored AS (
+    SELECT
+      c.*,
+      (
+        cardinality(c.shared_interests) * 3
+        + cardinality(c.shared_skills) * 2
+        + LEAST(cardinality(c.complementary_skills), 3) * 1.5
+        + CASE WHEN c.same_course THEN 3 WHEN c.both_have_course THEN 1 ELSE 0 END
+      )::NUMERIC AS score
+    FROM candidates c
+  )
+  SELECT
+    s.id,
+    s.user_id,
+    s.name,
+    s.course,
+    s.skills,
+    s.interests,
+    s.avatar_url,
+    s.score,
+    s.shared_skills,
+    s.complementary_skills,
+    s.shared_interests,
+    s.same_course
+  FROM scored s
+  WHERE _cursor_score IS NULL
+     OR (s.score, s.user_id) < (_cursor_score, _cursor_user_id)
+  ORDER BY s.score DESC, s.user_id DESC
+  LIMIT LEAST(GREATEST(_limit, 1), 50);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = '';
@@ -0,0 +1,155 @@
+-- What each student is looking for on the platform
+ALTER TABLE public.profiles
+  ADD COLUMN looking_for TEXT[] NOT NULL DEFAULT '{}'
+  CHECK (looking_for <@ ARRAY['study_partner', 'hackathon_teammate', 'project_cofounder', 'mentor']);
+
+-- Create match_preferences table for discovery filters
+CREATE TABLE public.match_preferences (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE UNIQUE,
+  courses TEXT[] NOT NULL DEFAULT '{}',
+  required_skills TEXT[] NOT NULL DEFAULT '{}',
+  interests TEXT[] NOT NULL DEFAULT '{}',
+  looking_for TEXT[] NOT NULL DEFAULT '{}'
+    CHECK (looking_for <@ ARRAY['study_partner', 'hackathon_teammate', 'project_cofounder', 'mentor']),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS on match_preferences
+ALTER TABLE public.match_preferences ENABLE ROW LEVEL SECURITY;
+
+-- Create match_preferences policies
+CREATE POLICY "Users can view their own match preferences" 
+ON public.match_preferences 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own match preferences" 
+ON public.match_preferences 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own match preferences" 
+ON public.match_preferences 
+FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_match_preferences_updated_at
+BEFORE UPDATE ON public.match_preferences
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Apply the caller's match preferences to the discovery deck. An empty filter matches everyone:
+-- courses and looking_for match any value, required_skills must all be present, interests match any.
+DROP FUNCTION public.get_discovery_deck(INTEGER, NUMERIC, UUID, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.get_discovery_deck(
+  _limit INTEGER DEFAULT 10,
+  _cursor_score NUMERIC DEFAULT NULL,
+  _cursor_user_id UUID DEFAULT NULL,
+  _pass_cooldown_days INTEGER DEFAULT 14
+)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  name TEXT,
+  course TEXT,
+  skills TEXT[],
+  interests TEXT[],
+  looking_for TEXT[],
+  avatar_url TEXT,
+  score NUMERIC,
+  shared_skills TEXT[],
+  complementary_skills TEXT[],
+  shared_interests TEXT[],
+  same_course BOOLEAN
+) AS $$
+  WITH me AS (
+    SELECT
+      COALESCE(skills, '{}') AS skills,
+      COALESCE(interests, '{}') AS interests,
+      course
+    FROM public.profiles
+    WHERE user_id = auth.uid()
+  ),
+  prefs AS (
+    SELECT
+      ARRAY(SELECT lower(trim(c)) FROM unnest(courses) AS c) AS courses,
+      required_skills,
+      interests,
+      looking_for
+    FROM public.match_preferences
+    WHERE user_id = auth.uid()
+  ),
+  candidates AS (
+    SELECT
+      p.id,
+      p.user_id,
+      p.name,
+      p.course,
+      p.skills,
+      p.interests,
+      p.looking_for,
+      p.avatar_url,
+      ARRAY(SELECT unnest(COALESCE(p.skills, '{}')) INTERSECT SELECT unnest(me.skills)) AS shared_skills,
+      ARRAY(SELECT unnest(COALESCE(p.skills, '{}')) EXCEPT SELECT unnest(me.skills)) AS complementary_skills,
+      ARRAY(SELECT unnest(COALESCE(p.interests, '{}')) INTERSECT SELECT unnest(me.interests)) AS shared_interests,
+      COALESCE(lower(trim(p.course)) = lower(trim(me.course)), false) AS same_course,
+      (p.course IS NOT NULL AND me.course IS NOT NULL) AS both_have_course
+    FROM public.profiles p
+    LEFT JOIN me ON true
+    LEFT JOIN prefs ON true
+    WHERE p.user_id <> auth.uid()
+      AND (cardinality(COALESCE(prefs.courses, '{}')) = 0 OR lower(trim(p.course)) = ANY(prefs.courses))
+      AND (cardinality(COALESCE(prefs.required_skills, '{}')) = 0 OR COALESCE(p.skills, '{}') @> prefs.required_skills)
+      AND (cardinality(COALESCE(prefs.interests, '{}')) = 0 OR COALESCE(p.interests, '{}') && prefs.interests)
+      AND (cardinality(COALESCE(prefs.looking_for, '{}')) = 0 OR p.looking_for && prefs.looking_for)
+      AND NOT EXISTS (
+        SELECT 1 FROM public.matches m
+        WHERE (m.user_id = auth.uid() AND m.matched_user_id = p.user_id)
+           OR (m.user_id = p.user_id AND m.matched_user_id = auth.uid())
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM public.connection_requests r
+        WHERE r.sender_id = auth.uid() AND r.recipient_id = p.user_id
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM public.swipes s
+        WHERE s.swiper_id = auth.uid()
+          AND s.swiped_id = p.user_id
+          AND s.direction = 'left'
+          AND s.updated_at > now() - make_interval(days => _pass_cooldown_days)
+      )
+  ),
+  scored AS (
+    SELECT
+      c.*,
+      (
+        cardinality(c.shared_interests) * 3
+        + cardinality(c.shared_skills) * 2
+        + LEAST(cardinality(c.complementary_skills), 3) * 1.5
+        + CASE WHEN c.same_course THEN 3 WHEN c.both_have_course THEN 1 ELSE 0 END
+      )::NUMERIC AS score
+    FROM candidates c
+  )
+  SELECT
+    s.id,
+    s.user_id,
+    s.name,
+    s.course,
+    s.skills,
+    s.interests,
+    s.looking_for,
+    s.avatar_url,
+    s.score,
+    s.shared_skills,
+    s.complementary_skills,
+    s.shared_interests,
+    s.same_course
+  FROM scored s
+  WHERE _cursor_score IS NULL
+     OR (s.score, s.user_id) < (_cursor_score, _cursor_user_id)
+  ORDER BY s.score DESC, s.user_id DESC
+  LIMIT LEAST(GREATEST(_limit, 1), 50);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = '';
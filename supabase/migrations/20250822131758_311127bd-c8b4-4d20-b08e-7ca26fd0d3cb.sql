@@ -0,0 +1,308 @@
+-- Let participants remove a match
+CREATE POLICY "Users can delete their own matches" 
+ON public.matches 
+FOR DELETE 
+USING (auth.uid() = user_id OR auth.uid() = matched_user_id);
+
+-- Create blocks table
+CREATE TABLE public.blocks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  blocker_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  blocked_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(blocker_id, blocked_id),
+  CHECK (blocker_id <> blocked_id)
+);
+
+CREATE INDEX idx_blocks_blocked_id ON public.blocks(blocked_id);
+
+-- Enable RLS on blocks
+ALTER TABLE public.blocks ENABLE ROW LEVEL SECURITY;
+
+-- Blocks are created through block_user; the blocked person never sees them
+CREATE POLICY "Users can view their own blocks" 
+ON public.blocks 
+FOR SELECT 
+USING (auth.uid() = blocker_id);
+
+CREATE POLICY "Users can unblock" 
+ON public.blocks 
+FOR DELETE 
+USING (auth.uid() = blocker_id);
+
+-- Create reports table as the moderation queue
+CREATE TABLE public.reports (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  reporter_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  reported_user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  match_id UUID REFERENCES public.matches(id) ON DELETE SET NULL,
+  reason TEXT NOT NULL CHECK (reason IN ('spam', 'harassment', 'inappropriate_content', 'fake_profile', 'other')),
+  details TEXT,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'reviewing', 'resolved', 'dismissed')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (reporter_id <> reported_user_id)
+);
+
+CREATE INDEX idx_reports_status ON public.reports(status, created_at);
+
+-- Enable RLS on reports; moderators work the queue with the service role
+ALTER TABLE public.reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own reports" 
+ON public.reports 
+FOR SELECT 
+USING (auth.uid() = reporter_id);
+
+CREATE POLICY "Users can file reports" 
+ON public.reports 
+FOR INSERT 
+WITH CHECK (auth.uid() = reporter_id AND status = 'open');
+
+CREATE TRIGGER update_reports_updated_at
+BEFORE UPDATE ON public.reports
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Whether either user has blocked the other
+CREATE OR REPLACE FUNCTION public.is_blocked_between(_user_a UUID, _user_b UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.blocks
+    WHERE (blocker_id = _user_a AND blocked_id = _user_b)
+       OR (blocker_id = _user_b AND blocked_id = _user_a)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = '';
+
+-- Remove a match and its chat. The pair's requests are cleared and the other person is
+-- recorded as a pass, so they return to discovery only after the cooldown.
+CREATE OR REPLACE FUNCTION public.unmatch(_match_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  _match public.matches%ROWTYPE;
+  _other_id UUID;
+BEGIN
+  SELECT * INTO _match FROM public.matches
+  WHERE id = _match_id AND (user_id = auth.uid() OR matched_user_id = auth.uid());
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Match not found';
+  END IF;
+
+  _other_id := CASE WHEN _match.user_id = auth.uid() THEN _match.matched_user_id ELSE _match.user_id END;
+
+  DELETE FROM public.matches WHERE id = _match_id;
+
+  DELETE FROM public.connection_requests
+  WHERE (sender_id = auth.uid() AND recipient_id = _other_id)
+     OR (sender_id = _other_id AND recipient_id = auth.uid());
+
+  INSERT INTO public.swipes (swiper_id, swiped_id, direction)
+  VALUES (auth.uid(), _other_id, 'left')
+  ON CONFLICT (swiper_id, swiped_id) DO UPDATE SET direction = 'left';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+-- Block a user: removes any match, chat and pending requests between the two
+CREATE OR REPLACE FUNCTION public.block_user(_user_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF _user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot block yourself';
+  END IF;
+
+  INSERT INTO public.blocks (blocker_id, blocked_id)
+  VALUES (auth.uid(), _user_id)
+  ON CONFLICT (blocker_id, blocked_id) DO NOTHING;
+
+  DELETE FROM public.matches
+  WHERE (user_id = auth.uid() AND matched_user_id = _user_id)
+     OR (user_id = _user_id AND matched_user_id = auth.uid());
+
+  DELETE FROM public.connection_requests
+  WHERE (sender_id = auth.uid() AND recipient_id = _user_id)
+     OR (sender_id = _user_id AND recipient_id = auth.uid());
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+-- Hide blocked users' content in both directions
+DROP POLICY "Profiles are viewable by everyone" ON public.profiles;
+CREATE POLICY "Profiles are viewable by everyone except blocked users" 
+ON public.profiles 
+FOR SELECT 
+USING (NOT public.is_blocked_between(auth.uid(), user_id));
+
+DROP POLICY "Posts are viewable by everyone" ON public.posts;
+CREATE POLICY "Posts are viewable by everyone except blocked users" 
+ON public.posts 
+FOR SELECT 
+USING (NOT public.is_blocked_between(auth.uid(), user_id));
+
+DROP POLICY "Comments are viewable by everyone" ON public.comments;
+CREATE POLICY "Comments are viewable by everyone except blocked users" 
+ON public.comments 
+FOR SELECT 
+USING (NOT public.is_blocked_between(auth.uid(), user_id));
+
+DROP POLICY "Polls are viewable by everyone" ON public.polls;
+CREATE POLICY "Polls are viewable by everyone except blocked users" 
+ON public.polls 
+FOR SELECT 
+USING (NOT public.is_blocked_between(auth.uid(), user_id));
+
+DROP POLICY "Users can view messages in their matches" ON public.messages;
+CREATE POLICY "Users can view messages in their matches" 
+ON public.messages 
+FOR SELECT 
+USING (
+  (auth.uid() = sender_id OR auth.uid() = receiver_id)
+  AND public.is_match_participant(match_id)
+  AND NOT public.is_blocked_between(sender_id, receiver_id)
+);
+
+DROP POLICY "Users can send messages in their matches" ON public.messages;
+CREATE POLICY "Users can send messages in their matches" 
+ON public.messages 
+FOR INSERT 
+WITH CHECK (
+  auth.uid() = sender_id
+  AND NOT public.is_blocked_between(sender_id, receiver_id)
+  AND EXISTS (
+    SELECT 1 FROM public.matches
+    WHERE id = match_id
+      AND ((user_id = sender_id AND matched_user_id = receiver_id)
+        OR (user_id = receiver_id AND matched_user_id = sender_id))
+  )
+);
+
+-- Blocked users can no longer connect
+CREATE OR REPLACE FUNCTION public.prevent_blocked_connection_request()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF public.is_blocked_between(NEW.sender_id, NEW.recipient_id) THEN
+    RAISE EXCEPTION 'You cannot connect with this user';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+CREATE TRIGGER prevent_blocked_connection_request
+  BEFORE INSERT ON public.connection_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_blocked_connection_request();
+
+-- Blocked users never appear in the discovery deck
+CREATE OR REPLACE FUNCTION public.get_discovery_deck(
+  _limit INTEGER DEFAULT 10,
+  _cursor_score NUMERIC DEFAULT NULL,
+  _cursor_user_id UUID DEFAULT NULL,
+  _pass_cooldown_days INTEGER DEFAULT 14
+)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  name TEXT,
+  course TEXT,
+  skills TEXT[],
+  interests TEXT[],
+  looking_for TEXT[],
+  avatar_url TEXT,
+  score NUMERIC,
+  shared_skills TEXT[],
+  complementary_skills TEXT[],
+  shared_interests TEXT[],
+  same_course BOOLEAN
+) AS $$
+  WITH me AS (
+    SELECT
+      COALESCE(skills, '{}') AS skills,
+      COALESCE(interests, '{}') AS interests,
+      course
+    FROM public.profiles
+    WHERE user_id = auth.uid()
+  ),
+  prefs AS (
+    SELECT
+      ARRAY(SELECT lower(trim(c)) FROM unnest(courses) AS c) AS courses,
+      required_skills,
+      interests,
+      looking_for
+    FROM public.match_preferences
+    WHERE user_id = auth.uid()
+  ),
+  candidates AS (
+    SELECT
+      p.id,
+      p.user_id,
+      p.name,
+      p.course,
+      p.skills,
+      p.interests,
+      p.looking_for,
+      p.avatar_url,
+      ARRAY(SELECT unnest(COALESCE(p.skills, '{}')) INTERSECT SELECT unnest(me.skills)) AS shared_skills,
+      ARRAY(SELECT unnest(COALESCE(p.skills, '{}')) EXCEPT SELECT unnest(me.skills)) AS complementary_skills,
+      ARRAY(SELECT unnest(COALESCE(p.interests, '{}')) INTERSECT SELECT unnest(me.interests)) AS shared_interests,
+      COALESCE(lower(trim(p.course)) = lower(trim(me.course)), false) AS same_course,
+      (p.course IS NOT NULL AND me.course IS NOT NULL) AS both_have_course
+    FROM public.profiles p
+    LEFT JOIN me ON true
+    LEFT JOIN prefs ON true
+    WHERE p.user_id <> auth.uid()
+      AND NOT public.is_blocked_between(auth.uid(), p.user_id)
+      AND (cardinality(COALESCE(prefs.courses, '{}')) = 0 OR lower(trim(p.course)) = ANY(prefs.courses))
+      AND (cardinality(COALESCE(prefs.required_skills, '{}')) = 0 OR COALESCE(p.skills, '{}') @> prefs.required_skills)
+      AND (cardinality(COALESCE(prefs.interests, '{}')) = 0 OR COALESCE(p.interests, '{}') && prefs.interests)
+      AND (cardinality(COALESCE(prefs.looking_for, '{}')) = 0 OR p.looking_for && prefs.looking_for)
+      AND NOT EXISTS (
+        SELECT 1 FROM public.matches m
+        WHERE (m.user_id = auth.uid() AND m.matched_user_id = p.user_id)
+           OR (m.user_id = p.user_id AND m.matched_user_id = auth.uid())
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM public.connection_requests r
+        WHERE r.sender_id = auth.uid() AND r.recipient_id = p.user_id
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM public.swipes s
+        WHERE s.swiper_id = auth.uid()
+          AND s.swiped_id = p.user_id
+          AND s.direction = 'left'
+          AND s.updated_at > now() - make_interval(days => _pass_cooldown_days)
+      )
+  ),
+  scored AS (
+    SELECT
+      c.*,
+      (
+        cardinality(c.shared_interests) * 3
+        + cardinality(c.shared_skills) * 2
+        + LEAST(cardinality(c.complementary_skills), 3) * 1.5
+        + CASE WHEN c.same_course THEN 3 WHEN c.both_have_course THEN 1 ELSE 0 END
+      )::NUMERIC AS score
+    FROM candidates c
+  )
+  SELECT
+    s.id,
+    s.user_id,
+    s.name,
+    s.course,
+    s.skills,
+    s.interests,
+    s.looking_for,
+    s.avatar_url,
+    s.score,
+    s.shared_skills,
+    s.complementary_skills,
+    s.shared_interests,
+    s.same_course
+  FROM scored s
+  WHERE _cursor_score IS NULL
+     OR (s.score, s.user_id) < (_cursor_score, _cursor_user_id)
+  ORDER BY s.score DESC, s.user_id DESC
+  LIMIT LEAST(GREATEST(_limit, 1), 50);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = '';
@@ -0,0 +1,95 @@
+-- Per-participant read tracking for conversations
+CREATE TABLE public.conversation_reads (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  match_id UUID NOT NULL REFERENCES public.matches(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  last_read_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(match_id, user_id)
+);
+
+-- Enable RLS on conversation_reads
+ALTER TABLE public.conversation_reads ENABLE ROW LEVEL SECURITY;
+
+-- Create conversation_reads policies
+CREATE POLICY "Users can view their own read markers" 
+ON public.conversation_reads 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create read markers in their matches" 
+ON public.conversation_reads 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id AND public.is_match_participant(match_id));
+
+CREATE POLICY "Users can update their own read markers" 
+ON public.conversation_reads 
+FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_conversation_reads_updated_at
+BEFORE UPDATE ON public.conversation_reads
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Speed up latest-message and unread lookups
+CREATE INDEX idx_messages_match_created ON public.messages(match_id, created_at DESC);
+
+-- Conversations of the current user, latest activity first
+CREATE OR REPLACE FUNCTION public.get_inbox()
+RETURNS TABLE (
+  match_id UUID,
+  other_user_id UUID,
+  other_name TEXT,
+  other_avatar_url TEXT,
+  last_message TEXT,
+  last_message_at TIMESTAMP WITH TIME ZONE,
+  last_message_sender_id UUID,
+  unread_count INTEGER,
+  matched_at TIMESTAMP WITH TIME ZONE
+) AS $$
+  SELECT
+    m.id,
+    o.other_user_id,
+    p.name,
+    p.avatar_url,
+    last.content,
+    last.created_at,
+    last.sender_id,
+    (
+      SELECT count(*)::INTEGER FROM public.messages msg
+      WHERE msg.match_id = m.id
+        AND msg.receiver_id = auth.uid()
+        AND msg.created_at > COALESCE(r.last_read_at, '-infinity'::timestamptz)
+    ),
+    m.created_at
+  FROM public.matches m
+  CROSS JOIN LATERAL (
+    SELECT CASE WHEN m.user_id = auth.uid() THEN m.matched_user_id ELSE m.user_id END AS other_user_id
+  ) o
+  LEFT JOIN public.profiles p ON p.user_id = o.other_user_id
+  LEFT JOIN LATERAL (
+    SELECT content, created_at, sender_id FROM public.messages
+    WHERE match_id = m.id
+    ORDER BY created_at DESC
+    LIMIT 1
+  ) last ON true
+  LEFT JOIN public.conversation_reads r ON r.match_id = m.id AND r.user_id = auth.uid()
+  WHERE m.user_id = auth.uid() OR m.matched_user_id = auth.uid()
+  ORDER BY COALESCE(last.created_at, m.created_at) DESC;
+$$ LANGUAGE sql STABLE SET search_path = '';
+
+-- Total unread messages across all of the current user's conversations
+CREATE OR REPLACE FUNCTION public.get_unread_message_count()
+RETURNS INTEGER AS $$
+  SELECT count(*)::INTEGER
+  FROM public.messages msg
+  LEFT JOIN public.conversation_reads r ON r.match_id = msg.match_id AND r.user_id = auth.uid()
+  WHERE msg.receiver_id = auth.uid()
+    AND msg.created_at > COALESCE(r.last_read_at, '-infinity'::timestamptz);
+$$ LANGUAGE sql STABLE SET search_path = '';
+
+-- Enable realtime for conversation_reads
+ALTER TABLE public.conversation_reads REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.conversation_reads;
@@ -0,0 +1,47 @@
+-- Track delivery separately from reading; a marker may now exist before anything was read
+ALTER TABLE public.conversation_reads
+  ADD COLUMN last_delivered_at TIMESTAMP WITH TIME ZONE,
+  ALTER COLUMN last_read_at DROP NOT NULL,
+  ALTER COLUMN last_read_at DROP DEFAULT;
+
+-- Both participants can see each other's markers to render read receipts
+DROP POLICY "Users can view their own read markers" ON public.conversation_reads;
+
+CREATE POLICY "Users can view read markers in their matches" 
+ON public.conversation_reads 
+FOR SELECT 
+USING (auth.uid() = user_id OR public.is_match_participant(match_id));
+
+-- Mark a conversation as read (and therefore delivered) using server time
+CREATE OR REPLACE FUNCTION public.mark_conversation_read(_match_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT public.is_match_participant(_match_id) THEN
+    RAISE EXCEPTION 'Conversation not found';
+  END IF;
+
+  INSERT INTO public.conversation_reads (match_id, user_id, last_read_at, last_delivered_at)
+  VALUES (_match_id, auth.uid(), now(), now())
+  ON CONFLICT (match_id, user_id)
+  DO UPDATE SET last_read_at = now(), last_delivered_at = now();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+-- Mark every conversation with messages waiting for the current user as delivered
+CREATE OR REPLACE FUNCTION public.mark_messages_delivered()
+RETURNS VOID AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO public.conversation_reads (match_id, user_id, last_delivered_at)
+  SELECT DISTINCT msg.match_id, auth.uid(), now()
+  FROM public.messages msg
+  LEFT JOIN public.conversation_reads r ON r.match_id = msg.match_id AND r.user_id = auth.uid()
+  WHERE msg.receiver_id = auth.uid()
+    AND msg.created_at > COALESCE(r.last_delivered_at, '-infinity'::timestamptz)
+  ON CONFLICT (match_id, user_id)
+  DO UPDATE SET last_delivered_at = now();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
@@ -0,0 +1,122 @@
+-- Messages can be edited for a short while and deleted for everyone, leaving a tombstone
+ALTER TABLE public.messages
+  ADD COLUMN edited_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+CREATE TRIGGER update_messages_updated_at
+BEFORE UPDATE ON public.messages
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Edit one of the current user's messages within 15 minutes of sending it
+CREATE OR REPLACE FUNCTION public.edit_message(_message_id UUID, _content TEXT)
+RETURNS VOID AS $$
+DECLARE
+  _message public.messages%ROWTYPE;
+BEGIN
+  SELECT * INTO _message FROM public.messages
+  WHERE id = _message_id AND sender_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Message not found';
+  END IF;
+
+  IF _message.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Deleted messages cannot be edited';
+  END IF;
+
+  IF _message.created_at < now() - interval '15 minutes' THEN
+    RAISE EXCEPTION 'Messages can only be edited within 15 minutes of sending';
+  END IF;
+
+  IF btrim(COALESCE(_content, '')) = '' THEN
+    RAISE EXCEPTION 'Message cannot be empty';
+  END IF;
+
+  IF _content = _message.content THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.messages
+  SET content = _content, edited_at = now()
+  WHERE id = _message_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+-- Delete one of the current user's messages for both participants
+CREATE OR REPLACE FUNCTION public.delete_message(_message_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE public.messages
+  SET content = '', deleted_at = now()
+  WHERE id = _message_id
+    AND sender_id = auth.uid()
+    AND deleted_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Message not found';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+-- The inbox preview needs to know when the latest message is a tombstone, and
+-- deleted messages no longer count as unread
+DROP FUNCTION public.get_inbox();
+
+CREATE OR REPLACE FUNCTION public.get_inbox()
+RETURNS TABLE (
+  match_id UUID,
+  other_user_id UUID,
+  other_name TEXT,
+  other_avatar_url TEXT,
+  last_message TEXT,
+  last_message_at TIMESTAMP WITH TIME ZONE,
+  last_message_sender_id UUID,
+  last_message_deleted BOOLEAN,
+  unread_count INTEGER,
+  matched_at TIMESTAMP WITH TIME ZONE
+) AS $$
+  SELECT
+    m.id,
+    o.other_user_id,
+    p.name,
+    p.avatar_url,
+    last.content,
+    last.created_at,
+    last.sender_id,
+    last.deleted_at IS NOT NULL,
+    (
+      SELECT count(*)::INTEGER FROM public.messages msg
+      WHERE msg.match_id = m.id
+        AND msg.receiver_id = auth.uid()
+        AND msg.deleted_at IS NULL
+        AND msg.created_at > COALESCE(r.last_read_at, '-infinity'::timestamptz)
+    ),
+    m.created_at
+  FROM public.matches m
+  CROSS JOIN LATERAL (
+    SELECT CASE WHEN m.user_id = auth.uid() THEN m.matched_user_id ELSE m.user_id END AS other_user_id
+  ) o
+  LEFT JOIN public.profiles p ON p.user_id = o.other_user_id
+  LEFT JOIN LATERAL (
+    SELECT content, created_at, sender_id, deleted_at FROM public.messages
+    WHERE match_id = m.id
+    ORDER BY created_at DESC
+    LIMIT 1
+  ) last ON true
+  LEFT JOIN public.conversation_reads r ON r.match_id = m.id AND r.user_id = auth.uid()
+  WHERE m.user_id = auth.uid() OR m.matched_user_id = auth.uid()
+  ORDER BY COALESCE(last.created_at, m.created_at) DESC;
+$$ LANGUAGE sql STABLE SET search_path = '';
+
+CREATE OR REPLACE FUNCTION public.get_unread_message_count()
+RETURNS INTEGER AS $$
+  SELECT count(*)::INTEGER
+  FROM public.messages msg
+  LEFT JOIN public.conversation_reads r ON r.match_id = msg.match_id AND r.user_id = auth.uid()
+  WHERE msg.receiver_id = auth.uid()
+    AND msg.deleted_at IS NULL
+    AND msg.created_at > COALESCE(r.last_read_at, '-infinity'::timestamptz);
+$$ LANGUAGE sql STABLE SET search_path = '';
@@ -0,0 +1,124 @@
+-- Create a private bucket for chat attachments, stored as <match_id>/<sender_id>/<file>
+INSERT INTO storage.buckets (id, name, public, file_size_limit) VALUES
+  ('chat-attachments', 'chat-attachments', false, 10485760);
+
+-- Create storage policies for chat-attachments bucket
+CREATE POLICY "Match participants can view chat attachments" 
+ON storage.objects 
+FOR SELECT 
+USING (
+  bucket_id = 'chat-attachments'
+  AND EXISTS (
+    SELECT 1 FROM public.matches
+    WHERE id::text = (storage.foldername(name))[1]
+      AND (user_id = auth.uid() OR matched_user_id = auth.uid())
+  )
+);
+
+CREATE POLICY "Match participants can upload chat attachments" 
+ON storage.objects 
+FOR INSERT 
+WITH CHECK (
+  bucket_id = 'chat-attachments'
+  AND auth.uid()::text = (storage.foldername(name))[2]
+  AND EXISTS (
+    SELECT 1 FROM public.matches
+    WHERE id::text = (storage.foldername(name))[1]
+      AND (user_id = auth.uid() OR matched_user_id = auth.uid())
+  )
+);
+
+CREATE POLICY "Users can delete their own chat attachments" 
+ON storage.objects 
+FOR DELETE 
+USING (bucket_id = 'chat-attachments' AND auth.uid()::text = (storage.foldername(name))[2]);
+
+-- Messages carry a type plus attachment metadata or a code language
+ALTER TABLE public.messages
+  ADD COLUMN message_type TEXT NOT NULL DEFAULT 'text' CHECK (message_type IN ('text', 'image', 'file', 'code')),
+  ADD COLUMN attachment_path TEXT,
+  ADD COLUMN attachment_name TEXT,
+  ADD COLUMN attachment_size BIGINT CHECK (attachment_size > 0),
+  ADD COLUMN attachment_mime_type TEXT,
+  ADD COLUMN code_language TEXT,
+  -- Attachments must live in their own match's folder
+  ADD CONSTRAINT messages_attachment_path_check
+    CHECK (attachment_path IS NULL OR attachment_path LIKE match_id::text || '/' || sender_id::text || '/%'),
+  -- Deleted messages drop their attachment, so only live ones must have one
+  ADD CONSTRAINT messages_attachment_required_check
+    CHECK (message_type NOT IN ('image', 'file') OR deleted_at IS NOT NULL OR attachment_path IS NOT NULL);
+
+-- Tombstones also drop attachment metadata
+CREATE OR REPLACE FUNCTION public.delete_message(_message_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE public.messages
+  SET content = '',
+      deleted_at = now(),
+      attachment_path = NULL,
+      attachment_name = NULL,
+      attachment_size = NULL,
+      attachment_mime_type = NULL,
+      code_language = NULL
+  WHERE id = _message_id
+    AND sender_id = auth.uid()
+    AND deleted_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Message not found';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+-- The inbox preview describes attachments instead of showing an empty snippet
+DROP FUNCTION public.get_inbox();
+
+CREATE OR REPLACE FUNCTION public.get_inbox()
+RETURNS TABLE (
+  match_id UUID,
+  other_user_id UUID,
+  other_name TEXT,
+  other_avatar_url TEXT,
+  last_message TEXT,
+  last_message_at TIMESTAMP WITH TIME ZONE,
+  last_message_sender_id UUID,
+  last_message_deleted BOOLEAN,
+  last_message_type TEXT,
+  last_message_attachment_name TEXT,
+  unread_count INTEGER,
+  matched_at TIMESTAMP WITH TIME ZONE
+) AS $$
+  SELECT
+    m.id,
+    o.other_user_id,
+    p.name,
+    p.avatar_url,
+    last.content,
+    last.created_at,
+    last.sender_id,
+    last.deleted_at IS NOT NULL,
+    last.message_type,
+    last.attachment_name,
+    (
+      SELECT count(*)::INTEGER FROM public.messages msg
+      WHERE msg.match_id = m.id
+        AND msg.receiver_id = auth.uid()
+        AND msg.deleted_at IS NULL
+        AND msg.created_at > COALESCE(r.last_read_at, '-infinity'::timestamptz)
+    ),
+    m.created_at
+  FROM public.matches m
+  CROSS JOIN LATERAL (
+    SELECT CASE WHEN m.user_id = auth.uid() THEN m.matched_user_id ELSE m.user_id END AS other_user_id
+  ) o
+  LEFT JOIN public.profiles p ON p.user_id = o.other_user_id
+  LEFT JOIN LATERAL (
+    SELECT content, created_at, sender_id, deleted_at, message_type, attachment_name FROM public.messages
+    WHERE match_id = m.id
+    ORDER BY created_at DESC
+    LIMIT 1
+  ) last ON true
+  LEFT JOIN public.conversation_reads r ON r.match_id = m.id AND r.user_id = auth.uid()
+  WHERE m.user_id = auth.uid() OR m.matched_user_id = auth.uid()
+  ORDER BY COALESCE(last.created_at, m.created_at) DESC;
+$$ LANGUAGE sql STABLE SET search_path = '';
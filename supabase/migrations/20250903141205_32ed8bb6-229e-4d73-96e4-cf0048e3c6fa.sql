@@ -0,0 +1,465 @@
+-- Create conversations table. Direct conversations share their match's id, so
+-- existing /chat/<match id> links keep working and unmatching removes the chat.
+CREATE TABLE public.conversations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  type TEXT NOT NULL DEFAULT 'group' CHECK (type IN ('direct', 'group')),
+  name TEXT,
+  match_id UUID UNIQUE REFERENCES public.matches(id) ON DELETE CASCADE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK ((type = 'direct') = (match_id IS NOT NULL)),
+  CHECK (type = 'direct' OR (name IS NOT NULL AND length(btrim(name)) BETWEEN 1 AND 60))
+);
+
+-- Create conversation_participants table
+CREATE TABLE public.conversation_participants (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'admin', 'member')),
+  joined_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(conversation_id, user_id)
+);
+
+CREATE INDEX idx_conversation_participants_user ON public.conversation_participants(user_id);
+
+-- Whether the current user is a participant of a conversation
+CREATE OR REPLACE FUNCTION public.is_conversation_participant(_conversation_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.conversation_participants
+    WHERE conversation_id = _conversation_id AND user_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = '';
+
+-- Enable RLS; conversations and membership are changed only through the functions below
+ALTER TABLE public.conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.conversation_participants ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view their conversations" 
+ON public.conversations 
+FOR SELECT 
+USING (public.is_conversation_participant(id));
+
+CREATE POLICY "Participants can view conversation members" 
+ON public.conversation_participants 
+FOR SELECT 
+USING (public.is_conversation_participant(conversation_id));
+
+CREATE TRIGGER update_conversations_updated_at
+BEFORE UPDATE ON public.conversations
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Move every existing match chat into a two-person conversation
+INSERT INTO public.conversations (id, type, match_id, created_at)
+SELECT id, 'direct', id, created_at FROM public.matches;
+
+INSERT INTO public.conversation_participants (conversation_id, user_id, joined_at)
+SELECT id, user_id, created_at FROM public.matches
+UNION ALL
+SELECT id, matched_user_id, created_at FROM public.matches;
+
+-- Every new match opens its direct conversation
+CREATE OR REPLACE FUNCTION public.create_direct_conversation()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.conversations (id, type, match_id)
+  VALUES (NEW.id, 'direct', NEW.id);
+
+  INSERT INTO public.conversation_participants (conversation_id, user_id)
+  VALUES (NEW.id, NEW.user_id), (NEW.id, NEW.matched_user_id);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+CREATE TRIGGER create_direct_conversation_on_match
+AFTER INSERT ON public.matches
+FOR EACH ROW
+EXECUTE FUNCTION public.create_direct_conversation();
+
+-- Messages belong to a conversation instead of a match/receiver pair
+DROP POLICY "Users can view messages in their matches" ON public.messages;
+DROP POLICY "Users can send messages in their matches" ON public.messages;
+
+ALTER TABLE public.messages
+  ADD COLUMN conversation_id UUID REFERENCES public.conversations(id) ON DELETE CASCADE;
+
+UPDATE public.messages SET conversation_id = match_id;
+
+ALTER TABLE public.messages
+  ALTER COLUMN conversation_id SET NOT NULL,
+  DROP CONSTRAINT messages_attachment_path_check,
+  DROP COLUMN match_id,
+  DROP COLUMN receiver_id,
+  ADD CONSTRAINT messages_attachment_path_check
+    CHECK (attachment_path IS NULL OR attachment_path LIKE conversation_id::text || '/' || sender_id::text || '/%');
+
+CREATE INDEX idx_messages_conversation_created ON public.messages(conversation_id, created_at DESC);
+
+-- Blocked users' messages stay hidden inside shared group conversations
+CREATE POLICY "Participants can view messages in their conversations" 
+ON public.messages 
+FOR SELECT 
+USING (
+  public.is_conversation_participant(conversation_id)
+  AND NOT public.is_blocked_between(auth.uid(), sender_id)
+);
+
+CREATE POLICY "Participants can send messages in their conversations" 
+ON public.messages 
+FOR INSERT 
+WITH CHECK (auth.uid() = sender_id AND public.is_conversation_participant(conversation_id));
+
+-- Read markers follow conversations too
+DROP POLICY "Users can view read markers in their matches" ON public.conversation_reads;
+DROP POLICY "Users can create read markers in their matches" ON public.conversation_reads;
+
+ALTER TABLE public.conversation_reads
+  ADD COLUMN conversation_id UUID REFERENCES public.conversations(id) ON DELETE CASCADE;
+
+UPDATE public.conversation_reads SET conversation_id = match_id;
+
+ALTER TABLE public.conversation_reads
+  ALTER COLUMN conversation_id SET NOT NULL,
+  DROP COLUMN match_id,
+  ADD CONSTRAINT conversation_reads_conversation_id_user_id_key UNIQUE (conversation_id, user_id);
+
+CREATE POLICY "Participants can view read markers in their conversations" 
+ON public.conversation_reads 
+FOR SELECT 
+USING (auth.uid() = user_id OR public.is_conversation_participant(conversation_id));
+
+CREATE POLICY "Users can create read markers in their conversations" 
+ON public.conversation_reads 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id AND public.is_conversation_participant(conversation_id));
+
+-- Attachments are stored under the conversation's folder
+DROP POLICY "Match participants can view chat attachments" ON storage.objects;
+DROP POLICY "Match participants can upload chat attachments" ON storage.objects;
+
+CREATE POLICY "Conversation participants can view chat attachments" 
+ON storage.objects 
+FOR SELECT 
+USING (
+  bucket_id = 'chat-attachments'
+  AND EXISTS (
+    SELECT 1 FROM public.conversation_participants
+    WHERE conversation_id::text = (storage.foldername(name))[1]
+      AND user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Conversation participants can upload chat attachments" 
+ON storage.objects 
+FOR INSERT 
+WITH CHECK (
+  bucket_id = 'chat-attachments'
+  AND auth.uid()::text = (storage.foldername(name))[2]
+  AND EXISTS (
+    SELECT 1 FROM public.conversation_participants
+    WHERE conversation_id::text = (storage.foldername(name))[1]
+      AND user_id = auth.uid()
+  )
+);
+
+-- Whether two users are matched with each other; only matches can be added to groups
+CREATE OR REPLACE FUNCTION public.are_matched(_user_a UUID, _user_b UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.matches
+    WHERE (user_id = _user_a AND matched_user_id = _user_b)
+       OR (user_id = _user_b AND matched_user_id = _user_a)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = '';
+
+-- Create a group with the current user as owner and some of their matches as members
+CREATE OR REPLACE FUNCTION public.create_group_conversation(_name TEXT, _member_ids UUID[])
+RETURNS UUID AS $$
+DECLARE
+  _conversation_id UUID;
+  _member_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF COALESCE(array_length(_member_ids, 1), 0) < 2 THEN
+    RAISE EXCEPTION 'Groups need at least two other members';
+  END IF;
+
+  INSERT INTO public.conversations (type, name, created_by)
+  VALUES ('group', btrim(_name), auth.uid())
+  RETURNING id INTO _conversation_id;
+
+  INSERT INTO public.conversation_participants (conversation_id, user_id, role)
+  VALUES (_conversation_id, auth.uid(), 'owner');
+
+  FOREACH _member_id IN ARRAY _member_ids LOOP
+    IF _member_id = auth.uid() THEN
+      CONTINUE;
+    END IF;
+
+    IF NOT public.are_matched(auth.uid(), _member_id) OR public.is_blocked_between(auth.uid(), _member_id) THEN
+      RAISE EXCEPTION 'You can only add students you are matched with';
+    END IF;
+
+    INSERT INTO public.conversation_participants (conversation_id, user_id)
+    VALUES (_conversation_id, _member_id)
+    ON CONFLICT (conversation_id, user_id) DO NOTHING;
+  END LOOP;
+
+  RETURN _conversation_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+-- Owners and admins can invite their own matches into a group
+CREATE OR REPLACE FUNCTION public.invite_to_conversation(_conversation_id UUID, _user_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  _role TEXT;
+BEGIN
+  SELECT p.role INTO _role
+  FROM public.conversation_participants p
+  JOIN public.conversations c ON c.id = p.conversation_id
+  WHERE p.conversation_id = _conversation_id
+    AND p.user_id = auth.uid()
+    AND c.type = 'group';
+
+  IF _role IS NULL THEN
+    RAISE EXCEPTION 'Group not found';
+  END IF;
+
+  IF _role NOT IN ('owner', 'admin') THEN
+    RAISE EXCEPTION 'Only owners and admins can invite members';
+  END IF;
+
+  IF NOT public.are_matched(auth.uid(), _user_id) OR public.is_blocked_between(auth.uid(), _user_id) THEN
+    RAISE EXCEPTION 'You can only invite students you are matched with';
+  END IF;
+
+  INSERT INTO public.conversation_participants (conversation_id, user_id)
+  VALUES (_conversation_id, _user_id)
+  ON CONFLICT (conversation_id, user_id) DO NOTHING;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+-- Owners can promote or demote members; ownership itself is handed over on leave
+CREATE OR REPLACE FUNCTION public.set_participant_role(_conversation_id UUID, _user_id UUID, _role TEXT)
+RETURNS VOID AS $$
+BEGIN
+  IF _role NOT IN ('admin', 'member') THEN
+    RAISE EXCEPTION 'Invalid role';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.conversation_participants
+    WHERE conversation_id = _conversation_id AND user_id = auth.uid() AND role = 'owner'
+  ) THEN
+    RAISE EXCEPTION 'Only the group owner can change roles';
+  END IF;
+
+  UPDATE public.conversation_participants
+  SET role = _role
+  WHERE conversation_id = _conversation_id
+    AND user_id = _user_id
+    AND role <> 'owner';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Member not found';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+-- Owners can remove anyone; admins can remove plain members
+CREATE OR REPLACE FUNCTION public.remove_participant(_conversation_id UUID, _user_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  _my_role TEXT;
+  _their_role TEXT;
+BEGIN
+  SELECT role INTO _my_role FROM public.conversation_participants
+  WHERE conversation_id = _conversation_id AND user_id = auth.uid();
+
+  SELECT role INTO _their_role FROM public.conversation_participants
+  WHERE conversation_id = _conversation_id AND user_id = _user_id;
+
+  IF _their_role IS NULL OR _user_id = auth.uid() THEN
+    RAISE EXCEPTION 'Member not found';
+  END IF;
+
+  IF NOT (_my_role = 'owner' OR (_my_role = 'admin' AND _their_role = 'member')) THEN
+    RAISE EXCEPTION 'You cannot remove this member';
+  END IF;
+
+  DELETE FROM public.conversation_participants
+  WHERE conversation_id = _conversation_id AND user_id = _user_id;
+
+  DELETE FROM public.conversation_reads
+  WHERE conversation_id = _conversation_id AND user_id = _user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+-- Leave a group; a leaving owner hands over to the longest-standing admin, then member
+CREATE OR REPLACE FUNCTION public.leave_conversation(_conversation_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  _role TEXT;
+  _successor_id UUID;
+BEGIN
+  SELECT p.role INTO _role
+  FROM public.conversation_participants p
+  JOIN public.conversations c ON c.id = p.conversation_id
+  WHERE p.conversation_id = _conversation_id
+    AND p.user_id = auth.uid()
+    AND c.type = 'group';
+
+  IF _role IS NULL THEN
+    RAISE EXCEPTION 'Group not found';
+  END IF;
+
+  DELETE FROM public.conversation_participants
+  WHERE conversation_id = _conversation_id AND user_id = auth.uid();
+
+  DELETE FROM public.conversation_reads
+  WHERE conversation_id = _conversation_id AND user_id = auth.uid();
+
+  IF _role <> 'owner' THEN
+    RETURN;
+  END IF;
+
+  SELECT user_id INTO _successor_id FROM public.conversation_participants
+  WHERE conversation_id = _conversation_id
+  ORDER BY (role = 'admin') DESC, joined_at
+  LIMIT 1;
+
+  IF _successor_id IS NULL THEN
+    DELETE FROM public.conversations WHERE id = _conversation_id;
+  ELSE
+    UPDATE public.conversation_participants
+    SET role = 'owner'
+    WHERE conversation_id = _conversation_id AND user_id = _successor_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+-- Read and delivery markers are now keyed by conversation
+DROP FUNCTION public.mark_conversation_read(UUID);
+
+CREATE OR REPLACE FUNCTION public.mark_conversation_read(_conversation_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT public.is_conversation_participant(_conversation_id) THEN
+    RAISE EXCEPTION 'Conversation not found';
+  END IF;
+
+  INSERT INTO public.conversation_reads (conversation_id, user_id, last_read_at, last_delivered_at)
+  VALUES (_conversation_id, auth.uid(), now(), now())
+  ON CONFLICT (conversation_id, user_id)
+  DO UPDATE SET last_read_at = now(), last_delivered_at = now();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+CREATE OR REPLACE FUNCTION public.mark_messages_delivered()
+RETURNS VOID AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO public.conversation_reads (conversation_id, user_id, last_delivered_at)
+  SELECT DISTINCT msg.conversation_id, auth.uid(), now()
+  FROM public.conversation_participants cp
+  JOIN public.messages msg ON msg.conversation_id = cp.conversation_id
+  LEFT JOIN public.conversation_reads r ON r.conversation_id = cp.conversation_id AND r.user_id = auth.uid()
+  WHERE cp.user_id = auth.uid()
+    AND msg.sender_id <> auth.uid()
+    AND msg.created_at > COALESCE(r.last_delivered_at, '-infinity'::timestamptz)
+  ON CONFLICT (conversation_id, user_id)
+  DO UPDATE SET last_delivered_at = now();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+-- Inbox rows cover direct and group conversations alike
+DROP FUNCTION public.get_inbox();
+
+CREATE OR REPLACE FUNCTION public.get_inbox()
+RETURNS TABLE (
+  conversation_id UUID,
+  conversation_type TEXT,
+  title TEXT,
+  avatar_url TEXT,
+  other_user_id UUID,
+  member_count INTEGER,
+  last_message TEXT,
+  last_message_at TIMESTAMP WITH TIME ZONE,
+  last_message_sender_id UUID,
+  last_message_sender_name TEXT,
+  last_message_deleted BOOLEAN,
+  last_message_type TEXT,
+  last_message_attachment_name TEXT,
+  unread_count INTEGER,
+  joined_at TIMESTAMP WITH TIME ZONE
+) AS $$
+  SELECT
+    c.id,
+    c.type,
+    CASE WHEN c.type = 'group' THEN c.name ELSE other_profile.name END,
+    CASE WHEN c.type = 'group' THEN NULL ELSE other_profile.avatar_url END,
+    other.user_id,
+    (SELECT count(*)::INTEGER FROM public.conversation_participants WHERE conversation_id = c.id),
+    last.content,
+    last.created_at,
+    last.sender_id,
+    sender.name,
+    last.deleted_at IS NOT NULL,
+    last.message_type,
+    last.attachment_name,
+    (
+      SELECT count(*)::INTEGER FROM public.messages msg
+      WHERE msg.conversation_id = c.id
+        AND msg.sender_id <> auth.uid()
+        AND msg.deleted_at IS NULL
+        AND msg.created_at > COALESCE(r.last_read_at, me.joined_at)
+    ),
+    me.joined_at
+  FROM public.conversation_participants me
+  JOIN public.conversations c ON c.id = me.conversation_id
+  LEFT JOIN LATERAL (
+    SELECT user_id FROM public.conversation_participants
+    WHERE conversation_id = c.id AND user_id <> auth.uid() AND c.type = 'direct'
+    LIMIT 1
+  ) other ON true
+  LEFT JOIN public.profiles other_profile ON other_profile.user_id = other.user_id
+  LEFT JOIN LATERAL (
+    SELECT content, created_at, sender_id, deleted_at, message_type, attachment_name FROM public.messages
+    WHERE conversation_id = c.id
+    ORDER BY created_at DESC
+    LIMIT 1
+  ) last ON true
+  LEFT JOIN public.profiles sender ON sender.user_id = last.sender_id
+  LEFT JOIN public.conversation_reads r ON r.conversation_id = c.id AND r.user_id = auth.uid()
+  WHERE me.user_id = auth.uid()
+  ORDER BY COALESCE(last.created_at, me.joined_at) DESC;
+$$ LANGUAGE sql STABLE SET search_path = '';
+
+CREATE OR REPLACE FUNCTION public.get_unread_message_count()
+RETURNS INTEGER AS $$
+  SELECT count(*)::INTEGER
+  FROM public.conversation_participants me
+  JOIN public.messages msg ON msg.conversation_id = me.conversation_id
+  LEFT JOIN public.conversation_reads r ON r.conversation_id = me.conversation_id AND r.user_id = auth.uid()
+  WHERE me.user_id = auth.uid()
+    AND msg.sender_id <> auth.uid()
+    AND msg.deleted_at IS NULL
+    AND msg.created_at > COALESCE(r.last_read_at, me.joined_at);
+$$ LANGUAGE sql STABLE SET search_path = '';
+
+-- Enable realtime for conversations and their members
+ALTER TABLE public.conversations REPLICA IDENTITY FULL;
+ALTER TABLE public.conversation_participants REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.conversations;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.conversation_participants;
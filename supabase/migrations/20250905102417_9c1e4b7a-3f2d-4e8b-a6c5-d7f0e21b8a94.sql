@@ -0,0 +1,160 @@
+-- Full-text search over posts, comments, polls and profiles.
+-- Content uses the english configuration for stemming; profiles use simple so names and
+-- skill keywords are matched as typed.
+CREATE OR REPLACE FUNCTION public.text_array_to_string(_values TEXT[])
+RETURNS TEXT AS $$
+  SELECT array_to_string(_values, ' ');
+$$ LANGUAGE sql IMMUTABLE SET search_path = '';
+
+ALTER TABLE public.posts
+ADD COLUMN search_vector TSVECTOR
+GENERATED ALWAYS AS (to_tsvector('english', coalesce(content, ''))) STORED;
+
+ALTER TABLE public.comments
+ADD COLUMN search_vector TSVECTOR
+GENERATED ALWAYS AS (to_tsvector('english', coalesce(content, ''))) STORED;
+
+ALTER TABLE public.polls
+ADD COLUMN search_vector TSVECTOR
+GENERATED ALWAYS AS (to_tsvector('english', coalesce(question, ''))) STORED;
+
+ALTER TABLE public.profiles
+ADD COLUMN search_vector TSVECTOR
+GENERATED ALWAYS AS (
+  setweight(to_tsvector('simple', coalesce(name, '')), 'A')
+  || setweight(to_tsvector('simple', coalesce(public.text_array_to_string(skills), '')), 'B')
+  || setweight(to_tsvector('simple', coalesce(public.text_array_to_string(interests), '')), 'B')
+  || setweight(to_tsvector('simple', coalesce(course, '')), 'C')
+) STORED;
+
+CREATE INDEX idx_posts_search_vector ON public.posts USING GIN (search_vector);
+CREATE INDEX idx_comments_search_vector ON public.comments USING GIN (search_vector);
+CREATE INDEX idx_polls_search_vector ON public.polls USING GIN (search_vector);
+CREATE INDEX idx_profiles_search_vector ON public.profiles USING GIN (search_vector);
+
+-- Every word of the query as a prefix, so people show up while their name is half typed
+CREATE OR REPLACE FUNCTION public.to_prefix_tsquery(_query TEXT)
+RETURNS TSQUERY AS $$
+  SELECT to_tsquery('simple', string_agg(word || ':*', ' & '))
+  FROM regexp_split_to_table(lower(_query), '[^[:alnum:]]+') AS word
+  WHERE word <> '';
+$$ LANGUAGE sql IMMUTABLE SET search_path = '';
+
+-- Ranked matches of each type, at most _limit per type. Headlines wrap matched terms in
+-- <mark></mark>; the client splits on these rather than rendering them as HTML.
+-- context is the parent post for comments, the options for polls and the highlighted
+-- course, skills and interests for people.
+CREATE OR REPLACE FUNCTION public.search_everything(_query TEXT, _limit INTEGER DEFAULT 20)
+RETURNS TABLE (
+  result_type TEXT,
+  id UUID,
+  post_id UUID,
+  user_id UUID,
+  author_name TEXT,
+  author_avatar_url TEXT,
+  headline TEXT,
+  context TEXT,
+  rank REAL,
+  created_at TIMESTAMP WITH TIME ZONE
+) AS $$
+  WITH content_query AS (
+    SELECT websearch_to_tsquery('english', _query) AS q
+  ),
+  people_query AS (
+    SELECT public.to_prefix_tsquery(_query) AS q
+  ),
+  post_results AS (
+    SELECT
+      'post'::TEXT,
+      p.id,
+      NULL::UUID,
+      p.user_id,
+      pr.name,
+      pr.avatar_url,
+      ts_headline('english', p.content, cq.q, 'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15'),
+      NULL::TEXT,
+      ts_rank(p.search_vector, cq.q),
+      p.created_at
+    FROM public.posts p
+    CROSS JOIN content_query cq
+    LEFT JOIN public.profiles pr ON pr.user_id = p.user_id
+    WHERE p.search_vector @@ cq.q
+      AND NOT public.is_blocked_between(auth.uid(), p.user_id)
+    ORDER BY 9 DESC, p.created_at DESC
+    LIMIT _limit
+  ),
+  comment_results AS (
+    SELECT
+      'comment'::TEXT,
+      c.id,
+      c.post_id,
+      c.user_id,
+      pr.name,
+      pr.avatar_url,
+      ts_headline('english', c.content, cq.q, 'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15'),
+      left(p.content, 120),
+      ts_rank(c.search_vector, cq.q),
+      c.created_at
+    FROM public.comments c
+    CROSS JOIN content_query cq
+    JOIN public.posts p ON p.id = c.post_id
+    LEFT JOIN public.profiles pr ON pr.user_id = c.user_id
+    WHERE c.search_vector @@ cq.q
+      AND NOT public.is_blocked_between(auth.uid(), c.user_id)
+      AND NOT public.is_blocked_between(auth.uid(), p.user_id)
+    ORDER BY 9 DESC, c.created_at DESC
+    LIMIT _limit
+  ),
+  poll_results AS (
+    SELECT
+      'poll'::TEXT,
+      pl.id,
+      NULL::UUID,
+      pl.user_id,
+      pr.name,
+      pr.avatar_url,
+      ts_headline('english', pl.question, cq.q, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true'),
+      array_to_string(pl.options, ' · '),
+      ts_rank(pl.search_vector, cq.q),
+      pl.created_at
+    FROM public.polls pl
+    CROSS JOIN content_query cq
+    LEFT JOIN public.profiles pr ON pr.user_id = pl.user_id
+    WHERE pl.search_vector @@ cq.q
+      AND NOT public.is_blocked_between(auth.uid(), pl.user_id)
+    ORDER BY 9 DESC, pl.created_at DESC
+    LIMIT _limit
+  ),
+  profile_results AS (
+    SELECT
+      'profile'::TEXT,
+      pr.id,
+      NULL::UUID,
+      pr.user_id,
+      pr.name,
+      pr.avatar_url,
+      ts_headline('simple', pr.name, pq.q, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true'),
+      ts_headline(
+        'simple',
+        concat_ws(' · ', pr.course, array_to_string(pr.skills, ', '), array_to_string(pr.interests, ', ')),
+        pq.q,
+        'StartSel=<mark>, StopSel=</mark>, HighlightAll=true'
+      ),
+      ts_rank(pr.search_vector, pq.q),
+      pr.created_at
+    FROM public.profiles pr
+    CROSS JOIN people_query pq
+    WHERE pr.search_vector @@ pq.q
+      AND pr.user_id <> auth.uid()
+      AND NOT public.is_blocked_between(auth.uid(), pr.user_id)
+    ORDER BY 9 DESC, pr.name
+    LIMIT _limit
+  )
+  SELECT * FROM post_results
+  UNION ALL
+  SELECT * FROM comment_results
+  UNION ALL
+  SELECT * FROM poll_results
+  UNION ALL
+  SELECT * FROM profile_results;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = '';
@@ -0,0 +1,63 @@
+-- Whether an author's profile passes the feed filters. Empty filters match everyone.
+-- In "any" mode a single selected skill, interest or course is enough; in "all" mode the
+-- author needs every selected skill and interest. A profile has one course, so courses
+-- always match any of the selected values.
+CREATE OR REPLACE FUNCTION public.matches_feed_filters(
+  _profile_skills TEXT[],
+  _profile_interests TEXT[],
+  _profile_course TEXT,
+  _skills TEXT[],
+  _interests TEXT[],
+  _courses TEXT[],
+  _match_all BOOLEAN
+)
+RETURNS BOOLEAN AS $$
+  SELECT CASE
+    WHEN cardinality(COALESCE(_skills, '{}')) = 0
+     AND cardinality(COALESCE(_interests, '{}')) = 0
+     AND cardinality(COALESCE(_courses, '{}')) = 0 THEN true
+    WHEN _match_all THEN
+      COALESCE(_profile_skills, '{}') @> COALESCE(_skills, '{}')
+      AND COALESCE(_profile_interests, '{}') @> COALESCE(_interests, '{}')
+      AND (cardinality(COALESCE(_courses, '{}')) = 0 OR COALESCE(_profile_course = ANY(_courses), false))
+    ELSE
+      COALESCE(_profile_skills, '{}') && COALESCE(_skills, '{}')
+      OR COALESCE(_profile_interests, '{}') && COALESCE(_interests, '{}')
+      OR COALESCE(_profile_course = ANY(_courses), false)
+  END;
+$$ LANGUAGE sql IMMUTABLE SET search_path = '';
+
+-- Posts whose authors pass the feed filters, newest first
+CREATE OR REPLACE FUNCTION public.get_feed_posts(
+  _skills TEXT[] DEFAULT '{}',
+  _interests TEXT[] DEFAULT '{}',
+  _courses TEXT[] DEFAULT '{}',
+  _match_all BOOLEAN DEFAULT false
+)
+RETURNS SETOF public.posts AS $$
+  SELECT po.*
+  FROM public.posts po
+  LEFT JOIN public.profiles pr ON pr.user_id = po.user_id
+  WHERE NOT public.is_blocked_between(auth.uid(), po.user_id)
+    AND public.matches_feed_filters(pr.skills, pr.interests, pr.course, _skills, _interests, _courses, _match_all)
+  ORDER BY po.created_at DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = '';
+
+-- Polls whose authors pass the feed filters, newest first
+CREATE OR REPLACE FUNCTION public.get_feed_polls(
+  _skills TEXT[] DEFAULT '{}',
+  _interests TEXT[] DEFAULT '{}',
+  _courses TEXT[] DEFAULT '{}',
+  _match_all BOOLEAN DEFAULT false
+)
+RETURNS SETOF public.polls AS $$
+  SELECT pl.*
+  FROM public.polls pl
+  LEFT JOIN public.profiles pr ON pr.user_id = pl.user_id
+  WHERE NOT public.is_blocked_between(auth.uid(), pl.user_id)
+    AND public.matches_feed_filters(pr.skills, pr.interests, pr.course, _skills, _interests, _courses, _match_all)
+  ORDER BY pl.created_at DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = '';
+
+CREATE INDEX idx_profiles_skills ON public.profiles USING GIN (skills);
+CREATE INDEX idx_profiles_interests ON public.profiles USING GIN (interests);
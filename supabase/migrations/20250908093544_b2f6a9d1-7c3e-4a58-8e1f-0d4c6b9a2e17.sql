@@ -0,0 +1,105 @@
+-- One feed of posts and polls, newest first, paged by (created_at, id)
+DROP FUNCTION public.get_feed_posts(TEXT[], TEXT[], TEXT[], BOOLEAN);
+DROP FUNCTION public.get_feed_polls(TEXT[], TEXT[], TEXT[], BOOLEAN);
+
+CREATE INDEX idx_posts_created_at_id ON public.posts (created_at DESC, id DESC);
+CREATE INDEX idx_polls_created_at_id ON public.polls (created_at DESC, id DESC);
+
+-- A page of feed items older than the cursor, with author details joined in.
+-- Pass _item_id to fetch a single item, e.g. one that just arrived over realtime;
+-- nothing is returned if it is hidden by the filters or a block.
+CREATE OR REPLACE FUNCTION public.get_feed(
+  _limit INTEGER DEFAULT 20,
+  _cursor_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _cursor_id UUID DEFAULT NULL,
+  _skills TEXT[] DEFAULT '{}',
+  _interests TEXT[] DEFAULT '{}',
+  _courses TEXT[] DEFAULT '{}',
+  _match_all BOOLEAN DEFAULT false,
+  _item_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  item_type TEXT,
+  id UUID,
+  user_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE,
+  author_name TEXT,
+  author_avatar_url TEXT,
+  content TEXT,
+  image_url TEXT,
+  likes INTEGER,
+  question TEXT,
+  options TEXT[],
+  votes JSONB,
+  closes_at TIMESTAMP WITH TIME ZONE,
+  closed_at TIMESTAMP WITH TIME ZONE,
+  allow_multiple BOOLEAN,
+  max_selections INTEGER,
+  hide_results BOOLEAN
+) AS $$
+  WITH items AS (
+    SELECT
+      'post'::TEXT AS item_type,
+      po.id,
+      po.user_id,
+      po.created_at,
+      po.content,
+      po.image_url,
+      po.likes,
+      NULL::TEXT AS question,
+      NULL::TEXT[] AS options,
+      NULL::JSONB AS votes,
+      NULL::TIMESTAMP WITH TIME ZONE AS closes_at,
+      NULL::TIMESTAMP WITH TIME ZONE AS closed_at,
+      NULL::BOOLEAN AS allow_multiple,
+      NULL::INTEGER AS max_selections,
+      NULL::BOOLEAN AS hide_results
+    FROM public.posts po
+    WHERE (_item_id IS NULL OR po.id = _item_id)
+      AND (_cursor_created_at IS NULL OR (po.created_at, po.id) < (_cursor_created_at, _cursor_id))
+    UNION ALL
+    SELECT
+      'poll'::TEXT,
+      pl.id,
+      pl.user_id,
+      pl.created_at,
+      NULL::TEXT,
+      NULL::TEXT,
+      NULL::INTEGER,
+      pl.question,
+      pl.options,
+      pl.votes,
+      pl.closes_at,
+      pl.closed_at,
+      pl.allow_multiple,
+      pl.max_selections,
+      pl.hide_results
+    FROM public.polls pl
+    WHERE (_item_id IS NULL OR pl.id = _item_id)
+      AND (_cursor_created_at IS NULL OR (pl.created_at, pl.id) < (_cursor_created_at, _cursor_id))
+  )
+  SELECT
+    i.item_type,
+    i.id,
+    i.user_id,
+    i.created_at,
+    pr.name,
+    pr.avatar_url,
+    i.content,
+    i.image_url,
+    i.likes,
+    i.question,
+    i.options,
+    i.votes,
+    i.closes_at,
+    i.closed_at,
+    i.allow_multiple,
+    i.max_selections,
+    i.hide_results
+  FROM items i
+  LEFT JOIN public.profiles pr ON pr.user_id = i.user_id
+  WHERE NOT public.is_blocked_between(auth.uid(), i.user_id)
+    AND public.matches_feed_filters(pr.skills, pr.interests, pr.course, _skills, _interests, _courses, _match_all)
+  ORDER BY i.created_at DESC, i.id DESC
+  LIMIT _limit;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = '';
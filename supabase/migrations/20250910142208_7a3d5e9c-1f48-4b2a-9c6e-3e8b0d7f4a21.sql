@@ -0,0 +1,91 @@
+-- Engagement per post for trending, refreshed every five minutes by pg_cron. Likes are
+-- already kept live on posts.likes. Unique engagers counts everyone other than the author
+-- who liked or commented.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+CREATE MATERIALIZED VIEW public.post_engagement AS
+SELECT
+  p.id AS post_id,
+  (SELECT count(*) FROM public.comments c WHERE c.post_id = p.id) AS comment_count,
+  (
+    SELECT count(DISTINCT e.user_id)
+    FROM (
+      SELECT l.user_id FROM public.post_likes l WHERE l.post_id = p.id
+      UNION
+      SELECT c.user_id FROM public.comments c WHERE c.post_id = p.id
+    ) e
+    WHERE e.user_id <> p.user_id
+  ) AS unique_engagers
+FROM public.posts p
+WHERE p.created_at > now() - INTERVAL '30 days';
+
+-- Required for REFRESH ... CONCURRENTLY
+CREATE UNIQUE INDEX idx_post_engagement_post_id ON public.post_engagement (post_id);
+
+-- Only reachable through get_trending_posts, which applies blocks
+REVOKE ALL ON public.post_engagement FROM anon, authenticated;
+
+SELECT cron.schedule(
+  'refresh-post-engagement',
+  '*/5 * * * *',
+  $$REFRESH MATERIALIZED VIEW CONCURRENTLY public.post_engagement$$
+);
+
+-- Trending posts created within the window. Engagement is weighted and decays with age,
+-- HN style: (likes + 2 * comments + 1.5 * unique engagers) / (age in hours + 2) ^ gravity.
+-- Longer windows use a lower gravity so week and month are not just the last day again.
+CREATE OR REPLACE FUNCTION public.get_trending_posts(
+  _window TEXT DEFAULT 'today',
+  _limit INTEGER DEFAULT 20,
+  _offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  content TEXT,
+  image_url TEXT,
+  likes INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE,
+  author_name TEXT,
+  author_avatar_url TEXT,
+  comment_count INTEGER,
+  unique_engagers INTEGER,
+  score NUMERIC
+) AS $$
+DECLARE
+  _since TIMESTAMP WITH TIME ZONE;
+  _gravity NUMERIC;
+BEGIN
+  CASE _window
+    WHEN 'today' THEN _since := now() - INTERVAL '1 day'; _gravity := 1.8;
+    WHEN 'week' THEN _since := now() - INTERVAL '7 days'; _gravity := 1.5;
+    WHEN 'month' THEN _since := now() - INTERVAL '30 days'; _gravity := 1.2;
+    ELSE RAISE EXCEPTION 'Unknown trending window: %', _window;
+  END CASE;
+
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.user_id,
+    p.content,
+    p.image_url,
+    p.likes,
+    p.created_at,
+    pr.name,
+    pr.avatar_url,
+    COALESCE(e.comment_count, 0)::INTEGER,
+    COALESCE(e.unique_engagers, 0)::INTEGER,
+    round((
+      (p.likes + 2 * COALESCE(e.comment_count, 0) + 1.5 * COALESCE(e.unique_engagers, 0))
+      / power(extract(epoch FROM now() - p.created_at) / 3600 + 2, _gravity)
+    )::NUMERIC, 4) AS score
+  FROM public.posts p
+  LEFT JOIN public.post_engagement e ON e.post_id = p.id
+  LEFT JOIN public.profiles pr ON pr.user_id = p.user_id
+  WHERE p.created_at > _since
+    AND NOT public.is_blocked_between(auth.uid(), p.user_id)
+  ORDER BY 11 DESC, p.created_at DESC
+  LIMIT _limit
+  OFFSET _offset;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = '';
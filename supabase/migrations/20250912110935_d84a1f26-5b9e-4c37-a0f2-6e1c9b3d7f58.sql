@@ -0,0 +1,211 @@
+-- Hashtags used in posts and polls. Tags are stored lowercase so #SRMHackathon and
+-- #srmhackathon are the same topic; each row points at either a post or a poll.
+CREATE TABLE public.post_tags (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  tag TEXT NOT NULL CHECK (tag = lower(tag) AND char_length(tag) BETWEEN 1 AND 50),
+  post_id UUID REFERENCES public.posts(id) ON DELETE CASCADE,
+  poll_id UUID REFERENCES public.polls(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT post_tags_target_check CHECK ((post_id IS NULL) <> (poll_id IS NULL)),
+  UNIQUE(tag, post_id),
+  UNIQUE(tag, poll_id)
+);
+
+CREATE INDEX idx_post_tags_post_id ON public.post_tags(post_id);
+CREATE INDEX idx_post_tags_poll_id ON public.post_tags(poll_id);
+CREATE INDEX idx_post_tags_created_at ON public.post_tags(created_at);
+
+ALTER TABLE public.post_tags ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by the sync triggers below
+CREATE POLICY "Post tags are viewable by everyone" 
+ON public.post_tags 
+FOR SELECT 
+USING (true);
+
+-- Distinct lowercase hashtags in a piece of text. A tag starts with a letter and must not
+-- follow a word character, so "C#" and HTML entities like "&#39;" are not tags.
+-- Mirrors HASHTAG_PATTERN in src/lib/hashtags.ts.
+CREATE OR REPLACE FUNCTION public.extract_hashtags(_text TEXT)
+RETURNS TEXT[] AS $$
+  SELECT COALESCE(array_agg(DISTINCT lower(m[1])), '{}')
+  FROM regexp_matches(COALESCE(_text, ''), '(?:^|[^[:alnum:]_&#])#([[:alpha:]][[:alnum:]_]{0,49})', 'g') AS m;
+$$ LANGUAGE sql IMMUTABLE SET search_path = '';
+
+-- Replace the tags of a post or poll whenever its text changes. Tag rows take the
+-- parent's created_at so topic popularity reflects when the content was shared.
+CREATE OR REPLACE FUNCTION public.sync_post_tags()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'posts' THEN
+    DELETE FROM public.post_tags WHERE post_id = NEW.id;
+
+    INSERT INTO public.post_tags (tag, post_id, created_at)
+    SELECT unnest(public.extract_hashtags(NEW.content)), NEW.id, NEW.created_at;
+  ELSE
+    DELETE FROM public.post_tags WHERE poll_id = NEW.id;
+
+    INSERT INTO public.post_tags (tag, poll_id, created_at)
+    SELECT unnest(public.extract_hashtags(NEW.question)), NEW.id, NEW.created_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+CREATE TRIGGER sync_post_tags_on_posts
+  AFTER INSERT OR UPDATE OF content ON public.posts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_post_tags();
+
+CREATE TRIGGER sync_post_tags_on_polls
+  AFTER INSERT OR UPDATE OF question ON public.polls
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_post_tags();
+
+-- Tag everything shared before hashtags were parsed
+INSERT INTO public.post_tags (tag, post_id, created_at)
+SELECT unnest(public.extract_hashtags(content)), id, created_at
+FROM public.posts;
+
+INSERT INTO public.post_tags (tag, poll_id, created_at)
+SELECT unnest(public.extract_hashtags(question)), id, created_at
+FROM public.polls;
+
+-- Tag usage counts, skipping content from blocked users
+CREATE OR REPLACE FUNCTION public.get_popular_tags(_days INTEGER DEFAULT 7, _limit INTEGER DEFAULT 10)
+RETURNS TABLE (
+  tag TEXT,
+  use_count INTEGER
+) AS $$
+  SELECT t.tag, count(*)::INTEGER
+  FROM public.post_tags t
+  LEFT JOIN public.posts po ON po.id = t.post_id
+  LEFT JOIN public.polls pl ON pl.id = t.poll_id
+  WHERE t.created_at > now() - make_interval(days => _days)
+    AND NOT public.is_blocked_between(auth.uid(), COALESCE(po.user_id, pl.user_id))
+  GROUP BY t.tag
+  ORDER BY 2 DESC, t.tag
+  LIMIT _limit;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = '';
+
+-- Existing tags starting with _prefix, most used first, for composer suggestions
+CREATE OR REPLACE FUNCTION public.search_tags(_prefix TEXT, _limit INTEGER DEFAULT 8)
+RETURNS TABLE (
+  tag TEXT,
+  use_count INTEGER
+) AS $$
+  SELECT t.tag, count(*)::INTEGER
+  FROM public.post_tags t
+  WHERE t.tag LIKE replace(lower(_prefix), '_', '\_') || '%'
+  GROUP BY t.tag
+  ORDER BY 2 DESC, t.tag
+  LIMIT _limit;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = '';
+
+CREATE INDEX idx_post_tags_tag_pattern ON public.post_tags (tag text_pattern_ops);
+
+-- The feed can now be narrowed to one hashtag for topic pages
+DROP FUNCTION public.get_feed(INTEGER, TIMESTAMP WITH TIME ZONE, UUID, TEXT[], TEXT[], TEXT[], BOOLEAN, UUID);
+
+CREATE OR REPLACE FUNCTION public.get_feed(
+  _limit INTEGER DEFAULT 20,
+  _cursor_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _cursor_id UUID DEFAULT NULL,
+  _skills TEXT[] DEFAULT '{}',
+  _interests TEXT[] DEFAULT '{}',
+  _courses TEXT[] DEFAULT '{}',
+  _match_all BOOLEAN DEFAULT false,
+  _item_id UUID DEFAULT NULL,
+  _tag TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  item_type TEXT,
+  id UUID,
+  user_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE,
+  author_name TEXT,
+  author_avatar_url TEXT,
+  content TEXT,
+  image_url TEXT,
+  likes INTEGER,
+  question TEXT,
+  options TEXT[],
+  votes JSONB,
+  closes_at TIMESTAMP WITH TIME ZONE,
+  closed_at TIMESTAMP WITH TIME ZONE,
+  allow_multiple BOOLEAN,
+  max_selections INTEGER,
+  hide_results BOOLEAN
+) AS $$
+  WITH items AS (
+    SELECT
+      'post'::TEXT AS item_type,
+      po.id,
+      po.user_id,
+      po.created_at,
+      po.content,
+      po.image_url,
+      po.likes,
+      NULL::TEXT AS question,
+      NULL::TEXT[] AS options,
+      NULL::JSONB AS votes,
+      NULL::TIMESTAMP WITH TIME ZONE AS closes_at,
+      NULL::TIMESTAMP WITH TIME ZONE AS closed_at,
+      NULL::BOOLEAN AS allow_multiple,
+      NULL::INTEGER AS max_selections,
+      NULL::BOOLEAN AS hide_results
+    FROM public.posts po
+    WHERE (_item_id IS NULL OR po.id = _item_id)
+      AND (_cursor_created_at IS NULL OR (po.created_at, po.id) < (_cursor_created_at, _cursor_id))
+    UNION ALL
+    SELECT
+      'poll'::TEXT,
+      pl.id,
+      pl.user_id,
+      pl.created_at,
+      NULL::TEXT,
+      NULL::TEXT,
+      NULL::INTEGER,
+      pl.question,
+      pl.options,
+      pl.votes,
+      pl.closes_at,
+      pl.closed_at,
+      pl.allow_multiple,
+      pl.max_selections,
+      pl.hide_results
+    FROM public.polls pl
+    WHERE (_item_id IS NULL OR pl.id = _item_id)
+      AND (_cursor_created_at IS NULL OR (pl.created_at, pl.id) < (_cursor_created_at, _cursor_id))
+  )
+  SELECT
+    i.item_type,
+    i.id,
+    i.user_id,
+    i.created_at,
+    pr.name,
+    pr.avatar_url,
+    i.content,
+    i.image_url,
+    i.likes,
+    i.question,
+    i.options,
+    i.votes,
+    i.closes_at,
+    i.closed_at,
+    i.allow_multiple,
+    i.max_selections,
+    i.hide_results
+  FROM items i
+  LEFT JOIN public.profiles pr ON pr.user_id = i.user_id
+  WHERE NOT public.is_blocked_between(auth.uid(), i.user_id)
+    AND public.matches_feed_filters(pr.skills, pr.interests, pr.course, _skills, _interests, _courses, _match_all)
+    AND (_tag IS NULL OR EXISTS (
+      SELECT 1 FROM public.post_tags t
+      WHERE t.tag = lower(_tag)
+        AND (t.post_id = i.id OR t.poll_id = i.id)
+    ))
+  ORDER BY i.created_at DESC, i.id DESC
+  LIMIT _limit;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = '';
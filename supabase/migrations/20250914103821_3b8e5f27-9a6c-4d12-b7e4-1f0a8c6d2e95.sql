@@ -0,0 +1,182 @@
+-- Mentions are written into text as "@[Display Name](user id)" so they survive renames
+-- and can be rendered as profile links. Each row records one mentioned user for a post,
+-- comment or chat message and is kept in sync by the triggers below.
+CREATE TABLE public.mentions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  author_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  post_id UUID REFERENCES public.posts(id) ON DELETE CASCADE,
+  comment_id UUID REFERENCES public.comments(id) ON DELETE CASCADE,
+  message_id UUID REFERENCES public.messages(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT mentions_target_check CHECK (num_nonnulls(post_id, comment_id, message_id) = 1),
+  UNIQUE(user_id, post_id),
+  UNIQUE(user_id, comment_id),
+  UNIQUE(user_id, message_id)
+);
+
+CREATE INDEX idx_mentions_post_id ON public.mentions(post_id);
+CREATE INDEX idx_mentions_comment_id ON public.mentions(comment_id);
+CREATE INDEX idx_mentions_message_id ON public.mentions(message_id);
+
+ALTER TABLE public.mentions ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by the sync triggers below
+CREATE POLICY "Users can view mentions they made or received" 
+ON public.mentions 
+FOR SELECT 
+USING (auth.uid() = user_id OR auth.uid() = author_id);
+
+-- Notifications delivered to a user. Only mentions create them for now.
+CREATE TABLE public.notifications (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  actor_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('mention')),
+  post_id UUID REFERENCES public.posts(id) ON DELETE CASCADE,
+  comment_id UUID REFERENCES public.comments(id) ON DELETE CASCADE,
+  conversation_id UUID REFERENCES public.conversations(id) ON DELETE CASCADE,
+  message_id UUID REFERENCES public.messages(id) ON DELETE CASCADE,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_notifications_user_created_at ON public.notifications(user_id, created_at DESC);
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own notifications" 
+ON public.notifications 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own notifications" 
+ON public.notifications 
+FOR UPDATE 
+USING (auth.uid() = user_id);
+
+-- Enable realtime so new notifications reach the recipient immediately
+ALTER TABLE public.notifications REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+
+-- Distinct user ids mentioned in a piece of text.
+-- Mirrors MENTION_PATTERN in src/lib/mentions.ts.
+CREATE OR REPLACE FUNCTION public.extract_mentions(_text TEXT)
+RETURNS UUID[] AS $$
+  SELECT COALESCE(array_agg(DISTINCT m[1]::UUID), '{}')
+  FROM regexp_matches(
+    COALESCE(_text, ''),
+    '@\[[^]]{1,100}\]\(([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})\)',
+    'g'
+  ) AS m;
+$$ LANGUAGE sql IMMUTABLE SET search_path = '';
+
+-- Bring the mentions of a post, comment or message in line with its text. Mentions that
+-- are kept across an edit are left alone so the user is not notified twice. Authors
+-- cannot mention themselves or anyone they have blocked (or who blocked them), and chat
+-- mentions only reach members of the conversation.
+CREATE OR REPLACE FUNCTION public.sync_mentions()
+RETURNS TRIGGER AS $$
+DECLARE
+  _author_id UUID;
+  _mentioned UUID[];
+BEGIN
+  IF TG_TABLE_NAME = 'messages' THEN
+    _author_id := NEW.sender_id;
+  ELSE
+    _author_id := NEW.user_id;
+  END IF;
+
+  SELECT COALESCE(array_agg(p.user_id), '{}') INTO _mentioned
+  FROM public.profiles p
+  WHERE p.user_id = ANY(public.extract_mentions(NEW.content))
+    AND p.user_id <> _author_id
+    AND NOT public.is_blocked_between(_author_id, p.user_id)
+    AND (
+      TG_TABLE_NAME <> 'messages'
+      OR EXISTS (
+        SELECT 1 FROM public.conversation_participants cp
+        WHERE cp.conversation_id = NEW.conversation_id AND cp.user_id = p.user_id
+      )
+    );
+
+  IF TG_TABLE_NAME = 'posts' THEN
+    DELETE FROM public.mentions WHERE post_id = NEW.id AND NOT user_id = ANY(_mentioned);
+
+    INSERT INTO public.mentions (user_id, author_id, post_id)
+    SELECT unnest(_mentioned), _author_id, NEW.id
+    ON CONFLICT DO NOTHING;
+  ELSIF TG_TABLE_NAME = 'comments' THEN
+    DELETE FROM public.mentions WHERE comment_id = NEW.id AND NOT user_id = ANY(_mentioned);
+
+    INSERT INTO public.mentions (user_id, author_id, comment_id)
+    SELECT unnest(_mentioned), _author_id, NEW.id
+    ON CONFLICT DO NOTHING;
+  ELSE
+    DELETE FROM public.mentions WHERE message_id = NEW.id AND NOT user_id = ANY(_mentioned);
+
+    INSERT INTO public.mentions (user_id, author_id, message_id)
+    SELECT unnest(_mentioned), _author_id, NEW.id
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+CREATE TRIGGER sync_mentions_on_posts
+  AFTER INSERT OR UPDATE OF content ON public.posts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_mentions();
+
+CREATE TRIGGER sync_mentions_on_comments
+  AFTER INSERT OR UPDATE OF content ON public.comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_mentions();
+
+CREATE TRIGGER sync_mentions_on_messages
+  AFTER INSERT OR UPDATE OF content ON public.messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_mentions();
+
+-- Notify the mentioned user, pointing at the post a comment belongs to and the
+-- conversation a message was sent in so the client can link straight there
+CREATE OR REPLACE FUNCTION public.notify_mention()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.notifications (user_id, actor_id, type, post_id, comment_id, conversation_id, message_id)
+  SELECT
+    NEW.user_id,
+    NEW.author_id,
+    'mention',
+    COALESCE(NEW.post_id, (SELECT c.post_id FROM public.comments c WHERE c.id = NEW.comment_id)),
+    NEW.comment_id,
+    (SELECT m.conversation_id FROM public.messages m WHERE m.id = NEW.message_id),
+    NEW.message_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+CREATE TRIGGER notify_mention_on_insert
+  AFTER INSERT ON public.mentions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_mention();
+
+-- Profiles matching a name for mention suggestions, skipping the caller and blocked users
+CREATE OR REPLACE FUNCTION public.search_mentionable_profiles(_query TEXT, _limit INTEGER DEFAULT 6)
+RETURNS TABLE (
+  user_id UUID,
+  name TEXT,
+  avatar_url TEXT
+) AS $$
+  SELECT p.user_id, p.name, p.avatar_url
+  FROM public.profiles p
+  CROSS JOIN (SELECT replace(_query, '_', '\_') AS prefix) q
+  WHERE p.user_id <> auth.uid()
+    AND NOT public.is_blocked_between(auth.uid(), p.user_id)
+    AND (p.name ILIKE q.prefix || '%' OR p.name ILIKE '% ' || q.prefix || '%')
+  -- Names starting with the query come before later-word matches
+  ORDER BY p.name ILIKE q.prefix || '%' DESC, p.name
+  LIMIT _limit;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = '';
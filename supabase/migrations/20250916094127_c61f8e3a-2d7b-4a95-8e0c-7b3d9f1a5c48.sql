@@ -0,0 +1,229 @@
+-- Notifications now cover likes, comments, poll votes, matches and messages as well as mentions
+ALTER TABLE public.notifications
+  ADD COLUMN poll_id UUID REFERENCES public.polls(id) ON DELETE CASCADE,
+  ADD COLUMN match_id UUID REFERENCES public.matches(id) ON DELETE CASCADE;
+
+ALTER TABLE public.notifications DROP CONSTRAINT notifications_type_check;
+ALTER TABLE public.notifications
+  ADD CONSTRAINT notifications_type_check
+  CHECK (type IN ('like', 'comment', 'poll_vote', 'match', 'message', 'mention'));
+
+CREATE INDEX idx_notifications_unread ON public.notifications(user_id) WHERE read_at IS NULL;
+
+-- Notifications are only marked read through mark_notifications_read
+DROP POLICY "Users can update their own notifications" ON public.notifications;
+
+-- Shared by every notification trigger: nobody is notified about their own actions or
+-- by someone on the other side of a block
+CREATE OR REPLACE FUNCTION public.create_notification(
+  _user_id UUID,
+  _actor_id UUID,
+  _type TEXT,
+  _post_id UUID DEFAULT NULL,
+  _comment_id UUID DEFAULT NULL,
+  _poll_id UUID DEFAULT NULL,
+  _match_id UUID DEFAULT NULL,
+  _conversation_id UUID DEFAULT NULL,
+  _message_id UUID DEFAULT NULL
+)
+RETURNS VOID AS $$
+BEGIN
+  IF _user_id IS NULL OR _user_id = _actor_id OR public.is_blocked_between(_user_id, _actor_id) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.notifications (
+    user_id, actor_id, type, post_id, comment_id, poll_id, match_id, conversation_id, message_id
+  )
+  VALUES (
+    _user_id, _actor_id, _type, _post_id, _comment_id, _poll_id, _match_id, _conversation_id, _message_id
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+REVOKE EXECUTE ON FUNCTION public.create_notification(UUID, UUID, TEXT, UUID, UUID, UUID, UUID, UUID, UUID)
+  FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.notify_mention()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.create_notification(
+    _user_id => NEW.user_id,
+    _actor_id => NEW.author_id,
+    _type => 'mention',
+    _post_id => COALESCE(NEW.post_id, (SELECT c.post_id FROM public.comments c WHERE c.id = NEW.comment_id)),
+    _comment_id => NEW.comment_id,
+    _conversation_id => (SELECT m.conversation_id FROM public.messages m WHERE m.id = NEW.message_id),
+    _message_id => NEW.message_id
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+-- One notification per person per post, however often they unlike and like again
+CREATE OR REPLACE FUNCTION public.notify_post_like()
+RETURNS TRIGGER AS $$
+DECLARE
+  _owner_id UUID;
+BEGIN
+  SELECT user_id INTO _owner_id FROM public.posts WHERE id = NEW.post_id;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.notifications
+    WHERE user_id = _owner_id AND actor_id = NEW.user_id AND type = 'like' AND post_id = NEW.post_id
+  ) THEN
+    PERFORM public.create_notification(_owner_id, NEW.user_id, 'like', _post_id => NEW.post_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+CREATE TRIGGER notify_post_like_on_insert
+  AFTER INSERT ON public.post_likes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_post_like();
+
+-- A post owner who is mentioned in the comment gets the mention notification instead
+CREATE OR REPLACE FUNCTION public.notify_comment()
+RETURNS TRIGGER AS $$
+DECLARE
+  _owner_id UUID;
+BEGIN
+  SELECT user_id INTO _owner_id FROM public.posts WHERE id = NEW.post_id;
+
+  IF NOT _owner_id = ANY(public.extract_mentions(NEW.content)) THEN
+    PERFORM public.create_notification(
+      _owner_id, NEW.user_id, 'comment', _post_id => NEW.post_id, _comment_id => NEW.id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+CREATE TRIGGER notify_comment_on_insert
+  AFTER INSERT ON public.comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_comment();
+
+-- Multiple-choice ballots insert a row per option, so only the first one notifies
+CREATE OR REPLACE FUNCTION public.notify_poll_vote()
+RETURNS TRIGGER AS $$
+DECLARE
+  _owner_id UUID;
+BEGIN
+  SELECT user_id INTO _owner_id FROM public.polls WHERE id = NEW.poll_id;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.notifications
+    WHERE user_id = _owner_id AND actor_id = NEW.user_id AND type = 'poll_vote' AND poll_id = NEW.poll_id
+  ) THEN
+    PERFORM public.create_notification(_owner_id, NEW.user_id, 'poll_vote', _poll_id => NEW.poll_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+CREATE TRIGGER notify_poll_vote_on_insert
+  AFTER INSERT ON public.poll_votes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_poll_vote();
+
+-- Both people hear about a new match, except whoever completed it and saw it happen
+CREATE OR REPLACE FUNCTION public.notify_match()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS DISTINCT FROM NEW.user_id THEN
+    PERFORM public.create_notification(NEW.user_id, NEW.matched_user_id, 'match', _match_id => NEW.id);
+  END IF;
+
+  IF auth.uid() IS DISTINCT FROM NEW.matched_user_id THEN
+    PERFORM public.create_notification(NEW.matched_user_id, NEW.user_id, 'match', _match_id => NEW.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+CREATE TRIGGER notify_match_on_insert
+  AFTER INSERT ON public.matches
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_match();
+
+-- Unread message notifications collapse into one per conversation that points at the
+-- latest message. Members mentioned in the message get the mention notification instead.
+CREATE OR REPLACE FUNCTION public.notify_message()
+RETURNS TRIGGER AS $$
+DECLARE
+  _recipient_id UUID;
+BEGIN
+  FOR _recipient_id IN
+    SELECT cp.user_id FROM public.conversation_participants cp
+    WHERE cp.conversation_id = NEW.conversation_id
+      AND cp.user_id <> NEW.sender_id
+      AND NOT cp.user_id = ANY(public.extract_mentions(NEW.content))
+  LOOP
+    UPDATE public.notifications
+    SET actor_id = NEW.sender_id, message_id = NEW.id, created_at = NEW.created_at
+    WHERE user_id = _recipient_id
+      AND type = 'message'
+      AND conversation_id = NEW.conversation_id
+      AND read_at IS NULL
+      AND NOT public.is_blocked_between(_recipient_id, NEW.sender_id);
+
+    IF NOT FOUND THEN
+      PERFORM public.create_notification(
+        _recipient_id, NEW.sender_id, 'message',
+        _conversation_id => NEW.conversation_id, _message_id => NEW.id
+      );
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+CREATE TRIGGER notify_message_on_insert
+  AFTER INSERT ON public.messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_message();
+
+-- Mark the given notifications, or all of them, as read for the current user
+CREATE OR REPLACE FUNCTION public.mark_notifications_read(_ids UUID[] DEFAULT NULL)
+RETURNS VOID AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  UPDATE public.notifications
+  SET read_at = now()
+  WHERE user_id = auth.uid()
+    AND read_at IS NULL
+    AND (_ids IS NULL OR id = ANY(_ids));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+-- Opening a conversation also clears its message and mention notifications
+CREATE OR REPLACE FUNCTION public.mark_conversation_read(_conversation_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT public.is_conversation_participant(_conversation_id) THEN
+    RAISE EXCEPTION 'Conversation not found';
+  END IF;
+
+  INSERT INTO public.conversation_reads (conversation_id, user_id, last_read_at, last_delivered_at)
+  VALUES (_conversation_id, auth.uid(), now(), now())
+  ON CONFLICT (conversation_id, user_id)
+  DO UPDATE SET last_read_at = now(), last_delivered_at = now();
+
+  UPDATE public.notifications
+  SET read_at = now()
+  WHERE user_id = auth.uid()
+    AND conversation_id = _conversation_id
+    AND read_at IS NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
@@ -0,0 +1,187 @@
+-- How each user wants to hear about every kind of notification: not at all, in the app
+-- only, or in the app plus a daily or weekly email digest. Users without a row get in_app.
+CREATE TABLE public.notification_preferences (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE UNIQUE,
+  likes TEXT NOT NULL DEFAULT 'in_app' CHECK (likes IN ('off', 'in_app', 'daily', 'weekly')),
+  comments TEXT NOT NULL DEFAULT 'in_app' CHECK (comments IN ('off', 'in_app', 'daily', 'weekly')),
+  poll_votes TEXT NOT NULL DEFAULT 'in_app' CHECK (poll_votes IN ('off', 'in_app', 'daily', 'weekly')),
+  matches TEXT NOT NULL DEFAULT 'in_app' CHECK (matches IN ('off', 'in_app', 'daily', 'weekly')),
+  messages TEXT NOT NULL DEFAULT 'in_app' CHECK (messages IN ('off', 'in_app', 'daily', 'weekly')),
+  mentions TEXT NOT NULL DEFAULT 'in_app' CHECK (mentions IN ('off', 'in_app', 'daily', 'weekly')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own notification preferences" 
+ON public.notification_preferences 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own notification preferences" 
+ON public.notification_preferences 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own notification preferences" 
+ON public.notification_preferences 
+FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_notification_preferences_updated_at
+BEFORE UPDATE ON public.notification_preferences
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Set once a notification has gone out in a digest so it is never emailed twice
+ALTER TABLE public.notifications ADD COLUMN emailed_at TIMESTAMP WITH TIME ZONE;
+
+-- The delivery setting that applies to a notification type for a user
+CREATE OR REPLACE FUNCTION public.get_notification_delivery(_user_id UUID, _type TEXT)
+RETURNS TEXT AS $$
+  SELECT COALESCE(
+    (
+      SELECT CASE _type
+        WHEN 'like' THEN np.likes
+        WHEN 'comment' THEN np.comments
+        WHEN 'poll_vote' THEN np.poll_votes
+        WHEN 'match' THEN np.matches
+        WHEN 'message' THEN np.messages
+        WHEN 'mention' THEN np.mentions
+      END
+      FROM public.notification_preferences np
+      WHERE np.user_id = _user_id
+    ),
+    'in_app'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = '';
+
+-- Skip notification types the recipient has switched off
+CREATE OR REPLACE FUNCTION public.create_notification(
+  _user_id UUID,
+  _actor_id UUID,
+  _type TEXT,
+  _post_id UUID DEFAULT NULL,
+  _comment_id UUID DEFAULT NULL,
+  _poll_id UUID DEFAULT NULL,
+  _match_id UUID DEFAULT NULL,
+  _conversation_id UUID DEFAULT NULL,
+  _message_id UUID DEFAULT NULL
+)
+RETURNS VOID AS $$
+BEGIN
+  IF _user_id IS NULL
+    OR _user_id = _actor_id
+    OR public.is_blocked_between(_user_id, _actor_id)
+    OR public.get_notification_delivery(_user_id, _type) = 'off'
+  THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.notifications (
+    user_id, actor_id, type, post_id, comment_id, poll_id, match_id, conversation_id, message_id
+  )
+  VALUES (
+    _user_id, _actor_id, _type, _post_id, _comment_id, _poll_id, _match_id, _conversation_id, _message_id
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+-- Unseen notifications due in a daily or weekly digest, with what the email needs to
+-- describe them. Message notifications only carry the group name, never message text.
+CREATE OR REPLACE FUNCTION public.get_notification_digest(_frequency TEXT)
+RETURNS TABLE (
+  notification_id UUID,
+  user_id UUID,
+  email TEXT,
+  recipient_name TEXT,
+  type TEXT,
+  actor_name TEXT,
+  post_id UUID,
+  poll_id UUID,
+  match_id UUID,
+  conversation_id UUID,
+  comment_id UUID,
+  message_id UUID,
+  context TEXT,
+  created_at TIMESTAMP WITH TIME ZONE
+) AS $$
+  SELECT
+    n.id,
+    n.user_id,
+    u.email::TEXT,
+    rp.name,
+    n.type,
+    ap.name,
+    n.post_id,
+    n.poll_id,
+    n.match_id,
+    n.conversation_id,
+    n.comment_id,
+    n.message_id,
+    COALESCE(po.content, pl.question, c.name),
+    n.created_at
+  FROM public.notifications n
+  JOIN auth.users u ON u.id = n.user_id
+  LEFT JOIN public.profiles rp ON rp.user_id = n.user_id
+  LEFT JOIN public.profiles ap ON ap.user_id = n.actor_id
+  LEFT JOIN public.posts po ON po.id = n.post_id
+  LEFT JOIN public.polls pl ON pl.id = n.poll_id
+  LEFT JOIN public.conversations c ON c.id = n.conversation_id
+  WHERE n.read_at IS NULL
+    AND n.emailed_at IS NULL
+    AND u.email IS NOT NULL
+    AND public.get_notification_delivery(n.user_id, n.type) = _frequency
+  ORDER BY n.user_id, n.created_at DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = '';
+
+CREATE OR REPLACE FUNCTION public.mark_notifications_emailed(_ids UUID[])
+RETURNS VOID AS $$
+  UPDATE public.notifications
+  SET emailed_at = now()
+  WHERE id = ANY(_ids);
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = '';
+
+-- Preferences stay private, and digests are only built by the send-notification-digest
+-- Edge Function
+REVOKE EXECUTE ON FUNCTION public.get_notification_delivery(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_notification_digest(TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.mark_notifications_emailed(UUID[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_notification_digest(TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.mark_notifications_emailed(UUID[]) TO service_role;
+
+-- Send digests at 08:00 UTC, daily and on Mondays. The project URL and service role key
+-- are read from Vault secrets named project_url and service_role_key.
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'send-daily-notification-digest',
+  '0 8 * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/send-notification-digest',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{"frequency": "daily"}'::jsonb
+  )
+  $$
+);
+
+SELECT cron.schedule(
+  'send-weekly-notification-digest',
+  '0 8 * * 1',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/send-notification-digest',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{"frequency": "weekly"}'::jsonb
+  )
+  $$
+);
@@ -0,0 +1,93 @@
+-- Reply threading for comments. Top-level comments have depth 0 and replies nest at most
+-- two levels deep. Deleting a comment deletes its replies with it.
+ALTER TABLE public.comments
+  ADD COLUMN parent_id UUID REFERENCES public.comments(id) ON DELETE CASCADE,
+  ADD COLUMN depth SMALLINT NOT NULL DEFAULT 0 CHECK (depth BETWEEN 0 AND 2),
+  ADD COLUMN edited_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_comments_post_id ON public.comments (post_id, created_at);
+CREATE INDEX idx_comments_parent_id ON public.comments (parent_id);
+
+-- Derive depth from the parent on insert, keep the thread fixed on update and mark
+-- content changes as edits
+CREATE OR REPLACE FUNCTION public.set_comment_thread()
+RETURNS TRIGGER AS $$
+DECLARE
+  _parent public.comments%ROWTYPE;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    NEW.post_id := OLD.post_id;
+    NEW.parent_id := OLD.parent_id;
+    NEW.depth := OLD.depth;
+    NEW.user_id := OLD.user_id;
+    NEW.created_at := OLD.created_at;
+
+    IF NEW.content IS DISTINCT FROM OLD.content THEN
+      NEW.edited_at := now();
+    ELSE
+      NEW.edited_at := OLD.edited_at;
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  NEW.edited_at := NULL;
+
+  IF NEW.parent_id IS NULL THEN
+    NEW.depth := 0;
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _parent
+  FROM public.comments
+  WHERE id = NEW.parent_id;
+
+  IF NOT FOUND OR _parent.post_id <> NEW.post_id THEN
+    RAISE EXCEPTION 'Parent comment not found on this post';
+  END IF;
+
+  IF _parent.depth >= 2 THEN
+    RAISE EXCEPTION 'Replies can only be nested two levels deep';
+  END IF;
+
+  IF public.is_blocked_between(NEW.user_id, _parent.user_id) THEN
+    RAISE EXCEPTION 'Cannot reply to this comment';
+  END IF;
+
+  NEW.depth := _parent.depth + 1;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+CREATE TRIGGER set_comment_thread
+BEFORE INSERT OR UPDATE ON public.comments
+FOR EACH ROW
+EXECUTE FUNCTION public.set_comment_thread();
+
+-- Post owners can moderate the conversation under their own posts
+CREATE POLICY "Post owners can delete comments on their posts" 
+ON public.comments 
+FOR DELETE 
+USING (
+  EXISTS (
+    SELECT 1 FROM public.posts p
+    WHERE p.id = post_id AND p.user_id = auth.uid()
+  )
+);
+
+-- Realtime DELETE events only carry the primary key otherwise, and clients need post_id
+-- to know which post's comments changed
+ALTER TABLE public.comments REPLICA IDENTITY FULL;
+
+-- Comment counts for a page of posts, leaving out comments the caller can't see
+CREATE OR REPLACE FUNCTION public.get_comment_counts(_post_ids UUID[])
+RETURNS TABLE (
+  post_id UUID,
+  comment_count BIGINT
+) AS $$
+  SELECT c.post_id, count(*)
+  FROM public.comments c
+  WHERE c.post_id = ANY(_post_ids)
+    AND NOT public.is_blocked_between(auth.uid(), c.user_id)
+  GROUP BY c.post_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = '';
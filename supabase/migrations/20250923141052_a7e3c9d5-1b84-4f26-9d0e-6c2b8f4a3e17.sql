@@ -0,0 +1,188 @@
+-- Question posts. The author can accept one comment on the post as the answer; deleting
+-- that comment leaves the question unanswered again.
+ALTER TABLE public.posts
+  ADD COLUMN is_question BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN accepted_comment_id UUID REFERENCES public.comments(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_posts_unanswered ON public.posts (created_at DESC, id DESC)
+WHERE is_question AND accepted_comment_id IS NULL;
+
+-- Only questions have answers, and the answer has to be a comment on the same post
+CREATE OR REPLACE FUNCTION public.check_accepted_answer()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT NEW.is_question THEN
+    NEW.accepted_comment_id := NULL;
+  END IF;
+
+  IF NEW.accepted_comment_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.comments c
+    WHERE c.id = NEW.accepted_comment_id AND c.post_id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'Accepted answer must be a comment on this post';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+CREATE TRIGGER check_accepted_answer
+BEFORE INSERT OR UPDATE OF is_question, accepted_comment_id ON public.posts
+FOR EACH ROW
+EXECUTE FUNCTION public.check_accepted_answer();
+
+-- Emoji reactions on comments, from a fixed set
+CREATE TABLE public.comment_reactions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  comment_id UUID NOT NULL REFERENCES public.comments(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  emoji TEXT NOT NULL CHECK (emoji IN ('👍', '❤️', '😂', '🎉', '🤔', '🙏')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (comment_id, user_id, emoji)
+);
+
+CREATE INDEX idx_comment_reactions_comment_id ON public.comment_reactions (comment_id);
+
+ALTER TABLE public.comment_reactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Comment reactions are viewable by everyone except blocked users" 
+ON public.comment_reactions 
+FOR SELECT 
+USING (NOT public.is_blocked_between(auth.uid(), user_id));
+
+CREATE POLICY "Users can react to comments they can see" 
+ON public.comment_reactions 
+FOR INSERT 
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.comments c
+    WHERE c.id = comment_id
+      AND NOT public.is_blocked_between(auth.uid(), c.user_id)
+  )
+);
+
+CREATE POLICY "Users can remove their own comment reactions" 
+ON public.comment_reactions 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+-- DELETE events need comment_id so clients can tell which comment lost a reaction
+ALTER TABLE public.comment_reactions REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.comment_reactions;
+
+-- The feed now carries question state and can be narrowed to unanswered questions
+DROP FUNCTION public.get_feed(INTEGER, TIMESTAMP WITH TIME ZONE, UUID, TEXT[], TEXT[], TEXT[], BOOLEAN, UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION public.get_feed(
+  _limit INTEGER DEFAULT 20,
+  _cursor_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _cursor_id UUID DEFAULT NULL,
+  _skills TEXT[] DEFAULT '{}',
+  _interests TEXT[] DEFAULT '{}',
+  _courses TEXT[] DEFAULT '{}',
+  _match_all BOOLEAN DEFAULT false,
+  _item_id UUID DEFAULT NULL,
+  _tag TEXT DEFAULT NULL,
+  _unanswered_only BOOLEAN DEFAULT false
+)
+RETURNS TABLE (
+  item_type TEXT,
+  id UUID,
+  user_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE,
+  author_name TEXT,
+  author_avatar_url TEXT,
+  content TEXT,
+  image_url TEXT,
+  likes INTEGER,
+  is_question BOOLEAN,
+  accepted_comment_id UUID,
+  question TEXT,
+  options TEXT[],
+  votes JSONB,
+  closes_at TIMESTAMP WITH TIME ZONE,
+  closed_at TIMESTAMP WITH TIME ZONE,
+  allow_multiple BOOLEAN,
+  max_selections INTEGER,
+  hide_results BOOLEAN
+) AS $$
+  WITH items AS (
+    SELECT
+      'post'::TEXT AS item_type,
+      po.id,
+      po.user_id,
+      po.created_at,
+      po.content,
+      po.image_url,
+      po.likes,
+      po.is_question,
+      po.accepted_comment_id,
+      NULL::TEXT AS question,
+      NULL::TEXT[] AS options,
+      NULL::JSONB AS votes,
+      NULL::TIMESTAMP WITH TIME ZONE AS closes_at,
+      NULL::TIMESTAMP WITH TIME ZONE AS closed_at,
+      NULL::BOOLEAN AS allow_multiple,
+      NULL::INTEGER AS max_selections,
+      NULL::BOOLEAN AS hide_results
+    FROM public.posts po
+    WHERE (_item_id IS NULL OR po.id = _item_id)
+      AND (_cursor_created_at IS NULL OR (po.created_at, po.id) < (_cursor_created_at, _cursor_id))
+      AND (NOT _unanswered_only OR (po.is_question AND po.accepted_comment_id IS NULL))
+    UNION ALL
+    SELECT
+      'poll'::TEXT,
+      pl.id,
+      pl.user_id,
+      pl.created_at,
+      NULL::TEXT,
+      NULL::TEXT,
+      NULL::INTEGER,
+      NULL::BOOLEAN,
+      NULL::UUID,
+      pl.question,
+      pl.options,
+      pl.votes,
+      pl.closes_at,
+      pl.closed_at,
+      pl.allow_multiple,
+      pl.max_selections,
+      pl.hide_results
+    FROM public.polls pl
+    WHERE (_item_id IS NULL OR pl.id = _item_id)
+      AND (_cursor_created_at IS NULL OR (pl.created_at, pl.id) < (_cursor_created_at, _cursor_id))
+      AND NOT _unanswered_only
+  )
+  SELECT
+    i.item_type,
+    i.id,
+    i.user_id,
+    i.created_at,
+    pr.name,
+    pr.avatar_url,
+    i.content,
+    i.image_url,
+    i.likes,
+    i.is_question,
+    i.accepted_comment_id,
+    i.question,
+    i.options,
+    i.votes,
+    i.closes_at,
+    i.closed_at,
+    i.allow_multiple,
+    i.max_selections,
+    i.hide_results
+  FROM items i
+  LEFT JOIN public.profiles pr ON pr.user_id = i.user_id
+  WHERE NOT public.is_blocked_between(auth.uid(), i.user_id)
+    AND public.matches_feed_filters(pr.skills, pr.interests, pr.course, _skills, _interests, _courses, _match_all)
+    AND (_tag IS NULL OR EXISTS (
+      SELECT 1 FROM public.post_tags t
+      WHERE t.tag = lower(_tag)
+        AND (t.post_id = i.id OR t.poll_id = i.id)
+    ))
+  ORDER BY i.created_at DESC, i.id DESC
+  LIMIT _limit;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = '';
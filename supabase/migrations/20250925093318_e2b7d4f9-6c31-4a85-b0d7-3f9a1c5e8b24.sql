@@ -0,0 +1,37 @@
+-- comments, polls and login_streaks were created without foreign keys, so deleting a post
+-- or an account left their rows behind. Clean up what is already orphaned, then add the
+-- constraints with cascading deletes.
+
+-- Accounts created before handle_new_user existed may have no profile; give them one so
+-- their comments and polls survive the new profile foreign keys
+INSERT INTO public.profiles (user_id, name)
+SELECT u.id, COALESCE(u.raw_user_meta_data->>'full_name', u.email)
+FROM auth.users u
+WHERE NOT EXISTS (SELECT 1 FROM public.profiles p WHERE p.user_id = u.id);
+
+-- Replies to removed comments go with them through comments_parent_id_fkey
+DELETE FROM public.comments c
+WHERE NOT EXISTS (SELECT 1 FROM public.posts p WHERE p.id = c.post_id)
+  OR NOT EXISTS (SELECT 1 FROM public.profiles pr WHERE pr.user_id = c.user_id);
+
+DELETE FROM public.polls pl
+WHERE NOT EXISTS (SELECT 1 FROM public.profiles pr WHERE pr.user_id = pl.user_id);
+
+DELETE FROM public.login_streaks ls
+WHERE NOT EXISTS (SELECT 1 FROM auth.users u WHERE u.id = ls.user_id);
+
+-- Authored content points at profiles rather than auth.users so the API can embed the
+-- author with select('*, profiles(name, avatar_url)'). Profiles cascade from auth.users,
+-- so deleting an account still removes everything it wrote.
+ALTER TABLE public.comments
+  ADD CONSTRAINT comments_post_id_fkey FOREIGN KEY (post_id) REFERENCES public.posts(id) ON DELETE CASCADE,
+  ADD CONSTRAINT comments_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.profiles(user_id) ON DELETE CASCADE;
+
+ALTER TABLE public.polls
+  ADD CONSTRAINT polls_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.profiles(user_id) ON DELETE CASCADE;
+
+ALTER TABLE public.login_streaks
+  ADD CONSTRAINT login_streaks_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE;
+
+CREATE INDEX idx_comments_user_id ON public.comments (user_id);
+CREATE INDEX idx_polls_user_id ON public.polls (user_id);
@@ -0,0 +1,53 @@
+-- Authors may still edit their poll and close it, but not rewrite how it was voted on.
+-- The votes tally is only written by sync_poll_votes_tally, which runs one trigger level
+-- down from a poll_votes change.
+CREATE OR REPLACE FUNCTION public.check_poll_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF pg_trigger_depth() > 1 THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.votes IS DISTINCT FROM OLD.votes THEN
+    RAISE EXCEPTION 'Poll votes can only change by voting';
+  END IF;
+
+  IF NEW.options IS DISTINCT FROM OLD.options
+    OR NEW.hide_results IS DISTINCT FROM OLD.hide_results
+    OR NEW.allow_multiple IS DISTINCT FROM OLD.allow_multiple
+    OR NEW.max_selections IS DISTINCT FROM OLD.max_selections
+  THEN
+    RAISE EXCEPTION 'Poll options and voting rules cannot be changed after creation';
+  END IF;
+
+  IF OLD.closed_at IS NOT NULL AND NEW.closed_at IS DISTINCT FROM OLD.closed_at THEN
+    RAISE EXCEPTION 'Poll is already closed';
+  END IF;
+
+  IF OLD.closes_at IS NOT NULL AND OLD.closes_at <= now()
+    AND NEW.closed_at IS NULL
+    AND (NEW.closes_at IS NULL OR NEW.closes_at > now())
+  THEN
+    RAISE EXCEPTION 'A closed poll cannot be reopened';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = '';
+
+CREATE TRIGGER check_poll_update
+BEFORE UPDATE ON public.polls
+FOR EACH ROW
+EXECUTE FUNCTION public.check_poll_update();
+
+-- People who voted, as opposed to the selections in the tally, which count each voter once
+-- per option on multiple-choice polls. Hidden like the tally while results are hidden.
+CREATE OR REPLACE FUNCTION public.get_poll_voter_count(_poll_id UUID)
+RETURNS INTEGER AS $$
+  SELECT CASE
+    WHEN pl.hide_results AND public.is_poll_open(pl.id) THEN 0
+    ELSE (SELECT count(DISTINCT pv.user_id)::INTEGER FROM public.poll_votes pv WHERE pv.poll_id = pl.id)
+  END
+  FROM public.polls pl
+  WHERE pl.id = _poll_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = '';
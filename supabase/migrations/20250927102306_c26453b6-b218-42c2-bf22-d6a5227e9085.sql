@@ -0,0 +1,169 @@
+-- Clients choose the page size of the feed and trending lists, up to 50 items
+CREATE OR REPLACE FUNCTION public.get_feed(
+  _limit INTEGER DEFAULT 20,
+  _cursor_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _cursor_id UUID DEFAULT NULL,
+  _skills TEXT[] DEFAULT '{}',
+  _interests TEXT[] DEFAULT '{}',
+  _courses TEXT[] DEFAULT '{}',
+  _match_all BOOLEAN DEFAULT false,
+  _item_id UUID DEFAULT NULL,
+  _tag TEXT DEFAULT NULL,
+  _unanswered_only BOOLEAN DEFAULT false
+)
+RETURNS TABLE (
+  item_type TEXT,
+  id UUID,
+  user_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE,
+  author_name TEXT,
+  author_avatar_url TEXT,
+  content TEXT,
+  image_url TEXT,
+  likes INTEGER,
+  is_question BOOLEAN,
+  accepted_comment_id UUID,
+  question TEXT,
+  options TEXT[],
+  votes JSONB,
+  closes_at TIMESTAMP WITH TIME ZONE,
+  closed_at TIMESTAMP WITH TIME ZONE,
+  allow_multiple BOOLEAN,
+  max_selections INTEGER,
+  hide_results BOOLEAN
+) AS $$
+  WITH items AS (
+    SELECT
+      'post'::TEXT AS item_type,
+      po.id,
+      po.user_id,
+      po.created_at,
+      po.content,
+      po.image_url,
+      po.likes,
+      po.is_question,
+      po.accepted_comment_id,
+      NULL::TEXT AS question,
+      NULL::TEXT[] AS options,
+      NULL::JSONB AS votes,
+      NULL::TIMESTAMP WITH TIME ZONE AS closes_at,
+      NULL::TIMESTAMP WITH TIME ZONE AS closed_at,
+      NULL::BOOLEAN AS allow_multiple,
+      NULL::INTEGER AS max_selections,
+      NULL::BOOLEAN AS hide_results
+    FROM public.posts po
+    WHERE (_item_id IS NULL OR po.id = _item_id)
+      AND (_cursor_created_at IS NULL OR (po.created_at, po.id) < (_cursor_created_at, _cursor_id))
+      AND (NOT _unanswered_only OR (po.is_question AND po.accepted_comment_id IS NULL))
+    UNION ALL
+    SELECT
+      'poll'::TEXT,
+      pl.id,
+      pl.user_id,
+      pl.created_at,
+      NULL::TEXT,
+      NULL::TEXT,
+      NULL::INTEGER,
+      NULL::BOOLEAN,
+      NULL::UUID,
+      pl.question,
+      pl.options,
+      pl.votes,
+      pl.closes_at,
+      pl.closed_at,
+      pl.allow_multiple,
+      pl.max_selections,
+      pl.hide_results
+    FROM public.polls pl
+    WHERE (_item_id IS NULL OR pl.id = _item_id)
+      AND (_cursor_created_at IS NULL OR (pl.created_at, pl.id) < (_cursor_created_at, _cursor_id))
+      AND NOT _unanswered_only
+  )
+  SELECT
+    i.item_type,
+    i.id,
+    i.user_id,
+    i.created_at,
+    pr.name,
+    pr.avatar_url,
+    i.content,
+    i.image_url,
+    i.likes,
+    i.is_question,
+    i.accepted_comment_id,
+    i.question,
+    i.options,
+    i.votes,
+    i.closes_at,
+    i.closed_at,
+    i.allow_multiple,
+    i.max_selections,
+    i.hide_results
+  FROM items i
+  LEFT JOIN public.profiles pr ON pr.user_id = i.user_id
+  WHERE NOT public.is_blocked_between(auth.uid(), i.user_id)
+    AND public.matches_feed_filters(pr.skills, pr.interests, pr.course, _skills, _interests, _courses, _match_all)
+    AND (_tag IS NULL OR EXISTS (
+      SELECT 1 FROM public.post_tags t
+      WHERE t.tag = lower(_tag)
+        AND (t.post_id = i.id OR t.poll_id = i.id)
+    ))
+  ORDER BY i.created_at DESC, i.id DESC
+  LIMIT LEAST(GREATEST(_limit, 1), 50);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = '';
+
+CREATE OR REPLACE FUNCTION public.get_trending_posts(
+  _window TEXT DEFAULT 'today',
+  _limit INTEGER DEFAULT 20,
+  _offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  content TEXT,
+  image_url TEXT,
+  likes INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE,
+  author_name TEXT,
+  author_avatar_url TEXT,
+  comment_count INTEGER,
+  unique_engagers INTEGER,
+  score NUMERIC
+) AS $$
+DECLARE
+  _since TIMESTAMP WITH TIME ZONE;
+  _gravity NUMERIC;
+BEGIN
+  CASE _window
+    WHEN 'today' THEN _since := now() - INTERVAL '1 day'; _gravity := 1.8;
+    WHEN 'week' THEN _since := now() - INTERVAL '7 days'; _gravity := 1.5;
+    WHEN 'month' THEN _since := now() - INTERVAL '30 days'; _gravity := 1.2;
+    ELSE RAISE EXCEPTION 'Unknown trending window: %', _window;
+  END CASE;
+
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.user_id,
+    p.content,
+    p.image_url,
+    p.likes,
+    p.created_at,
+    pr.name,
+    pr.avatar_url,
+    COALESCE(e.comment_count, 0)::INTEGER,
+    COALESCE(e.unique_engagers, 0)::INTEGER,
+    round((
+      (p.likes + 2 * COALESCE(e.comment_count, 0) + 1.5 * COALESCE(e.unique_engagers, 0))
+      / power(extract(epoch FROM now() - p.created_at) / 3600 + 2, _gravity)
+    )::NUMERIC, 4) AS score
+  FROM public.posts p
+  LEFT JOIN public.post_engagement e ON e.post_id = p.id
+  LEFT JOIN public.profiles pr ON pr.user_id = p.user_id
+  WHERE p.created_at > _since
+    AND NOT public.is_blocked_between(auth.uid(), p.user_id)
+  ORDER BY 11 DESC, p.created_at DESC
+  LIMIT LEAST(GREATEST(_limit, 1), 50)
+  OFFSET GREATEST(_offset, 0);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = '';
@@ -0,0 +1,17 @@
+-- Match the query literally, so typing @% or @_ doesn't list everyone
+CREATE OR REPLACE FUNCTION public.search_mentionable_profiles(_query TEXT, _limit INTEGER DEFAULT 6)
+RETURNS TABLE (
+  user_id UUID,
+  name TEXT,
+  avatar_url TEXT
+) AS $$
+  SELECT p.user_id, p.name, p.avatar_url
+  FROM public.profiles p
+  CROSS JOIN (SELECT replace(replace(replace(_query, '\', '\\'), '%', '\%'), '_', '\_') AS prefix) q
+  WHERE p.user_id <> auth.uid()
+    AND NOT public.is_blocked_between(auth.uid(), p.user_id)
+    AND (p.name ILIKE q.prefix || '%' OR p.name ILIKE '% ' || q.prefix || '%')
+  -- Names starting with the query come before later-word matches
+  ORDER BY p.name ILIKE q.prefix || '%' DESC, p.name
+  LIMIT _limit;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = '';
@@ -0,0 +1,48 @@
+-- Digests only include notifications since the previous run for that frequency, so
+-- switching a category to a digest doesn't email the whole unread history.
+CREATE OR REPLACE FUNCTION public.get_notification_digest(_frequency TEXT)
+RETURNS TABLE (
+  notification_id UUID,
+  user_id UUID,
+  email TEXT,
+  recipient_name TEXT,
+  type TEXT,
+  actor_name TEXT,
+  post_id UUID,
+  poll_id UUID,
+  match_id UUID,
+  conversation_id UUID,
+  comment_id UUID,
+  message_id UUID,
+  context TEXT,
+  created_at TIMESTAMP WITH TIME ZONE
+) AS $$
+  SELECT
+    n.id,
+    n.user_id,
+    u.email::TEXT,
+    rp.name,
+    n.type,
+    ap.name,
+    n.post_id,
+    n.poll_id,
+    n.match_id,
+    n.conversation_id,
+    n.comment_id,
+    n.message_id,
+    COALESCE(po.content, pl.question, c.name),
+    n.created_at
+  FROM public.notifications n
+  JOIN auth.users u ON u.id = n.user_id
+  LEFT JOIN public.profiles rp ON rp.user_id = n.user_id
+  LEFT JOIN public.profiles ap ON ap.user_id = n.actor_id
+  LEFT JOIN public.posts po ON po.id = n.post_id
+  LEFT JOIN public.polls pl ON pl.id = n.poll_id
+  LEFT JOIN public.conversations c ON c.id = n.conversation_id
+  WHERE n.read_at IS NULL
+    AND n.emailed_at IS NULL
+    AND n.created_at > now() - CASE _frequency WHEN 'weekly' THEN INTERVAL '7 days' ELSE INTERVAL '1 day' END
+    AND u.email IS NOT NULL
+    AND public.get_notification_delivery(n.user_id, n.type) = _frequency
+  ORDER BY n.user_id, n.created_at DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = '';
@@ -0,0 +1,64 @@
+-- Pairs that both swiped right before connection requests kept two matches when both
+-- chats had messages. Keep the older match, move the newer one's chat into it, then
+-- remove the newer match along with its now empty conversation.
+CREATE TEMPORARY TABLE duplicate_matches ON COMMIT DROP AS
+SELECT m.id AS duplicate_id, other.id AS kept_id
+FROM public.matches m
+JOIN public.matches other
+  ON other.user_id = m.matched_user_id
+  AND other.matched_user_id = m.user_id
+  AND (other.created_at, other.id) < (m.created_at, m.id);
+
+-- Storage can't move files from SQL, so moved attachments keep their paths under the
+-- removed chat's folder and are readable through the message that references them
+ALTER TABLE public.messages DROP CONSTRAINT messages_attachment_path_check;
+
+UPDATE public.messages msg
+SET conversation_id = d.kept_id
+FROM duplicate_matches d
+WHERE msg.conversation_id = d.duplicate_id;
+
+ALTER TABLE public.messages
+  ADD CONSTRAINT messages_attachment_path_check
+    CHECK (attachment_path IS NULL OR attachment_path LIKE conversation_id::text || '/' || sender_id::text || '/%')
+    NOT VALID;
+
+CREATE POLICY "Participants can view attachments of messages in their conversations" 
+ON storage.objects 
+FOR SELECT 
+USING (
+  bucket_id = 'chat-attachments'
+  AND EXISTS (
+    SELECT 1 FROM public.messages msg
+    WHERE msg.attachment_path = objects.name
+      AND public.is_conversation_participant(msg.conversation_id)
+  )
+);
+
+-- Read markers take the later position of the two chats
+INSERT INTO public.conversation_reads AS cr (conversation_id, user_id, last_read_at, last_delivered_at)
+SELECT d.kept_id, r.user_id, r.last_read_at, r.last_delivered_at
+FROM public.conversation_reads r
+JOIN duplicate_matches d ON d.duplicate_id = r.conversation_id
+ON CONFLICT (conversation_id, user_id) DO UPDATE SET
+  last_read_at = GREATEST(cr.last_read_at, EXCLUDED.last_read_at),
+  last_delivered_at = GREATEST(cr.last_delivered_at, EXCLUDED.last_delivered_at);
+
+UPDATE public.notifications n
+SET match_id = d.kept_id
+FROM duplicate_matches d
+WHERE n.match_id = d.duplicate_id;
+
+UPDATE public.notifications n
+SET conversation_id = d.kept_id
+FROM duplicate_matches d
+WHERE n.conversation_id = d.duplicate_id;
+
+UPDATE public.reports rp
+SET match_id = d.kept_id
+FROM duplicate_matches d
+WHERE rp.match_id = d.duplicate_id;
+
+DELETE FROM public.matches m
+USING duplicate_matches d
+WHERE m.id = d.duplicate_id;
@@ -0,0 +1,47 @@
+-- Matches are only removed through unmatch and block_user, which also clear the chat,
+-- requests and swipes between the pair
+DROP POLICY "Users can delete their own matches" ON public.matches;
+
+-- Only a pending request from the other side turns a swipe into a match
+CREATE OR REPLACE FUNCTION public.send_connection_request(_recipient_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  _incoming public.connection_requests%ROWTYPE;
+  _match_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF _recipient_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot connect with yourself';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(
+    hashtext(LEAST(auth.uid(), _recipient_id)::TEXT || GREATEST(auth.uid(), _recipient_id)::TEXT)
+  );
+
+  INSERT INTO public.swipes (swiper_id, swiped_id, direction)
+  VALUES (auth.uid(), _recipient_id, 'right')
+  ON CONFLICT (swiper_id, swiped_id) DO UPDATE SET direction = 'right';
+
+  SELECT * INTO _incoming FROM public.connection_requests
+  WHERE sender_id = _recipient_id AND recipient_id = auth.uid()
+  FOR UPDATE;
+
+  IF FOUND AND _incoming.status = 'pending' THEN
+    UPDATE public.connection_requests
+    SET status = 'accepted', responded_at = COALESCE(responded_at, now())
+    WHERE id = _incoming.id;
+
+    _match_id := public.create_mutual_match(_recipient_id, auth.uid());
+    RETURN jsonb_build_object('status', 'matched', 'match_id', _match_id);
+  END IF;
+
+  INSERT INTO public.connection_requests (sender_id, recipient_id)
+  VALUES (auth.uid(), _recipient_id)
+  ON CONFLICT (sender_id, recipient_id) DO NOTHING;
+
+  RETURN jsonb_build_object('status', 'pending', 'match_id', NULL);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
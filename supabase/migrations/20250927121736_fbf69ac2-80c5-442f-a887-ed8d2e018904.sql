@@ -0,0 +1,38 @@
+-- The member list is cleaned before counting, so repeating one member or including
+-- yourself no longer gets a group past the two-member minimum
+CREATE OR REPLACE FUNCTION public.create_group_conversation(_name TEXT, _member_ids UUID[])
+RETURNS UUID AS $$
+DECLARE
+  _conversation_id UUID;
+  _member_id UUID;
+  _members UUID[];
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  _members := ARRAY(SELECT DISTINCT m FROM unnest(_member_ids) AS m WHERE m <> auth.uid());
+
+  IF COALESCE(array_length(_members, 1), 0) < 2 THEN
+    RAISE EXCEPTION 'Groups need at least two other members';
+  END IF;
+
+  INSERT INTO public.conversations (type, name, created_by)
+  VALUES ('group', btrim(_name), auth.uid())
+  RETURNING id INTO _conversation_id;
+
+  INSERT INTO public.conversation_participants (conversation_id, user_id, role)
+  VALUES (_conversation_id, auth.uid(), 'owner');
+
+  FOREACH _member_id IN ARRAY _members LOOP
+    IF NOT public.are_matched(auth.uid(), _member_id) OR public.is_blocked_between(auth.uid(), _member_id) THEN
+      RAISE EXCEPTION 'You can only add students you are matched with';
+    END IF;
+
+    INSERT INTO public.conversation_participants (conversation_id, user_id)
+    VALUES (_conversation_id, _member_id);
+  END LOOP;
+
+  RETURN _conversation_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
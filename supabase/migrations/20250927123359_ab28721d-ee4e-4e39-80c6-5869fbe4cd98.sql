@@ -0,0 +1,115 @@
+-- Clients choose how many results of each type to get, up to 50
+CREATE OR REPLACE FUNCTION public.search_everything(_query TEXT, _limit INTEGER DEFAULT 20)
+RETURNS TABLE (
+  result_type TEXT,
+  id UUID,
+  post_id UUID,
+  user_id UUID,
+  author_name TEXT,
+  author_avatar_url TEXT,
+  headline TEXT,
+  context TEXT,
+  rank REAL,
+  created_at TIMESTAMP WITH TIME ZONE
+) AS $$
+  WITH content_query AS (
+    SELECT websearch_to_tsquery('english', _query) AS q
+  ),
+  people_query AS (
+    SELECT public.to_prefix_tsquery(_query) AS q
+  ),
+  post_results AS (
+    SELECT
+      'post'::TEXT,
+      p.id,
+      NULL::UUID,
+      p.user_id,
+      pr.name,
+      pr.avatar_url,
+      ts_headline('english', p.content, cq.q, 'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15'),
+      NULL::TEXT,
+      ts_rank(p.search_vector, cq.q),
+      p.created_at
+    FROM public.posts p
+    CROSS JOIN content_query cq
+    LEFT JOIN public.profiles pr ON pr.user_id = p.user_id
+    WHERE p.search_vector @@ cq.q
+      AND NOT public.is_blocked_between(auth.uid(), p.user_id)
+    ORDER BY 9 DESC, p.created_at DESC
+    LIMIT LEAST(GREATEST(_limit, 1), 50)
+  ),
+  comment_results AS (
+    SELECT
+      'comment'::TEXT,
+      c.id,
+      c.post_id,
+      c.user_id,
+      pr.name,
+      pr.avatar_url,
+      ts_headline('english', c.content, cq.q, 'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15'),
+      left(p.content, 120),
+      ts_rank(c.search_vector, cq.q),
+      c.created_at
+    FROM public.comments c
+    CROSS JOIN content_query cq
+    JOIN public.posts p ON p.id = c.post_id
+    LEFT JOIN public.profiles pr ON pr.user_id = c.user_id
+    WHERE c.search_vector @@ cq.q
+      AND NOT public.is_blocked_between(auth.uid(), c.user_id)
+      AND NOT public.is_blocked_between(auth.uid(), p.user_id)
+    ORDER BY 9 DESC, c.created_at DESC
+    LIMIT LEAST(GREATEST(_limit, 1), 50)
+  ),
+  poll_results AS (
+    SELECT
+      'poll'::TEXT,
+      pl.id,
+      NULL::UUID,
+      pl.user_id,
+      pr.name,
+      pr.avatar_url,
+      ts_headline('english', pl.question, cq.q, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true'),
+      array_to_string(pl.options, ' · '),
+      ts_rank(pl.search_vector, cq.q),
+      pl.created_at
+    FROM public.polls pl
+    CROSS JOIN content_query cq
+    LEFT JOIN public.profiles pr ON pr.user_id = pl.user_id
+    WHERE pl.search_vector @@ cq.q
+      AND NOT public.is_blocked_between(auth.uid(), pl.user_id)
+    ORDER BY 9 DESC, pl.created_at DESC
+    LIMIT LEAST(GREATEST(_limit, 1), 50)
+  ),
+  profile_results AS (
+    SELECT
+      'profile'::TEXT,
+      pr.id,
+      NULL::UUID,
+      pr.user_id,
+      pr.name,
+      pr.avatar_url,
+      ts_headline('simple', pr.name, pq.q, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true'),
+      ts_headline(
+        'simple',
+        concat_ws(' · ', pr.course, array_to_string(pr.skills, ', '), array_to_string(pr.interests, ', ')),
+        pq.q,
+        'StartSel=<mark>, StopSel=</mark>, HighlightAll=true'
+      ),
+      ts_rank(pr.search_vector, pq.q),
+      pr.created_at
+    FROM public.profiles pr
+    CROSS JOIN people_query pq
+    WHERE pr.search_vector @@ pq.q
+      AND pr.user_id <> auth.uid()
+      AND NOT public.is_blocked_between(auth.uid(), pr.user_id)
+    ORDER BY 9 DESC, pr.name
+    LIMIT LEAST(GREATEST(_limit, 1), 50)
+  )
+  SELECT * FROM post_results
+  UNION ALL
+  SELECT * FROM comment_results
+  UNION ALL
+  SELECT * FROM poll_results
+  UNION ALL
+  SELECT * FROM profile_results;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = '';
@@ -0,0 +1,13 @@
+-- Match the prefix literally, so typing #% doesn't suggest every tag
+CREATE OR REPLACE FUNCTION public.search_tags(_prefix TEXT, _limit INTEGER DEFAULT 8)
+RETURNS TABLE (
+  tag TEXT,
+  use_count INTEGER
+) AS $$
+  SELECT t.tag, count(*)::INTEGER
+  FROM public.post_tags t
+  WHERE t.tag LIKE replace(replace(replace(lower(_prefix), '\', '\\'), '%', '\%'), '_', '\_') || '%'
+  GROUP BY t.tag
+  ORDER BY 2 DESC, t.tag
+  LIMIT _limit;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = '';